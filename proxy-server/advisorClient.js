@@ -0,0 +1,92 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/*
+ * Free-form advisor questions, answered by any OpenAI-compatible chat
+ * completions endpoint. The prompt templates live in prompts/advisor/<version>/
+ * (system.md, user.md with {{question}} and {{context}}) so changes to them
+ * are reviewed and versioned like code.
+ *
+ *   ADVISOR_BASE_URL   endpoint root, e.g. https://api.openai.com/v1
+ *                      (default: the bundled stub, npm run advisor-stub)
+ *   ADVISOR_API_KEY    sent as a bearer token when set
+ *   ADVISOR_MODEL      model name passed through to the endpoint
+ *   ADVISOR_TIMEOUT_MS how long to wait for an answer (default 60s)
+ *   ADVISOR_MAX_CONTEXT_BYTES largest league context forwarded (default 64 KB)
+ */
+
+const baseDir = path.dirname(fileURLToPath(import.meta.url));
+const PROMPT_DIR = path.join(baseDir, 'prompts', 'advisor');
+const BASE_URL = (process.env.ADVISOR_BASE_URL || 'http://localhost:3002/v1').replace(/\/$/, '');
+const MODEL = process.env.ADVISOR_MODEL || 'advisor-stub';
+const TIMEOUT_MS = Number(process.env.ADVISOR_TIMEOUT_MS) || 60000;
+// Every forwarded request is paid for, so oversized ones are refused up front
+const MAX_QUESTION_CHARS = 1000;
+const MAX_CONTEXT_BYTES = Number(process.env.ADVISOR_MAX_CONTEXT_BYTES) || 64 * 1024;
+
+export const DEFAULT_PROMPT_VERSION = 'v1';
+
+function badRequest(message, status = 400) {
+  const err = new Error(message);
+  err.status = status;
+  return err;
+}
+
+async function loadTemplates(version) {
+  if (!/^v\d+$/.test(version)) throw badRequest(`Unknown prompt version ${version}`);
+  try {
+    const [system, user] = await Promise.all([
+      fs.readFile(path.join(PROMPT_DIR, version, 'system.md'), 'utf8'),
+      fs.readFile(path.join(PROMPT_DIR, version, 'user.md'), 'utf8'),
+    ]);
+    return { system, user };
+  } catch (err) {
+    if (err.code === 'ENOENT') throw badRequest(`Unknown prompt version ${version}`);
+    throw err;
+  }
+}
+
+/** The chat messages for a question and its league context. */
+export async function renderAdvisorPrompt(version, question, context) {
+  const { system, user } = await loadTemplates(version);
+  const contextJson = JSON.stringify(context, null, 2);
+  return [
+    { role: 'system', content: system.trim() },
+    { role: 'user', content: user.replace('{{question}}', () => question.trim()).replace('{{context}}', () => contextJson).trim() },
+  ];
+}
+
+/** Ask the configured endpoint; resolves with the answer text and the model that gave it. */
+export async function askAdvisor({ question, context, promptVersion = DEFAULT_PROMPT_VERSION }) {
+  if (typeof question !== 'string' || !question.trim()) throw badRequest('A question is required');
+  if (!context || typeof context !== 'object') throw badRequest('A league context is required');
+  if (question.trim().length > MAX_QUESTION_CHARS) throw badRequest(`Questions are limited to ${MAX_QUESTION_CHARS} characters`, 413);
+  if (Buffer.byteLength(JSON.stringify(context)) > MAX_CONTEXT_BYTES) throw badRequest(`The league context is over ${MAX_CONTEXT_BYTES} bytes`, 413);
+
+  const messages = await renderAdvisorPrompt(promptVersion, question, context);
+  const headers = { 'Content-Type': 'application/json' };
+  if (process.env.ADVISOR_API_KEY) headers.Authorization = `Bearer ${process.env.ADVISOR_API_KEY}`;
+
+  const started = Date.now();
+  const res = await fetch(`${BASE_URL}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ model: MODEL, messages, temperature: 0.2 }),
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const err = new Error(`Advisor endpoint returned ${res.status}: ${body?.error?.message || res.statusText}`);
+    err.status = 502;
+    throw err;
+  }
+
+  const answer = body?.choices?.[0]?.message?.content;
+  if (typeof answer !== 'string') {
+    const err = new Error('Advisor endpoint returned no answer');
+    err.status = 502;
+    throw err;
+  }
+  return { answer, model: body.model || MODEL, promptVersion, upstreamMs: Date.now() - started };
+}
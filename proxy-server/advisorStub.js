@@ -0,0 +1,75 @@
+import express from 'express';
+
+/*
+ * Local stand-in for an OpenAI-compatible chat endpoint, for working on the
+ * advisor without a model or an API key. Answers are canned but built from
+ * the league context in the prompt, so they cite real player ids:
+ *
+ *   npm run advisor-stub        listens on ADVISOR_STUB_PORT (default 3002)
+ *
+ * The proxy's default ADVISOR_BASE_URL points here.
+ */
+
+const PORT = process.env.ADVISOR_STUB_PORT || 3002;
+
+// The user message ends with the context JSON (prompts/advisor/*/user.md)
+function extractContext(content) {
+  const start = content.indexOf('{', content.indexOf('League context'));
+  if (start < 0) return null;
+  try {
+    return JSON.parse(content.slice(start));
+  } catch {
+    return null;
+  }
+}
+
+function extractQuestion(content) {
+  return content.match(/^Question:\s*(.*)$/m)?.[1] ?? '';
+}
+
+const cite = player => `${player.name} [player:${player.playerId}]`;
+
+/** A deterministic answer from the context: the best free-agent starter and who to drop for him. */
+function stubAnswer(messages) {
+  const user = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+  const context = extractContext(user);
+  const question = extractQuestion(user);
+  if (!context) return `Stub advisor: no league context came with "${question}".`;
+
+  const mine = context.teams?.find(t => t.role === 'mine');
+  const roster = mine?.roster || [];
+  const streamer = [...(context.freeAgentStarters || [])]
+    .sort((a, b) => b.starts.length - a.starts.length || (b.percentOwned ?? 0) - (a.percentOwned ?? 0))[0];
+  const drop = roster.find(p => p.slot === 'BE' && !['SP', 'RP', 'P'].includes(p.position)) || roster.find(p => p.slot === 'BE');
+
+  const lines = [`Stub advisor (no model behind this answer) on "${question}":`];
+  if (streamer) {
+    lines.push(`Pick up ${cite(streamer)}, who has ${streamer.starts.length} probable start${streamer.starts.length === 1 ? '' : 's'} (${streamer.starts.join(', ')}).`);
+  }
+  if (drop) lines.push(`${streamer ? 'Drop' : 'Your weakest bench spot is'} ${cite(drop)}.`);
+  const top = context.recommendations?.[0];
+  if (top) lines.push(`The rules-based advisor's top item: ${top.title}.`);
+  if (lines.length === 1) lines.push(`${mine?.name || 'Your team'} has ${roster.length} rostered players and nothing stands out.`);
+  return lines.join(' ');
+}
+
+const app = express();
+app.use(express.json({ limit: '1mb' }));
+
+app.post('/v1/chat/completions', (req, res) => {
+  const { model = 'advisor-stub', messages } = req.body || {};
+  if (!Array.isArray(messages)) return res.status(400).json({ error: { message: 'messages must be an array' } });
+  const content = stubAnswer(messages);
+  res.json({
+    id: `stub-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`Advisor stub running on port ${PORT}`);
+});
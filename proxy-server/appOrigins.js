@@ -0,0 +1,39 @@
+// Browser origins allowed to call the proxy. Everything it serves is tied to
+// the user's league (cookies, roster history, the advisor's API key), so other
+// sites must not be able to use it from the user's browser.
+//   APP_ORIGINS  comma-separated, e.g. https://fantasyflow.example.com
+//                (default: the Vite dev server and `vite preview`)
+const DEFAULT_ORIGINS = ['http://localhost:3003', 'http://127.0.0.1:3003', 'http://localhost:4173', 'http://127.0.0.1:4173'];
+const LOOPBACK_ADDRESSES = new Set(['127.0.0.1', '::1', '::ffff:127.0.0.1']);
+
+const allowedOrigins = new Set(
+  (process.env.APP_ORIGINS ? process.env.APP_ORIGINS.split(',') : DEFAULT_ORIGINS)
+    .map(origin => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean)
+);
+
+// Requests without an Origin come from curl, scripts or same-origin navigation
+export function isAllowedOrigin(origin) {
+  return !origin || allowedOrigins.has(origin);
+}
+
+/** Rejects browser requests from other sites outright, even ones CORS would let through without a preflight. */
+export function requireAppOrigin(req, res, next) {
+  if (isAllowedOrigin(req.headers.origin)) return next();
+  console.warn(`[Proxy] Rejected ${req.method} ${req.path} from origin ${req.headers.origin}`);
+  res.status(403).json({ error: 'Origin not allowed' });
+}
+
+/** requireAppOrigin, but a request without an Origin must also come from this machine. */
+export function requireLocalApp(req, res, next) {
+  if (!req.headers.origin && !LOOPBACK_ADDRESSES.has(req.socket.remoteAddress)) {
+    console.warn(`[Proxy] Rejected ${req.method} ${req.path} from ${req.socket.remoteAddress} without an origin`);
+    res.status(403).json({ error: 'Origin not allowed' });
+    return;
+  }
+  requireAppOrigin(req, res, next);
+}
+
+export function listAllowedOrigins() {
+  return [...allowedOrigins];
+}
@@ -0,0 +1,29 @@
+// MLB and ESPN both run their baseball day on America/New_York time.
+const etDateFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/New_York', year: 'numeric', month: '2-digit', day: '2-digit',
+});
+const etHourFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York', hour: 'numeric', hourCycle: 'h23',
+});
+
+export function todayET(now = new Date()) {
+  return etDateFormat.format(now); // en-CA formats as YYYY-MM-DD
+}
+
+export function hourET(now = new Date()) {
+  return Number(etHourFormat.format(now));
+}
+
+const DAY_MS = 86_400_000;
+
+/** Shift a YYYY-MM-DD scoring day by whole days. */
+export function addDaysET(date, days) {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Whole days from one YYYY-MM-DD scoring day to another. */
+export function daysBetweenET(from, to) {
+  return Math.round((Date.parse(`${to}T12:00:00Z`) - Date.parse(`${from}T12:00:00Z`)) / DAY_MS);
+}
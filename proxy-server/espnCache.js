@@ -0,0 +1,108 @@
+import { createHash } from 'node:crypto';
+import { espnFetch } from './espnClient.js';
+
+const MINUTE = 60 * 1000;
+
+// How long each ESPN view stays fresh. A response is cached for the shortest
+// TTL among the views it requested.
+const VIEW_TTL_MS = {
+  mSettings: 6 * 60 * MINUTE,
+  mSchedule: 60 * MINUTE,
+  mTeam: 15 * MINUTE,
+  mStandings: 15 * MINUTE,
+  mRoster: 5 * MINUTE,
+  mMatchup: 2 * MINUTE,
+  mMatchupScore: 2 * MINUTE,
+  mScoreboard: 2 * MINUTE,
+  kona_player_info: 10 * MINUTE,
+};
+const DEFAULT_TTL_MS = 5 * MINUTE;
+
+// Rosters and scores for a scoring period that has already finished do not change
+const HISTORICAL_TTL_MS = 24 * 60 * MINUTE;
+const MAX_ENTRIES = Number(process.env.ESPN_CACHE_MAX_ENTRIES) || 2000;
+
+const cache = new Map();    // key -> { status, contentType, body, storedAt, expiresAt, upstreamMs }
+const inFlight = new Map(); // key -> Promise<entry>
+
+/** Cache key: path + scoringPeriodId + sorted views (+ filter header), scoped per ESPN account. */
+export function cacheKey(path, query, { swid, fantasyFilter } = {}) {
+  const views = [].concat(query.view || []).map(String).sort();
+  const account = createHash('sha1').update(String(swid)).digest('hex').slice(0, 12);
+  const filter = fantasyFilter ? createHash('sha1').update(fantasyFilter).digest('hex').slice(0, 12) : '';
+  return [account, path, query.scoringPeriodId ?? '', views.join(','), filter].join('|');
+}
+
+function ttlFor(query, body) {
+  const views = [].concat(query.view || []);
+  let ttl = views.length
+    ? Math.min(...views.map(v => VIEW_TTL_MS[v] ?? DEFAULT_TTL_MS))
+    : DEFAULT_TTL_MS;
+
+  const requested = Number(query.scoringPeriodId);
+  if (requested) {
+    try {
+      const current = JSON.parse(body).scoringPeriodId;
+      if (current && requested < current) ttl = HISTORICAL_TTL_MS;
+    } catch {
+      // non-JSON body: keep the view TTL
+    }
+  }
+  return ttl;
+}
+
+// Map iterates in insertion order; reads and writes move a key to the end,
+// so the first key is the least recently used
+function touch(key, entry) {
+  cache.delete(key);
+  cache.set(key, entry);
+}
+
+function store(key, entry) {
+  if (!cache.has(key) && cache.size >= MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value);
+  }
+  touch(key, entry);
+}
+
+/**
+ * Serve an ESPN request from cache, an identical in-flight request, or the
+ * rate-limited upstream. Resolves with the response plus how it was served.
+ */
+export async function cachedEspnFetch(path, query, pathAndQuery, auth, { bypass = false } = {}) {
+  const key = cacheKey(path, query, auth);
+  const now = Date.now();
+
+  const hit = cache.get(key);
+  if (!bypass && hit && hit.expiresAt > now) {
+    touch(key, hit);
+    return { ...hit, cacheStatus: 'HIT', ageMs: now - hit.storedAt, upstreamMs: 0, queueMs: 0 };
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    const entry = await pending;
+    return { ...entry, cacheStatus: 'COALESCED', ageMs: Date.now() - entry.storedAt };
+  }
+
+  const request = espnFetch(pathAndQuery, auth).then(res => {
+    const entry = { ...res, storedAt: Date.now() };
+    if (res.status === 200) store(key, { ...entry, expiresAt: entry.storedAt + ttlFor(query, res.body) });
+    return entry;
+  });
+  inFlight.set(key, request);
+  try {
+    const entry = await request;
+    return { ...entry, cacheStatus: bypass ? 'BYPASS' : 'MISS', ageMs: 0 };
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+export function cacheStats() {
+  return { entries: cache.size, inFlight: inFlight.size };
+}
+
+export function clearEspnCache() {
+  cache.clear();
+}
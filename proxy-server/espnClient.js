@@ -0,0 +1,40 @@
+import { RateLimiter } from './rateLimiter.js';
+
+const ESPN_ORIGIN = 'https://fantasy.espn.com';
+
+// Shared by browser-initiated requests and background jobs so ESPN only ever
+// sees one well-behaved client.
+const limiter = new RateLimiter({
+  ratePerSec: Number(process.env.ESPN_RATE_PER_SEC) || 4,
+  burst: Number(process.env.ESPN_RATE_BURST) || 8,
+  maxQueue: Number(process.env.ESPN_MAX_QUEUE) || 500,
+});
+
+export function upstreamQueueDepth() {
+  return limiter.pending;
+}
+
+/**
+ * Fetch an ESPN fantasy API path (e.g. `/apis/v3/games/flb/...?view=mTeam`)
+ * with the given cookies. Resolves with the raw body so callers can cache it.
+ */
+export async function espnFetch(pathAndQuery, { swid, espnS2, fantasyFilter } = {}) {
+  const headers = {
+    Accept: 'application/json',
+    Cookie: `SWID=${swid}; espn_s2=${espnS2}`,
+  };
+  if (fantasyFilter) headers['x-fantasy-filter'] = fantasyFilter;
+
+  const { result, queueMs } = await limiter.schedule(async () => {
+    const started = Date.now();
+    const res = await fetch(`${ESPN_ORIGIN}${pathAndQuery}`, { headers });
+    const body = await res.text();
+    return {
+      status: res.status,
+      contentType: res.headers.get('content-type') || 'application/json',
+      body,
+      upstreamMs: Date.now() - started,
+    };
+  });
+  return { ...result, queueMs };
+}
@@ -0,0 +1,97 @@
+import { createHash } from 'node:crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+/*
+ * Record/replay of upstream traffic for offline development.
+ *
+ *   record – every ESPN/MLB response the proxy serves is also written to FIXTURE_DIR
+ *   replay – responses come only from FIXTURE_DIR; nothing leaves the machine
+ *
+ * The mode comes from FIXTURE_MODE and can be overridden per request with the
+ * `x-fixture-mode` header (the app sends it when DataService is switched).
+ */
+
+export const FIXTURE_MODES = ['off', 'record', 'replay'];
+
+const baseDir = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURE_DIR = process.env.FIXTURE_DIR || path.join(baseDir, 'data', 'fixtures');
+const DEFAULT_MODE = FIXTURE_MODES.includes(process.env.FIXTURE_MODE) ? process.env.FIXTURE_MODE : 'off';
+const MANIFEST_FILE = path.join(FIXTURE_DIR, 'manifest.json');
+
+let manifestCache = null;
+let manifestWrite = Promise.resolve();
+
+export function fixtureModeFor(req) {
+  const requested = req.headers['x-fixture-mode'];
+  return FIXTURE_MODES.includes(requested) ? requested : DEFAULT_MODE;
+}
+
+/**
+ * Stable key for a request. League id and season are dropped from ESPN paths
+ * and query parameters are sorted, so a capture replays for any client config.
+ */
+export function fixtureKey(source, pathAndQuery) {
+  const url = new URL(pathAndQuery, 'http://fixture');
+  const pathname = source === 'espn'
+    ? url.pathname.replace(/\/seasons\/\d+\/segments\/\d+\/leagues\/\d+/, '/league')
+    : url.pathname;
+  const params = [...url.searchParams.entries()]
+    .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv))
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+  return `${source}:${pathname}${params ? `?${params}` : ''}`;
+}
+
+function fileFor(key) {
+  return `${createHash('sha1').update(key).digest('hex')}.json`;
+}
+
+async function loadManifest() {
+  if (manifestCache) return manifestCache;
+  try {
+    manifestCache = JSON.parse(await fs.readFile(MANIFEST_FILE, 'utf8'));
+  } catch (err) {
+    if (err.code !== 'ENOENT') throw err;
+    manifestCache = { referenceDate: null, entries: {} };
+  }
+  return manifestCache;
+}
+
+export async function loadFixture(source, pathAndQuery) {
+  const key = fixtureKey(source, pathAndQuery);
+  const manifest = await loadManifest();
+  const entry = manifest.entries[key];
+  if (!entry) return null;
+  return JSON.parse(await fs.readFile(path.join(FIXTURE_DIR, entry.file), 'utf8'));
+}
+
+export function recordFixture(source, pathAndQuery, { status, contentType, body }) {
+  const key = fixtureKey(source, pathAndQuery);
+  // Serialise writes so concurrent recordings never race on the manifest
+  manifestWrite = manifestWrite.then(async () => {
+    const manifest = await loadManifest();
+    const file = fileFor(key);
+    await fs.mkdir(FIXTURE_DIR, { recursive: true });
+    await fs.writeFile(path.join(FIXTURE_DIR, file), JSON.stringify({ key, status, contentType, body }));
+
+    const now = new Date().toISOString();
+    // The moment the capture started is "now" for the app when replaying
+    manifest.referenceDate = manifest.referenceDate || now;
+    manifest.entries[key] = { file, status, recordedAt: now };
+    const tmp = `${MANIFEST_FILE}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(manifest, null, 2));
+    await fs.rename(tmp, MANIFEST_FILE);
+  }).catch(err => console.error('[Fixtures] Failed to record', key, err.message));
+  return manifestWrite;
+}
+
+export async function fixtureManifest() {
+  const manifest = await loadManifest();
+  return {
+    defaultMode: DEFAULT_MODE,
+    referenceDate: manifest.referenceDate,
+    entries: Object.keys(manifest.entries).length,
+  };
+}
@@ -1,42 +1,152 @@
 import express from 'express';
-import { createProxyMiddleware } from 'http-proxy-middleware';
 import cors from 'cors';
+import { captureSnapshot, snapshotGaps, startSnapshotScheduler } from './snapshotScheduler.js';
+import { isValidDate, listSnapshotDates, loadSnapshot } from './snapshotStore.js';
+import { saveCredentials } from './leagueCredentials.js';
+import { cacheStats, cachedEspnFetch, clearEspnCache } from './espnCache.js';
+import { upstreamQueueDepth } from './espnClient.js';
+import { cachedMlbFetch } from './mlbCache.js';
+import { fixtureManifest, fixtureModeFor, loadFixture, recordFixture } from './fixtures.js';
+import { askAdvisor } from './advisorClient.js';
+import { isAllowedOrigin, listAllowedOrigins, requireAppOrigin, requireLocalApp } from './appOrigins.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 app.use(cors({
-  origin: '*',
-  allowedHeaders: ['Content-Type', 'x-swid', 'x-espn-s2'],
-  exposedHeaders: ['Content-Type'],
+  origin: (origin, callback) => callback(null, isAllowedOrigin(origin)),
+  allowedHeaders: ['Content-Type', 'Cache-Control', 'x-swid', 'x-espn-s2', 'x-fantasy-filter', 'x-fixture-mode'],
+  exposedHeaders: ['Content-Type', 'X-Cache', 'X-Cache-Age', 'X-Upstream-Time', 'X-Queue-Time', 'X-Fixture'],
 }));
 app.use(express.json());
 
-// Proxy ESPN requests, injecting cookies and stripping custom headers
-const espnProxy = createProxyMiddleware({
-  target: 'https://fantasy.espn.com',
-  changeOrigin: true,
-  pathRewrite: { '^/espn': '' },
-  onProxyReq: (proxyReq, req) => {
-    const swid = req.headers['x-swid'];
-    const espnS2 = req.headers['x-espn-s2'];
-
-    if (!swid || !espnS2) {
-      // Short-circuit the request if cookies are missing
-      throw new Error('Missing SWID or espn_s2');
+// In replay mode, answer from recorded fixtures and never touch the network
+function replayFixtures(source) {
+  return async (req, res, next) => {
+    if (fixtureModeFor(req) !== 'replay') return next();
+    const pathAndQuery = req.originalUrl.replace(`/${source}`, '');
+    try {
+      const fixture = await loadFixture(source, pathAndQuery);
+      if (!fixture) {
+        return res.status(404).set('X-Fixture', 'MISS').json({ error: `No fixture recorded for ${pathAndQuery}` });
+      }
+      res.set({ 'Content-Type': fixture.contentType, 'X-Fixture': 'REPLAY' });
+      res.status(fixture.status).send(fixture.body);
+    } catch (err) {
+      next(err);
     }
+  };
+}
 
-    // Inject auth cookies
-    proxyReq.setHeader('Cookie', `SWID=${swid}; espn_s2=${espnS2}`);
+app.get('/fixtures/manifest', async (_req, res) => {
+  res.json(await fixtureManifest());
+});
+
+// Forward ESPN requests through the response cache and outbound rate limiter,
+// injecting auth cookies from our custom headers
+app.get('/espn/*', replayFixtures('espn'), async (req, res) => {
+  const swid = req.headers['x-swid'];
+  const espnS2 = req.headers['x-espn-s2'];
+  if (!swid || !espnS2) {
+    return res.status(401).json({ error: 'Missing SWID or espn_s2' });
+  }
+
+  const auth = { swid, espnS2, fantasyFilter: req.headers['x-fantasy-filter'] };
+  const bypass = /no-cache/.test(req.headers['cache-control'] || '');
+  const pathAndQuery = req.originalUrl.replace(/^\/espn/, '');
+
+  try {
+    const result = await cachedEspnFetch(req.path, req.query, pathAndQuery, auth, { bypass });
+    res.set({
+      'Content-Type': result.contentType,
+      'X-Cache': result.cacheStatus,
+      'X-Cache-Age': String(Math.round(result.ageMs / 1000)),
+      'X-Upstream-Time': String(result.upstreamMs),
+      'X-Queue-Time': String(result.queueMs),
+    });
+    if (fixtureModeFor(req) === 'record' && result.status === 200) recordFixture('espn', pathAndQuery, result);
+    res.status(result.status).send(result.body);
+  } catch (err) {
+    console.error('[ESPN Proxy] Upstream request failed:', err.message);
+    res.status(err.status || 502).json({ error: err.message });
+  }
+});
+
+app.get('/espn-cache/stats', requireAppOrigin, (_req, res) => {
+  res.json({ ...cacheStats(), queued: upstreamQueueDepth() });
+});
+
+app.delete('/espn-cache', requireAppOrigin, (_req, res) => {
+  clearEspnCache();
+  res.status(204).end();
+});
 
-    // Remove our custom headers so ESPN doesn’t see them
-    proxyReq.removeHeader('x-swid');
-    proxyReq.removeHeader('x-espn-s2');
-  },
+// MLB Stats API passthrough; finished games are cached on disk permanently
+app.get('/mlb/*', replayFixtures('mlb'), async (req, res) => {
+  const pathAndQuery = req.originalUrl.replace(/^\/mlb/, '');
+  try {
+    const result = await cachedMlbFetch(pathAndQuery);
+    res.set({
+      'Content-Type': result.contentType,
+      'X-Cache': result.cacheStatus,
+      'X-Cache-Age': String(Math.round((Date.now() - result.storedAt) / 1000)),
+      'X-Upstream-Time': String(result.upstreamMs),
+    });
+    if (fixtureModeFor(req) === 'record' && result.status === 200) recordFixture('mlb', pathAndQuery, result);
+    res.status(result.status).send(result.body);
+  } catch (err) {
+    console.error('[MLB Proxy] Upstream request failed:', err.message);
+    res.status(502).json({ error: err.message });
+  }
 });
 
-app.use('/espn', espnProxy);
+// Free-form advisor questions, forwarded to the configured chat endpoint
+// with the server's key, so only the app (or a script on this machine) may ask
+app.post('/advisor/chat', requireLocalApp, async (req, res) => {
+  const { question, context, promptVersion } = req.body || {};
+  try {
+    res.json(await askAdvisor({ question, context, promptVersion }));
+  } catch (err) {
+    console.error('[Advisor] Request failed:', err.message);
+    res.status(err.status || 502).json({ error: err.message });
+  }
+});
+
+// Store league credentials for the background snapshot job
+app.put('/credentials', requireAppOrigin, async (req, res) => {
+  try {
+    await saveCredentials(req.body || {});
+    res.status(204).end();
+  } catch (err) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
+// Authoritative daily roster history captured by the scheduler
+app.get('/snapshots', requireAppOrigin, async (_req, res) => {
+  res.json({ dates: await listSnapshotDates(), gaps: snapshotGaps() });
+});
+
+app.get('/snapshots/:date', requireAppOrigin, async (req, res) => {
+  const { date } = req.params;
+  if (!isValidDate(date)) return res.status(400).json({ error: 'Date must be YYYY-MM-DD' });
+  const snapshot = await loadSnapshot(date);
+  if (!snapshot) return res.status(404).json({ error: `No snapshot for ${date}` });
+  res.json(snapshot);
+});
+
+app.post('/snapshots/capture', requireAppOrigin, async (_req, res) => {
+  try {
+    const snapshot = await captureSnapshot({ force: true });
+    if (!snapshot) return res.status(409).json({ error: 'No league credentials stored' });
+    res.json(snapshot);
+  } catch (err) {
+    res.status(502).json({ error: err.message });
+  }
+});
 
 app.listen(PORT, () => {
   console.log(`Proxy running on port ${PORT}`);
+  console.log(`[Proxy] Accepting browser requests from ${listAllowedOrigins().join(', ')}`);
+  startSnapshotScheduler();
 }); 
\ No newline at end of file
@@ -0,0 +1,36 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Credentials used by background jobs (no browser request to borrow cookies from).
+// Environment variables win; otherwise we fall back to data/credentials.json,
+// which the app writes through PUT /credentials.
+const baseDir = path.dirname(fileURLToPath(import.meta.url));
+const CREDENTIALS_FILE = process.env.CREDENTIALS_FILE || path.join(baseDir, 'data', 'credentials.json');
+
+export async function loadCredentials() {
+  if (process.env.LEAGUE_ID && process.env.SWID && process.env.ESPN_S2) {
+    return {
+      leagueId: process.env.LEAGUE_ID,
+      swid: process.env.SWID,
+      espnS2: process.env.ESPN_S2,
+      season: Number(process.env.SEASON_ID) || new Date().getFullYear(),
+    };
+  }
+  try {
+    const stored = JSON.parse(await fs.readFile(CREDENTIALS_FILE, 'utf8'));
+    if (stored.leagueId && stored.swid && stored.espnS2) {
+      return { season: new Date().getFullYear(), ...stored };
+    }
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.warn('[Credentials] Could not read credentials file:', err.message);
+  }
+  return null;
+}
+
+export async function saveCredentials({ leagueId, swid, espnS2, season }) {
+  if (!leagueId || !swid || !espnS2) throw new Error('leagueId, swid and espnS2 are required');
+  await fs.mkdir(path.dirname(CREDENTIALS_FILE), { recursive: true });
+  const payload = { leagueId: String(leagueId), swid, espnS2, season: Number(season) || new Date().getFullYear() };
+  await fs.writeFile(CREDENTIALS_FILE, JSON.stringify(payload, null, 2), { mode: 0o600 });
+}
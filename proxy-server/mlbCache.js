@@ -0,0 +1,155 @@
+import { createHash } from 'node:crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { todayET } from './easternTime.js';
+
+/*
+ * Read-through cache for the public MLB Stats API.
+ *
+ * Responses that can no longer change (boxscores of finished games, schedules
+ * and stat splits for fully completed days, past seasons) are written to disk
+ * and served forever. Everything else is held in memory for a short TTL.
+ */
+
+const MLB_ORIGIN = 'https://statsapi.mlb.com';
+const baseDir = path.dirname(fileURLToPath(import.meta.url));
+const MLB_CACHE_DIR = process.env.MLB_CACHE_DIR || path.join(baseDir, 'data', 'mlb');
+
+const LIVE_TTL_MS = Number(process.env.MLB_LIVE_TTL_MS) || 60 * 1000;
+const SEASON_SCHEDULE_TTL_MS = 6 * 60 * 60 * 1000; // rainouts get rescheduled mid-season
+const PEOPLE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const memory = new Map();   // pathAndQuery -> { status, contentType, body, storedAt, expiresAt }
+const inFlight = new Map(); // pathAndQuery -> Promise<result>
+
+function fileFor(pathAndQuery) {
+  const hash = createHash('sha1').update(pathAndQuery).digest('hex');
+  return path.join(MLB_CACHE_DIR, `${hash}.json`);
+}
+
+async function readDisk(pathAndQuery) {
+  try {
+    return JSON.parse(await fs.readFile(fileFor(pathAndQuery), 'utf8'));
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+async function writeDisk(pathAndQuery, entry) {
+  await fs.mkdir(MLB_CACHE_DIR, { recursive: true });
+  const target = fileFor(pathAndQuery);
+  const tmp = `${target}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify({ url: pathAndQuery, ...entry }));
+  await fs.rename(tmp, target);
+}
+
+// Postponed and suspended games keep their gamePk and are played later
+function isGameFinal(game) {
+  const status = game?.status || {};
+  return status.abstractGameState === 'Final' && !/Postponed|Suspended/i.test(status.detailedState || '');
+}
+
+function allGamesFinal(schedule) {
+  const games = (schedule?.dates || []).flatMap(d => d.games || []);
+  return games.every(isGameFinal);
+}
+
+// A day's data is settled once the day is over in ET and every game on it is final
+async function isDateFinal(date) {
+  if (!date || date >= todayET()) return false;
+  const { status, body } = await cachedMlbFetch(`/api/v1/schedule?sportId=1&date=${date}&gameTypes=R`);
+  return status === 200 && allGamesFinal(JSON.parse(body));
+}
+
+async function isGamePkFinal(gamePk) {
+  const { status, body } = await cachedMlbFetch(`/api/v1/schedule?sportId=1&gamePks=${gamePk}`);
+  if (status !== 200) return false;
+  const games = (JSON.parse(body).dates || []).flatMap(d => d.games || []);
+  return games.length > 0 && games.every(isGameFinal);
+}
+
+/**
+ * Decide how long a successful response may be reused.
+ * Returns { permanent: true } or { ttlMs }.
+ */
+async function cachePolicy(pathname, searchParams, body) {
+  const boxscore = pathname.match(/^\/api\/v1(?:\.1)?\/game\/(\d+)\/(boxscore|linescore|feed\/live)$/);
+  if (boxscore) {
+    return (await isGamePkFinal(boxscore[1])) ? { permanent: true } : { ttlMs: LIVE_TTL_MS };
+  }
+
+  const date = searchParams.get('date');
+  if (pathname === '/api/v1/schedule') {
+    if (date) {
+      return date < todayET() && allGamesFinal(JSON.parse(body)) ? { permanent: true } : { ttlMs: LIVE_TTL_MS };
+    }
+    const season = Number(searchParams.get('season'));
+    if (season && season < Number(todayET().slice(0, 4))) return { permanent: true };
+    return { ttlMs: SEASON_SCHEDULE_TTL_MS };
+  }
+
+  if (pathname === '/api/v1/people') return { ttlMs: PEOPLE_TTL_MS };
+
+  // Per-day stat splits (bulk game stats, player game logs)
+  if (date) {
+    return (await isDateFinal(date)) ? { permanent: true } : { ttlMs: LIVE_TTL_MS };
+  }
+  return { ttlMs: LIVE_TTL_MS };
+}
+
+async function fetchAndStore(pathAndQuery) {
+  const started = Date.now();
+  const res = await fetch(`${MLB_ORIGIN}${pathAndQuery}`, { headers: { Accept: 'application/json' } });
+  const entry = {
+    status: res.status,
+    contentType: res.headers.get('content-type') || 'application/json',
+    body: await res.text(),
+    storedAt: Date.now(),
+  };
+  const upstreamMs = Date.now() - started;
+  if (entry.status !== 200) return { ...entry, upstreamMs, cacheStatus: 'MISS' };
+
+  const url = new URL(pathAndQuery, MLB_ORIGIN);
+  let policy = { ttlMs: LIVE_TTL_MS };
+  try {
+    policy = await cachePolicy(url.pathname, url.searchParams, entry.body);
+  } catch (err) {
+    console.warn('[MLB Cache] Could not classify response, caching briefly:', err.message);
+  }
+
+  if (policy.permanent) {
+    await writeDisk(pathAndQuery, entry).catch(err => console.error('[MLB Cache] Disk write failed:', err.message));
+  } else {
+    memory.set(pathAndQuery, { ...entry, expiresAt: entry.storedAt + policy.ttlMs });
+  }
+  return { ...entry, upstreamMs, cacheStatus: 'MISS' };
+}
+
+/**
+ * Serve `/api/v1/...?...` from disk, memory, an identical in-flight request,
+ * or statsapi.mlb.com. Resolves with the response plus how it was served.
+ */
+export async function cachedMlbFetch(pathAndQuery) {
+  const now = Date.now();
+  const hit = memory.get(pathAndQuery);
+  if (hit && hit.expiresAt > now) {
+    return { ...hit, cacheStatus: 'HIT', upstreamMs: 0 };
+  }
+
+  const pending = inFlight.get(pathAndQuery);
+  if (pending) return { ...(await pending), cacheStatus: 'COALESCED' };
+
+  const request = (async () => {
+    const stored = await readDisk(pathAndQuery);
+    if (stored) return { ...stored, cacheStatus: 'HIT', upstreamMs: 0 };
+    return fetchAndStore(pathAndQuery);
+  })();
+  inFlight.set(pathAndQuery, request);
+  try {
+    return await request;
+  } finally {
+    inFlight.delete(pathAndQuery);
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Token-bucket rate limiter with a FIFO queue. `schedule(fn)` resolves with
+ * fn's result once a token is available, along with how long it waited.
+ */
+export class RateLimiter {
+  constructor({ ratePerSec, burst, maxQueue }) {
+    this.ratePerSec = ratePerSec;
+    this.burst = burst;
+    this.maxQueue = maxQueue;
+    this.tokens = burst;
+    this.lastRefill = Date.now();
+    this.queue = [];
+    this.timer = null;
+  }
+
+  refill() {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.burst, this.tokens + elapsed * this.ratePerSec);
+    this.lastRefill = now;
+  }
+
+  drain() {
+    this.timer = null;
+    this.refill();
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      const job = this.queue.shift();
+      job.start();
+    }
+    if (this.queue.length > 0) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.ratePerSec) * 1000);
+      this.timer = setTimeout(() => this.drain(), waitMs);
+    }
+  }
+
+  get pending() {
+    return this.queue.length;
+  }
+
+  schedule(fn) {
+    if (this.queue.length >= this.maxQueue) {
+      const err = new Error('Upstream request queue is full');
+      err.status = 503;
+      return Promise.reject(err);
+    }
+    const enqueuedAt = Date.now();
+    return new Promise((resolve, reject) => {
+      this.queue.push({
+        start: () => {
+          const queueMs = Date.now() - enqueuedAt;
+          Promise.resolve().then(fn).then(result => resolve({ result, queueMs }), reject);
+        },
+      });
+      if (!this.timer) this.drain();
+    });
+  }
+}
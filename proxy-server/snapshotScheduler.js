@@ -0,0 +1,155 @@
+import { addDaysET, daysBetweenET, hourET, todayET } from './easternTime.js';
+import { espnFetch } from './espnClient.js';
+import { loadCredentials } from './leagueCredentials.js';
+import { listSnapshotDates, loadSnapshot, saveSnapshot } from './snapshotStore.js';
+
+// Capture once per scoring day, late enough that the day's lineups are final.
+// Hours are in America/New_York, which is what ESPN uses for baseball lock times.
+const CAPTURE_HOUR_ET = Number(process.env.SNAPSHOT_HOUR_ET ?? 23);
+const CHECK_INTERVAL_MS = Number(process.env.SNAPSHOT_CHECK_MS) || 15 * 60 * 1000;
+// Days missed while the proxy was down are rebuilt from ESPN's roster as of
+// that scoring period, at most this far back
+const BACKFILL_MAX_DAYS = Number(process.env.SNAPSHOT_BACKFILL_DAYS) || 30;
+
+// Same hash as the client (src/store/rosterHistory.ts) so snapshots compare equal
+function simpleHash(str) {
+  let h = 0;
+  for (let i = 0; i < str.length; i++) h = (h << 5) - h + str.charCodeAt(i);
+  return h >>> 0;
+}
+
+// Days the last backfill could not recover, reported by GET /snapshots
+let knownGaps = [];
+
+export function snapshotGaps() {
+  return knownGaps;
+}
+
+// Goes through the shared rate limiter but deliberately not the response cache:
+// the snapshot must reflect ESPN at capture time. Without a scoringPeriodId
+// ESPN answers with today's rosters.
+async function fetchLeagueRosters(creds, scoringPeriodId) {
+  let path = `/apis/v3/games/flb/seasons/${creds.season}/segments/0/leagues/${creds.leagueId}?view=mTeam&view=mRoster`;
+  if (scoringPeriodId) path += `&scoringPeriodId=${scoringPeriodId}`;
+  const res = await espnFetch(path, { swid: creds.swid, espnS2: creds.espnS2 });
+  if (res.status !== 200) throw new Error(`ESPN responded ${res.status}`);
+  return JSON.parse(res.body);
+}
+
+function teamsFrom(data) {
+  return (data.teams || []).map(team => ({
+    teamId: team.id,
+    players: (team.roster?.entries || []).map(entry => ({
+      id: entry.playerPoolEntry?.player?.id ?? entry.playerId,
+      slot: entry.lineupSlotId,
+      // Same fallback as the client roster mapping so hashes agree
+      name: entry.playerPoolEntry?.player?.fullName || 'Unknown Player',
+    })),
+  }));
+}
+
+function buildSnapshot(date, season, scoringPeriodId, teams) {
+  return {
+    snapshotDate: date,
+    season,
+    scoringPeriodId,
+    createdAt: Date.now(),
+    hash: simpleHash(JSON.stringify(teams)),
+    source: 'server',
+    teams,
+  };
+}
+
+/**
+ * Capture every team's roster for today's scoring day and write it to the
+ * snapshot store. Returns the snapshot, or null when no credentials are stored.
+ */
+export async function captureSnapshot({ force = false } = {}) {
+  const creds = await loadCredentials();
+  if (!creds) {
+    console.warn('[SnapshotScheduler] No stored league credentials; skipping capture');
+    return null;
+  }
+
+  const date = todayET();
+  const data = await fetchLeagueRosters(creds);
+  const snapshot = buildSnapshot(date, creds.season, data.scoringPeriodId, teamsFrom(data));
+  const existing = await loadSnapshot(date);
+  if (!force && existing && existing.hash === snapshot.hash) {
+    console.log(`[SnapshotScheduler] Snapshot unchanged for ${date}`);
+    return existing;
+  }
+
+  await saveSnapshot(snapshot);
+  console.log(`[SnapshotScheduler] Saved snapshot for ${date} (scoringPeriodId ${data.scoringPeriodId}, ${snapshot.teams.length} teams)`);
+  return snapshot;
+}
+
+/**
+ * Fill in the scoring days between the last stored snapshot and today,
+ * e.g. after the proxy was down, from ESPN's roster for each day's scoring
+ * period (one period per day, counted back from today's). Days further back
+ * than SNAPSHOT_BACKFILL_DAYS, or whose fetch fails, are returned as gaps.
+ */
+export async function backfillSnapshots() {
+  const creds = await loadCredentials();
+  if (!creds) return { filled: [], gaps: [] };
+  const dates = await listSnapshotDates();
+  const last = dates[dates.length - 1];
+  const today = todayET();
+  // Nothing captured yet means there's no known start to fill from
+  if (!last || last >= addDaysET(today, -1)) return { filled: [], gaps: [] };
+
+  const missing = [];
+  for (let date = addDaysET(last, 1); date < today; date = addDaysET(date, 1)) missing.push(date);
+  const gaps = missing.filter(date => daysBetweenET(date, today) > BACKFILL_MAX_DAYS);
+  const filled = [];
+
+  const { scoringPeriodId: todayPeriod } = await fetchLeagueRosters(creds);
+  for (const date of missing.filter(d => !gaps.includes(d))) {
+    const scoringPeriodId = todayPeriod - daysBetweenET(date, today);
+    if (scoringPeriodId < 1) continue; // before the season started
+    try {
+      const data = await fetchLeagueRosters(creds, scoringPeriodId);
+      await saveSnapshot(buildSnapshot(date, creds.season, scoringPeriodId, teamsFrom(data)));
+      filled.push(date);
+    } catch (err) {
+      console.error(`[SnapshotScheduler] Backfill failed for ${date}:`, err.message);
+      gaps.push(date);
+    }
+  }
+
+  if (filled.length) console.log(`[SnapshotScheduler] Backfilled ${filled.length} missed day(s): ${filled[0]} to ${filled[filled.length - 1]}`);
+  knownGaps = gaps.sort();
+  if (gaps.length) console.warn(`[SnapshotScheduler] No snapshot for ${gaps.length} day(s): ${gaps.join(', ')}`);
+  return { filled, gaps };
+}
+
+let ticking = false;
+
+async function tick() {
+  if (ticking) return;
+  ticking = true;
+  try {
+    // A capture missed while the proxy was asleep or offline is filled in on the next check
+    await backfillSnapshots().catch(err => console.error('[SnapshotScheduler] Backfill failed:', err.message));
+    if (hourET() < CAPTURE_HOUR_ET) return;
+    if (await loadSnapshot(todayET())) return;
+    await captureSnapshot();
+  } catch (err) {
+    console.error('[SnapshotScheduler] Capture failed:', err.message);
+  } finally {
+    ticking = false;
+  }
+}
+
+export function startSnapshotScheduler() {
+  if (process.env.SNAPSHOT_SCHEDULER === 'off') {
+    console.log('[SnapshotScheduler] Disabled via SNAPSHOT_SCHEDULER=off');
+    return () => {};
+  }
+  const timer = setInterval(tick, CHECK_INTERVAL_MS);
+  tick();
+  console.log(`[SnapshotScheduler] Capturing daily at ${CAPTURE_HOUR_ET}:00 ET (checking every ${Math.round(CHECK_INTERVAL_MS / 60000)} min)`);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,50 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Snapshots live as one JSON file per scoring day: data/snapshots/YYYY-MM-DD.json
+const baseDir = path.dirname(fileURLToPath(import.meta.url));
+const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || path.join(baseDir, 'data', 'snapshots');
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidDate(date) {
+  return DATE_RE.test(date);
+}
+
+function fileFor(date) {
+  if (!isValidDate(date)) throw new Error(`Invalid snapshot date: ${date}`);
+  return path.join(SNAPSHOT_DIR, `${date}.json`);
+}
+
+export async function loadSnapshot(date) {
+  try {
+    return JSON.parse(await fs.readFile(fileFor(date), 'utf8'));
+  } catch (err) {
+    if (err.code === 'ENOENT') return null;
+    throw err;
+  }
+}
+
+export async function saveSnapshot(snapshot) {
+  await fs.mkdir(SNAPSHOT_DIR, { recursive: true });
+  const target = fileFor(snapshot.snapshotDate);
+  // Write to a temp file first so a crash never leaves a half-written snapshot
+  const tmp = `${target}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(snapshot));
+  await fs.rename(tmp, target);
+}
+
+export async function listSnapshotDates() {
+  try {
+    const files = await fs.readdir(SNAPSHOT_DIR);
+    return files
+      .filter(f => f.endsWith('.json'))
+      .map(f => f.slice(0, -5))
+      .filter(isValidDate)
+      .sort();
+  } catch (err) {
+    if (err.code === 'ENOENT') return [];
+    throw err;
+  }
+}
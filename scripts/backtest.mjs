@@ -0,0 +1,67 @@
+/*
+ * Projection backtest from the command line.
+ *
+ *   npm run backtest                      bundled test fixtures, completed weeks
+ *   npm run backtest -- --weeks 3,4       particular matchup periods
+ *   npm run backtest -- --proxy           the running proxy's recorded fixtures
+ *   npm run backtest -- --league 12345    league id (with --proxy)
+ *   npm run backtest -- --json            the raw report instead of text
+ *   npm run backtest -- --verbose         keep the services' logging
+ *
+ * The app's services are loaded through Vite, so they see the same module
+ * graph and import.meta.env as in the browser.
+ */
+import { createServer } from 'vite';
+
+const args = process.argv.slice(2);
+const flag = name => args.includes(`--${name}`);
+const option = name => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+const vite = await createServer({
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+  logLevel: 'error',
+  optimizeDeps: { disabled: true },
+});
+
+const quiet = () => {};
+const print = console.log.bind(console);
+if (!flag('verbose')) {
+  console.log = quiet;
+  console.warn = quiet;
+  console.error = quiet;
+}
+
+try {
+  const { fixtureFetch, MemoryStorage } = await vite.ssrLoadModule('/src/__tests__/fixtures/index.ts');
+
+  // Set up before the services load: fixture mode is read at import time
+  const storage = new MemoryStorage();
+  storage.setItem('fixtureMode', 'replay');
+  storage.setItem('leagueId', option('league') ?? '24414');
+  globalThis.localStorage = storage;
+  if (!flag('proxy')) globalThis.fetch = fixtureFetch;
+
+  const { dataService } = await vite.ssrLoadModule('/src/services/dataService.ts');
+  const { projectionBacktest, formatBacktestReport } = await vite.ssrLoadModule('/src/services/projectionBacktest.ts');
+
+  let weeks = option('weeks')?.split(',').map(Number).filter(w => w > 0);
+  if (!weeks?.length) {
+    const now = await dataService.getReferenceDate();
+    const weekMeta = await dataService.getWeekMetaMap();
+    weeks = Object.keys(weekMeta).map(Number).filter(w => weekMeta[w].endISO && new Date(weekMeta[w].endISO) < now);
+    if (weeks.length === 0) {
+      // The bundled fixtures stop two days into week 1
+      weeks = [await dataService.getCurrentWeek()];
+      print(`No completed weeks; replaying week ${weeks[0]} with only the days played so far.\n`);
+    }
+  }
+
+  const report = await projectionBacktest.run(weeks);
+  print(flag('json') ? JSON.stringify(report, null, 2) : formatBacktestReport(report));
+} finally {
+  await vite.close();
+}
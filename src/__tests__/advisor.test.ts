@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AdvisorInput, advisorService, buildRecommendations, CategoryState, describeMargin } from '../services/advisorService';
+import { DEFAULT_CATEGORIES } from '../services/categoryRegistry';
+
+const byKey = (key: string) => DEFAULT_CATEGORIES.find(c => c.key === key)!;
+
+function state(key: string, mine: number, theirs: number, win?: number): CategoryState {
+  return { category: byKey(key), mine, theirs, win };
+}
+
+const baseInput = (overrides: Partial<AdvisorInput> = {}): AdvisorInput => ({
+  today: '2025-04-08',
+  format: 'H2H_CATEGORY',
+  categories: [],
+  audits: [],
+  pitchingLimits: null,
+  streamCandidates: [],
+  ...overrides,
+});
+
+describe('describeMargin', () => {
+  it('reads lower-is-better categories from our side', () => {
+    expect(describeMargin(state('whip', 1.15, 1.2))).toBe('lead WHIP by 0.05');
+    expect(describeMargin(state('strikeouts', 30, 36))).toBe('trail K by 6');
+    expect(describeMargin(state('stolenBases', 2, 2))).toBe('are tied in SB');
+  });
+});
+
+describe('buildRecommendations', () => {
+  it('ranks lineup fixes first and flags a stream that risks a ratio lead', () => {
+    const recs = buildRecommendations(baseInput({
+      categories: [state('strikeouts', 30, 32, 0.45), state('wins', 3, 1, 0.9), state('whip', 1.15, 1.2, 0.62)],
+      audits: [{
+        date: '2025-04-09',
+        scoringPeriodId: 10,
+        alerts: [
+          { kind: 'noGame', date: '2025-04-09', playerId: 1, name: 'Idle Bat', lineupSlotId: 5, message: 'Idle Bat (OF) has no game' },
+          { kind: 'benchedWithGame', date: '2025-04-09', playerId: 2, name: 'Bench Bat', lineupSlotId: 16, message: 'Bench Bat has a game', replacesPlayerId: 1 },
+        ],
+      }],
+      streamCandidates: [
+        { espnPlayerId: 7, name: 'Low Value', teamAbbrev: 'MIA', value: 0.1, start: { gamePk: 1, date: '2025-04-10', opponent: 'NYM', home: true, park: 'loanDepot park' } },
+        { espnPlayerId: 8, name: 'Streamer', teamAbbrev: 'SEA', value: 0.4, start: { gamePk: 2, date: '2025-04-10', opponent: 'TEX', home: false, park: 'Globe Life Field' } },
+        { espnPlayerId: 9, name: 'Started Already', teamAbbrev: 'SEA', value: 0.9, start: { gamePk: 3, date: '2025-04-07', opponent: 'TEX', home: false, park: 'Globe Life Field' } },
+      ],
+    }));
+
+    expect(recs.map(r => r.kind)).toEqual(['startPlayer', 'swingCategories', 'streamPitcher', 'streamPitcher']);
+    expect(recs[0].title).toBe('Start Bench Bat over Idle Bat Wednesday');
+    expect(recs[0].source).toMatchObject({ tab: 'lineup', date: '2025-04-09', playerIds: [2, 1] });
+
+    const stream = recs[2];
+    expect(stream.title).toBe('Stream Streamer (SEA) Thursday');
+    expect(stream.risk).toBe('high');
+    expect(stream.reasons).toContain('You lead WHIP by 0.05 (62% to win); a rough start could flip it');
+    expect(stream.source).toMatchObject({ tab: 'planner', playerIds: [8] });
+  });
+
+  it('stops streaming at the starts cap and protects a ratio lead', () => {
+    const recs = buildRecommendations(baseInput({
+      categories: [state('strikeouts', 50, 30, 0.97), state('era', 3.1, 3.4, 0.66)],
+      pitchingLimits: {
+        teamId: 1, week: 2, limits: { gamesStarted: 7 }, startsUsed: 6, inningsUsed: 36,
+        upcomingStarts: [], unannouncedStarts: 1, projectedStarts: 7, projectedInnings: 41.5,
+        alerts: [{ kind: 'capReached', limit: 'gamesStarted', message: 'at the cap' }],
+      },
+      streamCandidates: [
+        { espnPlayerId: 8, name: 'Streamer', teamAbbrev: 'SEA', value: 0.4, start: { gamePk: 2, date: '2025-04-10', opponent: 'TEX', home: false, park: 'Globe Life Field' } },
+      ],
+    }));
+
+    expect(recs.map(r => r.id)).toEqual(['protect-ratios', 'swing-categories']);
+    expect(recs[0].title).toBe('Protect your ERA lead');
+  });
+});
+
+describe('AdvisorService', () => {
+  it('gives the same advice for the same league state', async () => {
+    const options = { opponentTeamId: 2, weeklyStats: { teamStats: {}, ledger: {} }, categories: DEFAULT_CATEGORIES, format: 'H2H_CATEGORY' as const };
+    const first = await advisorService.getAdvice(1, 1, options);
+    const second = await advisorService.getAdvice(1, 1, options);
+
+    expect(first.today).toBe('2025-04-02');
+    expect(second.recommendations).toEqual(first.recommendations);
+    expect(first.recommendations.every(r => r.reasons.length > 0 && r.source.label)).toBe(true);
+    // Past the captured schedule nobody has a game: one recommendation a day, not one per player
+    const idleDays = first.recommendations.filter(r => r.kind === 'idleStarter').map(r => r.source.date);
+    expect(idleDays).toEqual(['2025-04-02', '2025-04-03', '2025-04-04', '2025-04-05', '2025-04-06']);
+    // The captured league sends no settings, so each run goes without pitching caps
+    expect(first.recommendations.some(r => r.kind === 'wastedStart')).toBe(false);
+    expect(vi.mocked(console.error).mock.calls.map(([message]) => message)).toEqual([
+      '❌ API request failed: league-settings',
+      '❌ API request failed: league-settings',
+    ]);
+    vi.mocked(console.error).mockClear();
+  });
+});
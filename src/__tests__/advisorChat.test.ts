@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AdvisorBackend, advisorChatService, LeagueContext, parseCitations, proxyAdvisorBackend } from '../services/advisorChatService';
+import { DEFAULT_CATEGORIES } from '../services/categoryRegistry';
+
+const buildContext = () => advisorChatService.buildContext(1, 1, {
+  opponentTeamId: 2,
+  weeklyStats: { teamStats: {}, ledger: {} },
+  categories: DEFAULT_CATEGORIES,
+  format: 'H2H_CATEGORY',
+});
+
+describe('AdvisorChatService', () => {
+  it('builds the league context from both rosters and the category totals', async () => {
+    const context = await buildContext();
+
+    expect(context.today).toBe('2025-04-02');
+    expect(context.teams.map(t => [t.teamId, t.name, t.role])).toEqual([[1, 'Blue Crew', 'mine'], [2, 'Sunday Sluggers', 'opponent']]);
+    expect(context.teams[0].roster.find(p => p.playerId === 35002)).toMatchObject({ name: 'Vladimir Guerrero Jr.', slot: '1B', team: 'TOR' });
+    expect(context.categories.map(c => c.abbrev)).toEqual(DEFAULT_CATEGORIES.map(c => c.abbrev));
+  });
+
+  it('sends questions through the proxy and checks the cited players', async () => {
+    const context = await buildContext();
+    vi.mocked(fetch).mockImplementationOnce(async (input, init) => {
+      expect(String(input)).toMatch(/\/advisor\/chat$/);
+      expect(JSON.parse(String(init?.body))).toMatchObject({ question: 'Who should I drop?', context: { week: 1 } });
+      return new Response(JSON.stringify({
+        answer: 'Drop Salvador Perez [player:31097] before Bobby Witt Jr. [player:42403]; not Mystery Man [player:999].',
+        model: 'advisor-stub',
+        promptVersion: 'v1',
+      }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    });
+
+    const answer = await advisorChatService.ask('Who should I drop?', context);
+
+    expect(answer.citedPlayerIds).toEqual([31097, 42403]);
+    expect(answer.unknownPlayerIds).toEqual([999]);
+    expect(answer.promptVersion).toBe('v1');
+  });
+
+  it('takes another backend', async () => {
+    const context = await buildContext();
+    const local: AdvisorBackend = {
+      name: 'local',
+      ask: async (_question, ctx) => ({ answer: `Start ${ctx.teams[0].roster[0].name} [player:${ctx.teams[0].roster[0].playerId}]`, model: 'test', promptVersion: 'v1' }),
+    };
+    advisorChatService.setBackend(local);
+    try {
+      expect((await advisorChatService.ask('Who starts?', context)).citedPlayerIds).toEqual([35021]);
+    } finally {
+      advisorChatService.setBackend(proxyAdvisorBackend);
+    }
+  });
+});
+
+describe('parseCitations', () => {
+  it('lists each cited id once, in order', () => {
+    const context = { teams: [{ roster: [{ playerId: 1 }, { playerId: 2 }] }], freeAgentStarters: [{ playerId: 3 }] } as unknown as LeagueContext;
+    expect(parseCitations('[player:3] then [player:1], again [player:3], [player:7]', context)).toEqual({
+      citedPlayerIds: [3, 1],
+      unknownPlayerIds: [7],
+    });
+  });
+});
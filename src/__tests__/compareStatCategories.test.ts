@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMatchupScore, compareStatCategories } from '../utils/helpers';
+import { DEFAULT_CATEGORIES } from '../services/categoryRegistry';
+import { computeWeekStats, espnHistoricalRosterSource } from '../services/statsAggregator';
+import { statLineFromValuesByStat } from '../utils/scoringEngines';
+
+const golden = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+describe('compareStatCategories', () => {
+  it('scores the captured week 1 matchup', async () => {
+    const { teamStats } = await computeWeekStats(1, {
+      rosterSource: espnHistoricalRosterSource,
+      teamIds: [1, 2],
+    });
+
+    const results = compareStatCategories(teamStats[1], teamStats[2], DEFAULT_CATEGORIES);
+    const score = calculateMatchupScore(results);
+
+    // ERA and WHIP are lower-is-better
+    expect(results.era).toBe('team1');
+    expect(results.whip).toBe('team1');
+    await expect(golden({ results, score })).toMatchFileSnapshot('./golden/week1Categories.json');
+  });
+
+  it('treats values equal at display precision as ties', () => {
+    const results = compareStatCategories(
+      { battingAverage: 0.2504, era: 3.004, whip: 1.1, homeRuns: 4 },
+      { battingAverage: 0.2496, era: 3.001, whip: 1.2, homeRuns: 4 },
+      DEFAULT_CATEGORIES
+    );
+
+    expect(results.battingAverage).toBe('tie');
+    expect(results.era).toBe('tie');
+    expect(results.whip).toBe('team1');
+    expect(results.homeRuns).toBe('tie');
+  });
+
+  it('counts a missing stat as zero', () => {
+    const results = compareStatCategories({ runs: 3 }, {}, DEFAULT_CATEGORIES);
+
+    expect(results.runs).toBe('team1');
+    expect(results.saves).toBe('tie');
+  });
+});
+
+describe('statLineFromValuesByStat', () => {
+  it('reads ESPN innings pitched (stat 34) as outs', () => {
+    // 62 outs, 20 ER, 55 H + BB, 70 K
+    const line = statLineFromValuesByStat({ 34: 62, 45: 20, 47: 2.903, 48: 70, 41: 0.887 });
+
+    expect(line.inningsPitched).toBeCloseTo(20.667, 3);
+    expect(line.earnedRuns).toBe(20);
+    expect(line.strikeouts).toBe(70);
+    expect(line.era).toBe(2.903);
+  });
+});
@@ -0,0 +1,148 @@
+import leagueSpid1 from './espn/league-spid1.json';
+import leagueSpid2 from './espn/league-spid2.json';
+import espnSchedule from './espn/schedule.json';
+import matchupScores from './espn/matchup-scores.json';
+import leagueSettings from './espn/league-settings.json';
+import manifest from './manifest.json';
+import season2025 from './mlb/season-2025.json';
+import schedule0331 from './mlb/schedule-2025-03-31.json';
+import schedule0401 from './mlb/schedule-2025-04-01.json';
+import schedule0409 from './mlb/schedule-2025-04-09.json';
+import scheduleWeek1 from './mlb/schedule-2025-03-31_2025-04-06.json';
+import scheduleWeek2 from './mlb/schedule-2025-04-07_2025-04-13.json';
+import boxscore1001 from './mlb/boxscore-1001.json';
+import boxscore1002 from './mlb/boxscore-1002.json';
+import boxscore1003 from './mlb/boxscore-1003.json';
+import boxscore2003 from './mlb/boxscore-2003.json';
+import boxscore2004 from './mlb/boxscore-2004.json';
+import gameHitting0409 from './mlb/stats-game-2025-04-09-hitting.json';
+import gamePitching0409 from './mlb/stats-game-2025-04-09-pitching.json';
+import prospectTripleA from './mlb/people-690001-season-2025-11.json';
+import prospectDoubleA from './mlb/people-690001-season-2025-12.json';
+import veteranGameLog2024 from './mlb/people-690002-gameLog-2024.json';
+import freemanGameLog2024 from './mlb/people-518692-gameLog-2024.json';
+import searchTestNamesake from './mlb/people-search-test-namesake.json';
+import peopleHandedness from './mlb/people-handedness.json';
+
+/*
+ * Captured proxy traffic for a two-team league over the first two scoring
+ * days of 2025 (week 1 runs Mar 31 – Apr 6). Only boxscores were captured
+ * for MLB, so the bulk stats endpoint 404s (but for Apr 9, below) and the
+ * boxscore path is used.
+ * Rosters after scoring period 2 are unchanged, as are days without games.
+ * The Dodgers' week 1 and 2 schedules (a rainout, its makeup doubleheader,
+ * probable pitchers) are hand-written for the projection tests, as are
+ * the player stats for a prospect (690001), a veteran with only last
+ * season's game log (690002) and the end of Freeman's 2024 (518692);
+ * every other player has no lines. So is the Apr 9 doubleheader (2003 and
+ * 2004): its boxscores and the bulk per-game stats for the day, and a
+ * people search for "Test Namesake" that finds a Mariner and a Dodgers
+ * Triple-A player; every other search finds no one. /people knows the
+ * handedness of two made-up Luis Garcias (900051 and 900052) only.
+ * ESPN's week 1 matchup scores are hand-written too, in ESPN's units (IP
+ * as outs), with one run for team 2 that the boxscores don't explain.
+ * The captured league responses carry no settings; league-settings.json
+ * is a hand-written settings block with pitching caps (again IP as outs)
+ * that tests serve explicitly, so the other services keep their defaults.
+ */
+
+export { espnSchedule, leagueSettings };
+
+const ESPN_ROSTERS: Record<number, unknown> = { 1: leagueSpid1, 2: leagueSpid2 };
+const MLB_DAY_SCHEDULES: Record<string, unknown> = { '2025-03-31': schedule0331, '2025-04-01': schedule0401, '2025-04-09': schedule0409 };
+const MLB_RANGE_SCHEDULES: Record<string, unknown> = {
+  '2025-03-31_2025-04-06': scheduleWeek1,
+  '2025-04-07_2025-04-13': scheduleWeek2,
+};
+const MLB_BOXSCORES: Record<string, unknown> = {
+  '1001': boxscore1001, '1002': boxscore1002, '1003': boxscore1003, '2003': boxscore2003, '2004': boxscore2004,
+};
+// Bulk per-game stats (/stats?stats=game), keyed `${date}-${group}`
+const MLB_GAME_STATS: Record<string, unknown> = {
+  '2025-04-09-hitting': gameHitting0409,
+  '2025-04-09-pitching': gamePitching0409,
+};
+// Keyed `${personId}-${stats}-${season}`, plus `-${sportId}` for season totals
+const MLB_PLAYER_STATS: Record<string, unknown> = {
+  '690001-season-2025-11': prospectTripleA,
+  '690001-season-2025-12': prospectDoubleA,
+  '690002-gameLog-2024': veteranGameLog2024,
+  '518692-gameLog-2024': freemanGameLog2024,
+};
+// People search results, keyed by the names searched
+const MLB_PEOPLE_SEARCH: Record<string, unknown> = {
+  'Test Namesake': searchTestNamesake,
+};
+
+/** Browser-like localStorage for running the services under Node. */
+export class MemoryStorage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  key(i: number) { return [...this.items.keys()][i] ?? null; }
+  getItem(k: string) { return this.items.get(k) ?? null; }
+  setItem(k: string, v: string) { this.items.set(k, String(v)); }
+  removeItem(k: string) { this.items.delete(k); }
+  clear() { this.items.clear(); }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function notFound(): Response {
+  return new Response('Not captured', { status: 404 });
+}
+
+/** Serve a request from the fixtures; anything not captured is a 404, never the network. */
+export async function fixtureFetch(input: RequestInfo | URL): Promise<Response> {
+  const raw = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  const url = new URL(raw, 'http://localhost:3001');
+  const path = url.pathname;
+  const q = url.searchParams;
+
+  if (path === '/fixtures/manifest') return json(manifest);
+
+  if (path.startsWith('/espn/apis/v3/games/flb/seasons/2025/') && q.getAll('view').includes('mMatchupScore')) {
+    return json(matchupScores);
+  }
+
+  if (path.startsWith('/espn/apis/v3/games/flb/seasons/2025/')) {
+    const spid = Number(q.get('scoringPeriodId')) || 1;
+    return json(ESPN_ROSTERS[Math.min(spid, 2)]);
+  }
+
+  if (path === '/mlb/api/v1/schedule') {
+    if (q.get('season') === '2025') return json(season2025);
+    const date = q.get('date');
+    if (date) return json(MLB_DAY_SCHEDULES[date] ?? { dates: [] });
+    const range = `${q.get('startDate')}_${q.get('endDate')}`;
+    if (q.has('startDate')) return json(MLB_RANGE_SCHEDULES[range] ?? { dates: [] });
+  }
+
+  if (path === '/mlb/api/v1/stats' && q.get('stats') === 'game') {
+    const stats = MLB_GAME_STATS[`${q.get('date')}-${q.get('group')}`];
+    if (stats) return json(stats);
+  }
+
+  const boxscore = path.match(/^\/mlb\/api\/v1\/game\/(\d+)\/boxscore$/);
+  if (boxscore && MLB_BOXSCORES[boxscore[1]]) return json(MLB_BOXSCORES[boxscore[1]]);
+
+  if (path === '/mlb/api/v1/people/search') {
+    return json(MLB_PEOPLE_SEARCH[q.get('names') ?? ''] ?? { people: [] });
+  }
+
+  if (path === '/mlb/api/v1/people') {
+    const ids = (q.get('personIds') ?? '').split(',').map(Number);
+    return json({ people: peopleHandedness.people.filter(p => ids.includes(p.id)) });
+  }
+
+  const person = path.match(/^\/mlb\/api\/v1\/people\/(\d+)\/stats$/);
+  if (person) {
+    const type = q.get('stats');
+    const key = `${person[1]}-${type}-${q.get('season')}${type === 'season' ? `-${q.get('sportId')}` : ''}`;
+    // MLB answers a player without a line that season (or at that level) with no stats, not a 404
+    return json(MLB_PLAYER_STATS[key] ?? { stats: [] });
+  }
+
+  return notFound();
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { auditLineup, lineupAuditService } from '../services/lineupAudit';
+import { BENCH_SLOT_ID } from '../services/dataService';
+import { ScheduledGame } from '../services/mlbApiService';
+
+const game = (away: string, home: string): ScheduledGame => ({
+  gamePk: 1, date: '2025-04-08', gameNumber: 1, status: 'scheduled',
+  home: { teamAbbrev: home }, away: { teamAbbrev: away },
+});
+
+describe('auditLineup', () => {
+  it('flags injured starters and suggests one bench player per open slot', () => {
+    const roster = [
+      { playerId: 1, name: 'Hurt Starter', team: 'NYY', lineupSlotId: 5, status: 'TEN_DAY_DL', eligibleSlots: [5, 12] },
+      { playerId: 2, name: 'Bench Bat', team: 'BOS', lineupSlotId: BENCH_SLOT_ID, status: 'ACTIVE', eligibleSlots: [5, 12] },
+      { playerId: 3, name: 'Hurt Bench', team: 'BOS', lineupSlotId: BENCH_SLOT_ID, status: 'OUT', eligibleSlots: [5] },
+      { playerId: 4, name: 'Day To Day', team: 'NYY', lineupSlotId: 12, status: 'DAY_TO_DAY', eligibleSlots: [12] },
+    ];
+
+    const alerts = auditLineup(roster, [game('BOS', 'NYY')], '2025-04-08');
+
+    expect(alerts.map(a => [a.kind, a.playerId, a.replacesPlayerId])).toEqual([
+      ['injuredStarter', 1, undefined],
+      ['benchedWithGame', 2, 1],
+    ]);
+  });
+});
+
+describe('LineupAuditService', () => {
+  it('checks a day against the MLB schedule', async () => {
+    // Mar 31: the Dodgers and Royals play; Toronto and Washington are off
+    const audit = await lineupAuditService.auditDay(1, 1, 0);
+
+    expect(audit?.date).toBe('2025-03-31');
+    expect(audit?.alerts.map(a => [a.kind, a.name])).toEqual([
+      ['noGame', 'Vladimir Guerrero Jr.'],
+      ['noGame', 'Luis Garcia Jr.'],
+      ['benchedWithGame', 'Salvador Perez'],
+    ]);
+  });
+});
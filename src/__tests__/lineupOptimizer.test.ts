@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { categoryWeights, LineupCandidate, optimizeDayLineup } from '../services/lineupOptimizer';
+import { BENCH_SLOT_ID, IL_SLOT_ID } from '../services/dataService';
+import { DEFAULT_CATEGORIES } from '../services/categoryRegistry';
+import { solveAssignment } from '../utils/assignment';
+import { createRng } from '../utils/random';
+
+const C = 0, FIRST_BASE = 1, UTIL = 12;
+
+function candidate(playerId: number, lineupSlotId: number, eligibleSlots: number[], value: number): LineupCandidate {
+  return { playerId, name: `Player ${playerId}`, lineupSlotId, eligibleSlots, value, hasGame: value > 0 };
+}
+
+function bruteForceMin(cost: number[][]): number {
+  const rows = cost.length;
+  const best = (row: number, used: Set<number>): number => {
+    if (row === rows) return 0;
+    let min = Infinity;
+    for (let j = 0; j < cost[0].length; j++) {
+      if (used.has(j)) continue;
+      used.add(j);
+      min = Math.min(min, cost[row][j] + best(row + 1, used));
+      used.delete(j);
+    }
+    return min;
+  };
+  return best(0, new Set());
+}
+
+describe('solveAssignment', () => {
+  it('finds the cheapest assignment', () => {
+    const rng = createRng(3);
+    for (let trial = 0; trial < 20; trial++) {
+      const cost = Array.from({ length: 4 }, () => Array.from({ length: 6 }, () => Math.round(rng() * 20) - 10));
+      const cols = solveAssignment(cost);
+      expect(new Set(cols).size).toBe(4);
+      expect(cols.reduce((s, col, row) => s + cost[row][col], 0)).toBe(bruteForceMin(cost));
+    }
+  });
+});
+
+describe('optimizeDayLineup', () => {
+  it('starts the best eligible players and benches the idle one', () => {
+    const result = optimizeDayLineup([
+      candidate(1, BENCH_SLOT_ID, [C, UTIL], 0.5),
+      candidate(2, FIRST_BASE, [FIRST_BASE, UTIL], 0.2),
+      candidate(3, UTIL, [FIRST_BASE, UTIL], 0.4),
+      candidate(4, C, [C, UTIL], 0),
+      candidate(5, IL_SLOT_ID, [C, UTIL], 0.9),
+    ], { [C]: 1, [FIRST_BASE]: 1, [UTIL]: 1 });
+
+    expect(result.recommended).toEqual({ 1: C, 2: FIRST_BASE, 3: UTIL, 4: BENCH_SLOT_ID, 5: IL_SLOT_ID });
+    expect(result.moves.map(m => [m.playerId, m.fromSlotId, m.toSlotId])).toEqual([
+      [1, BENCH_SLOT_ID, C],
+      [4, C, BENCH_SLOT_ID],
+    ]);
+    expect(result.recommendedValue - result.currentValue).toBeCloseTo(0.5, 9);
+  });
+
+  it('leaves the lineup alone when nobody plays', () => {
+    const result = optimizeDayLineup([
+      candidate(1, BENCH_SLOT_ID, [C, UTIL], 0),
+      candidate(2, C, [C, UTIL], 0),
+      candidate(3, UTIL, [FIRST_BASE, UTIL], 0),
+    ], { [C]: 1, [FIRST_BASE]: 1, [UTIL]: 1 });
+
+    expect(result.moves).toEqual([]);
+  });
+});
+
+describe('categoryWeights', () => {
+  it('weights close categories over decided ones', () => {
+    const weights = categoryWeights(DEFAULT_CATEGORIES, {
+      simulations: 100,
+      categories: {
+        runs: { win: 0.5, tie: 0, loss: 0.5 },
+        homeRuns: { win: 1, tie: 0, loss: 0 },
+      },
+      matchup: { win: 0.5, tie: 0, loss: 0.5 },
+      expectedScore: { team1: 5, team2: 5 },
+    });
+
+    expect(weights.runs).toBe(1);
+    expect(weights.homeRuns).toBe(0.1);
+    // Not simulated: full weight
+    expect(weights.saves).toBe(1);
+  });
+});
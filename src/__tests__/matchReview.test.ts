@@ -0,0 +1,47 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { matchReviewService } from '../services/matchReviewService';
+import { buildStatLine, emptyComponents } from '../services/categoryRegistry';
+import { playerCrosswalk } from '../store/playerCrosswalk';
+import { StatLedgerEntry } from '../types/fantasy';
+
+const entry = (espnPlayerId: number, playerName: string, mlbPlayerId: number | undefined, matchConfidence: number, matchReason: string): StatLedgerEntry => ({
+  teamId: 1,
+  date: '2025-03-31',
+  espnPlayerId,
+  playerName,
+  lineupSlotId: 12,
+  mlbPlayerId,
+  stats: buildStatLine(emptyComponents()),
+  matchConfidence,
+  matchReason,
+  counted: matchConfidence >= 0.5,
+});
+
+describe('MatchReviewService', () => {
+  beforeAll(async () => {
+    await playerCrosswalk.ready();
+    await playerCrosswalk.record([
+      { espnPlayerId: 990031, mlbPlayerId: 900031, fullName: 'Search Guess', confidence: 0.6, method: 'search' },
+      { espnPlayerId: 990032, mlbPlayerId: 900032, fullName: 'Confirmed Bench', confidence: 1, method: 'manual' },
+      { espnPlayerId: 990033, mlbPlayerId: 900033, fullName: 'Weak Import', confidence: 0.7, method: 'import' },
+      { espnPlayerId: 990034, mlbPlayerId: 900034, fullName: 'Clear Match', confidence: 0.95, method: 'matcher' },
+    ]);
+  });
+
+  it('queues name-search guesses and weak crosswalk entries, not settled ones', async () => {
+    const ledger = [
+      // Matched today, but below what the crosswalk keeps, so the guess stays
+      entry(990031, 'Search Guess', 900031, 0.85, 'Exact name match'),
+      entry(990032, 'Confirmed Bench', undefined, 1, 'Crosswalk (manual): no MLB line today'),
+      entry(990033, 'Weak Import', 900033, 0.7, 'Crosswalk (import)'),
+      entry(990034, 'Clear Match', 900034, 0.95, 'Crosswalk (matcher)'),
+    ];
+
+    const queue = await matchReviewService.getReviewQueue(1, { ledger: { 1: ledger } });
+
+    expect(queue.map(i => [i.playerName, i.currentReason])).toEqual([
+      ['Weak Import', 'Crosswalk (import)'],
+      ['Search Guess', 'Exact name match'],
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { simulateMatchup, SimulationSide } from '../services/matchupSimulator';
+import { DEFAULT_CATEGORIES, emptyComponents, StatComponents } from '../services/categoryRegistry';
+import { getScoringEngine } from '../utils/scoringEngines';
+import { createRng, poisson } from '../utils/random';
+import { computeWeekStats, espnHistoricalRosterSource } from '../services/statsAggregator';
+
+function hitter(atBats: number, hits: number, homeRuns: number): { components: StatComponents } {
+  return { components: { ...emptyComponents(), atBats, plateAppearances: atBats + 2, hits, homeRuns, runs: hits / 2, rbis: hits / 2 } };
+}
+
+describe('simulateMatchup', () => {
+  it('is certain once nothing is left to play', async () => {
+    const { teamStats } = await computeWeekStats(1, {
+      rosterSource: espnHistoricalRosterSource,
+      teamIds: [1, 2],
+    });
+    const team1: SimulationSide = { actual: teamStats[1].components, players: [] };
+    const team2: SimulationSide = { actual: teamStats[2].components, players: [] };
+
+    const sim = simulateMatchup(team1, team2, DEFAULT_CATEGORIES, 'H2H_CATEGORY', { simulations: 50 });
+    const outcome = getScoringEngine('H2H_CATEGORY').scoreMatchup(teamStats[1], teamStats[2], DEFAULT_CATEGORIES);
+
+    for (const cat of DEFAULT_CATEGORIES) {
+      const expected = outcome.categoryResults[cat.key];
+      expect(sim.categories[cat.key][expected === 'team1' ? 'win' : expected === 'team2' ? 'loss' : 'tie']).toBe(1);
+    }
+    expect(sim.expectedScore.team1).toBe(outcome.team1Score);
+  });
+
+  it('favours the stronger projection and replays with the same seed', () => {
+    const strong: SimulationSide = { players: [hitter(25, 8, 2), hitter(25, 7, 1), hitter(25, 7, 1)] };
+    const weak: SimulationSide = { players: [hitter(22, 5, 0), hitter(22, 5, 1), hitter(22, 4, 0)] };
+    const batting = DEFAULT_CATEGORIES.filter(c => c.type === 'batting');
+
+    const first = simulateMatchup(strong, weak, batting, 'H2H_MOST_CATEGORIES', { simulations: 500, seed: 42 });
+    const again = simulateMatchup(strong, weak, batting, 'H2H_MOST_CATEGORIES', { simulations: 500, seed: 42 });
+
+    expect(again).toEqual(first);
+    expect(first.matchup.win).toBeGreaterThan(0.6);
+    expect(first.matchup.win + first.matchup.tie + first.matchup.loss).toBeCloseTo(1, 10);
+    expect(first.categories.homeRuns.win).toBeGreaterThan(first.categories.homeRuns.loss);
+  });
+});
+
+describe('poisson', () => {
+  it('averages to its mean', () => {
+    const rng = createRng(7);
+    for (const lambda of [0.4, 6, 45]) {
+      let sum = 0;
+      for (let i = 0; i < 4000; i++) sum += poisson(lambda, rng);
+      expect(sum / 4000).toBeCloseTo(lambda, 0);
+    }
+  });
+});
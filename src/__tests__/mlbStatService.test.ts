@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MLBStatService } from '../services/mlbStatService';
+
+// Apr 9 is a Dodgers-Royals doubleheader (2003 and 2004); Ragans only pitches game 1
+const DOUBLEHEADER = '2025-04-09';
+
+const summary = (players: Awaited<ReturnType<MLBStatService['getMLBPlayersForDate']>>) =>
+  players
+    .map(p => [p.fullName, p.gamePks, p.components.atBats, p.components.hits, p.components.rbis, p.components.outs])
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+
+const EXPECTED = [
+  ['Bobby Witt Jr.', [2003, 2004], 8, 3, 0, 0],
+  ['Cole Ragans', [2003], 0, 0, 0, 18],
+  ['Freddie Freeman', [2003, 2004], 7, 3, 3, 0],
+];
+
+describe('MLBStatService', () => {
+  it('sums a doubleheader from the bulk per-game stats', async () => {
+    expect(summary(await new MLBStatService().getMLBPlayersForDate(DOUBLEHEADER))).toEqual(EXPECTED);
+  });
+
+  it('sums a doubleheader from the boxscores when the bulk endpoint fails', async () => {
+    const notFound = async () => new Response('Not captured', { status: 404 });
+    vi.mocked(fetch).mockImplementationOnce(notFound).mockImplementationOnce(notFound);
+
+    expect(summary(await new MLBStatService().getMLBPlayersForDate(DOUBLEHEADER))).toEqual(EXPECTED);
+  });
+
+  it('keeps both games in the day map', async () => {
+    const freeman = (await new MLBStatService().getDailyStatsMap(DOUBLEHEADER))[518692];
+
+    expect(freeman.gamePks).toEqual([2003, 2004]);
+    expect(freeman.hitting).toMatchObject({ AB: 7, H: 3, HR: 1, RBI: 3 });
+  });
+});
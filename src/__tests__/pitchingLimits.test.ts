@@ -0,0 +1,78 @@
+import { describe, expect, it, vi } from 'vitest';
+import { dataService } from '../services/dataService';
+import { evaluatePitchingLimits, pitchingLimitService, UpcomingStart } from '../services/pitchingLimitService';
+import { PlannedPitcher, startPlannerService } from '../services/startPlannerService';
+import { leagueSettings } from './fixtures';
+
+const start = (espnPlayerId: number, date: string): UpcomingStart =>
+  ({ espnPlayerId, name: `Pitcher ${espnPlayerId}`, gamePk: espnPlayerId * 10, date });
+
+describe('evaluatePitchingLimits', () => {
+  it('counts every start on the day the cap is reached and none after', () => {
+    const alerts = evaluatePitchingLimits(
+      { gamesStarted: 5 },
+      { startsUsed: 4, inningsUsed: 24 },
+      [start(1, '2025-04-10'), start(2, '2025-04-10'), start(3, '2025-04-12')],
+      0
+    );
+
+    expect(alerts.map(a => [a.kind, a.date, a.playerIds])).toEqual([
+      ['wastedStarts', '2025-04-12', [3]],
+      ['capReached', undefined, undefined],
+    ]);
+  });
+
+  it('reports room under the caps', () => {
+    const alerts = evaluatePitchingLimits({ gamesStarted: 7, innings: 40 }, { startsUsed: 2, inningsUsed: 11 }, [start(1, '2025-04-10')], 0.8);
+
+    expect(alerts.map(a => [a.kind, a.limit])).toEqual([
+      ['capUnused', 'gamesStarted'],
+      ['capUnused', 'innings'],
+    ]);
+    expect(alerts[0].message).toContain('3.2 of 7 starts unused');
+  });
+});
+
+describe('PitchingLimitService', () => {
+  it('projects the rest of the week from probable pitchers', async () => {
+    const status = await pitchingLimitService.getStatus(1, 2, { limits: { gamesStarted: 7 }, aggregation: { ledger: { 1: [] } } });
+
+    expect(status?.startsUsed).toBe(0);
+    expect(status?.upcomingStarts.map(s => [s.name, s.date])).toEqual([['Yoshinobu Yamamoto', '2025-04-07']]);
+    expect(status?.projectedStarts).toBeCloseTo(1 + 4 / 5, 9);
+    expect(status?.alerts.map(a => a.kind)).toEqual(['capUnused']);
+  });
+
+  it('leaves out starters on the bench and the IL', async () => {
+    const pitcher = (espnPlayerId: number, lineupSlotId: number): PlannedPitcher => ({
+      espnPlayerId, name: `Pitcher ${espnPlayerId}`, teamAbbrev: 'LAD', pool: 'mine', lineupSlotId, unannouncedGames: 5,
+      starts: [{ gamePk: espnPlayerId * 10, date: '2025-04-08', opponent: 'PHI', home: true, park: 'Dodger Stadium' }],
+    });
+    vi.spyOn(startPlannerService, 'getPlan').mockResolvedValueOnce({
+      week: 2, startDate: '2025-04-07', endDate: '2025-04-13', pitchers: [pitcher(1, 14), pitcher(2, 17), pitcher(3, 16)],
+    });
+
+    const status = await pitchingLimitService.getStatus(1, 2, { limits: { gamesStarted: 2 }, aggregation: { ledger: { 1: [] } } });
+
+    expect(status?.upcomingStarts.map(s => s.espnPlayerId)).toEqual([1]);
+    expect(status?.unannouncedStarts).toBe(1);
+    expect(status?.projectedStarts).toBe(2);
+    expect(status?.alerts.map(a => a.kind)).toEqual(['capReached']);
+  });
+
+  it('does nothing without caps', async () => {
+    expect(await pitchingLimitService.getStatus(1, 2, { limits: {} })).toBeNull();
+  });
+});
+
+describe('DataService.getPitchingLimits', () => {
+  it('reads the caps from the roster settings, converting innings from outs', async () => {
+    vi.mocked(fetch).mockImplementationOnce(async input => {
+      expect(String(input)).toContain('view=mSettings');
+      return new Response(JSON.stringify(leagueSettings), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    });
+
+    // 150 outs is 50 innings; the zero limit on RP is no limit
+    expect(await dataService.getPitchingLimits()).toEqual({ gamesStarted: 7, innings: 50 });
+  });
+});
@@ -0,0 +1,165 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it, vi } from 'vitest';
+import { ESPNPlayer, MLBPlayer, PlayerMatch, playerMatcher } from '../services/playerMatcher';
+import { mlbStatService } from '../services/mlbStatService';
+import { espnHistoricalRosterSource } from '../services/statsAggregator';
+import { PlayerCrosswalk, playerCrosswalk } from '../store/playerCrosswalk';
+
+const DAYS = [
+  { date: '2025-03-31', scoringPeriodId: 1 },
+  { date: '2025-04-01', scoringPeriodId: 2 },
+];
+
+const golden = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+function summarize(match: PlayerMatch) {
+  return {
+    espnPlayerId: match.espnPlayer.playerId,
+    espnName: match.espnPlayer.fullName,
+    mlbPlayerId: match.mlbPlayer?.id ?? null,
+    mlbName: match.mlbPlayer?.fullName ?? null,
+    confidence: Number(match.confidence.toFixed(3)),
+    reason: match.matchReason,
+    warnings: match.warnings ?? [],
+  };
+}
+
+function mlbPlayer(id: number, fullName: string, abbreviation: string, position: string, role: 'batting' | 'pitching'): MLBPlayer {
+  return {
+    id,
+    fullName,
+    team: { name: abbreviation, abbreviation },
+    position: { code: position, name: position },
+    stats: { [role]: { gamesPlayed: 1 } },
+  };
+}
+
+describe('PlayerMatcher', () => {
+  // Runs first: later days reuse what the crosswalk learned here
+  it('maps the captured starters to MLB players', async () => {
+    const results: Record<string, ReturnType<typeof summarize>[]> = {};
+    for (const day of DAYS) {
+      const mlbPlayers = await mlbStatService.getMLBPlayersForDate(day.date);
+      for (const teamId of [1, 2]) {
+        const starters = await espnHistoricalRosterSource.getStarters(teamId, day);
+        const matches = await playerMatcher.matchPlayers(starters, mlbPlayers);
+        results[`${day.date} team ${teamId}`] = matches.map(summarize);
+      }
+    }
+
+    const day1 = [...results['2025-03-31 team 1'], ...results['2025-03-31 team 2']];
+    const byEspn = Object.fromEntries(day1.map(m => [m.espnPlayerId, m.mlbPlayerId]));
+    // Two Will Smiths: the Dodgers catcher and the Royals reliever
+    expect(byEspn[35021]).toBe(669257);
+    expect(byEspn[32761]).toBe(519293);
+    expect(byEspn[42403]).toBe(677951);
+    // Suffix dropped on one side still matches
+    const vlad = results['2025-04-01 team 1'].find(m => m.espnPlayerId === 35002);
+    expect(vlad?.mlbPlayerId).toBe(665489);
+    // Luis Garcia (SD reliever) is not Luis García Jr. (WSH infielder)
+    const garcia = results['2025-04-01 team 2'].find(m => m.espnPlayerId === 33711);
+    expect(garcia?.mlbPlayerId).toBe(472610);
+
+    await expect(golden(results)).toMatchFileSnapshot('./golden/playerMatches.json');
+  });
+
+  it('refuses to pick between players it cannot tell apart', async () => {
+    const candidates = [
+      mlbPlayer(900001, 'Luis García', 'WSH', '2B', 'batting'),
+      mlbPlayer(900002, 'Luis Garcia', 'HOU', 'SS', 'batting'),
+    ];
+    const unknown: ESPNPlayer = { playerId: 990001, fullName: 'Luis Garcia', lineupSlotId: 12 };
+
+    const [match] = await playerMatcher.matchPlayers([unknown], candidates);
+
+    expect(match.mlbPlayer).toBeNull();
+    expect(match.matchReason).toMatch(/^Ambiguous/);
+  });
+
+  it('resolves nicknames and never matches a Jr. to a Sr.', async () => {
+    const candidates = [
+      mlbPlayer(900011, 'Michael King', 'SD', 'P', 'pitching'),
+      mlbPlayer(900012, 'Fernando Tatis Sr.', 'SD', 'RF', 'batting'),
+    ];
+    const espn: ESPNPlayer[] = [
+      { playerId: 990011, fullName: 'Mike King', teamAbbrev: 'SD', position: 'SP', lineupSlotId: 14 },
+      { playerId: 990012, fullName: 'Fernando Tatis Jr.', teamAbbrev: 'SD', position: 'RF', lineupSlotId: 10 },
+    ];
+
+    const [king, tatis] = await playerMatcher.matchPlayers(espn, candidates);
+
+    expect(king.mlbPlayer?.id).toBe(900011);
+    expect(king.matchReason).toContain('Nickname alias');
+    expect(tatis.mlbPlayer).toBeNull();
+  });
+
+  it('leaves a player unmatched rather than take a namesake on another club', async () => {
+    // The Padres' Luis Garcia has no line today; the Astros' one pitched
+    const candidates = [mlbPlayer(900041, 'Luis Garcia', 'HOU', 'P', 'pitching')];
+    const espn: ESPNPlayer = { playerId: 990041, fullName: 'Luis Garcia', teamAbbrev: 'SD', position: 'RP', lineupSlotId: 15 };
+
+    const [match] = await playerMatcher.matchPlayers([espn], candidates);
+
+    expect(match.mlbPlayer).toBeNull();
+    expect(match.matchReason).toBe('No match found (best: Luis Garcia, 65%, other team)');
+    expect(playerMatcher.rankCandidates(espn, candidates)[0].warnings).toContain('Team mismatch: ESPN(SD) vs MLB(HOU)');
+  });
+
+  it('tells namesakes apart by the hand of the player matched last season', async () => {
+    const candidates = [
+      mlbPlayer(900052, 'Luis Garcia', 'SD', 'P', 'pitching'),
+      mlbPlayer(900051, 'Luis Garcia', 'SD', 'P', 'pitching'),
+    ];
+    const espn: ESPNPlayer = { playerId: 990051, fullName: 'Luis Garcia', teamAbbrev: 'SD', position: 'RP', lineupSlotId: 15 };
+    // Last season's match is due its re-check, so the matcher runs
+    await playerCrosswalk.record([{ espnPlayerId: 990051, mlbPlayerId: 900051, fullName: 'Luis Garcia', confidence: 1, method: 'matcher' }]);
+    playerCrosswalk.peek(990051)!.season = 2024;
+
+    const [match] = await playerMatcher.matchPlayers([espn], candidates);
+
+    // By name, club and role alone the two tie
+    expect(playerMatcher.rankCandidates(espn, candidates).map(c => c.confidence)).toEqual([1, 1]);
+    expect(match.mlbPlayer?.id).toBe(900051);
+    expect(match.mlbPlayer?.handedness).toEqual({ bats: 'R', throws: 'R' });
+    expect(match.matchReason).toContain('hand');
+    expect(match.signals?.hand).toBeGreaterThan(0);
+    expect(playerCrosswalk.get(990051)?.season).toBe(2025);
+  });
+
+  it('replaces a wrong name-search guess with the day\'s match', async () => {
+    const candidates = [
+      mlbPlayer(900021, 'Will Smith', 'LAD', 'C', 'batting'),
+      mlbPlayer(900022, 'Will Smith', 'KC', 'P', 'pitching'),
+    ];
+    const espn: ESPNPlayer = { playerId: 990021, fullName: 'Will Smith', teamAbbrev: 'LAD', position: 'C', lineupSlotId: 0 };
+    // The people/search fallback took the first Will Smith it found
+    await playerCrosswalk.record([{ espnPlayerId: 990021, mlbPlayerId: 900022, fullName: 'Will Smith', confidence: 0.6, method: 'search' }]);
+
+    const [match] = await playerMatcher.matchPlayers([espn], candidates);
+
+    expect(match.mlbPlayer?.id).toBe(900021);
+    expect(match.matchReason).not.toMatch(/^Crosswalk/);
+    expect(playerCrosswalk.getMlbId(990021)).toBe(900021);
+    expect(playerCrosswalk.peek(990021)?.method).toBe('matcher');
+  });
+
+  it('looks up players in the bundled ID register without fuzzy matching', async () => {
+    const register = readFileSync(new URL('../../public/player_id_register.csv', import.meta.url), 'utf8');
+    vi.mocked(fetch).mockImplementationOnce(async () => new Response(register));
+    const seeded = new PlayerCrosswalk();
+    await seeded.ready();
+    const lookup = vi.spyOn(playerCrosswalk, 'get').mockImplementation(id => seeded.get(id));
+
+    // Neither side says which Will Smith this is; the register does
+    const espn: ESPNPlayer = { playerId: 32761, fullName: 'Will Smith', lineupSlotId: 15 };
+    const [match] = await playerMatcher.matchPlayers([espn], [
+      mlbPlayer(669257, 'Will Smith', 'LAD', 'C', 'batting'),
+      mlbPlayer(519293, 'Will Smith', 'KC', 'P', 'pitching'),
+    ]);
+    lookup.mockRestore();
+
+    expect(seeded.peek(32761)).toMatchObject({ mlbPlayerId: 519293, method: 'register' });
+    expect(match.mlbPlayer?.id).toBe(519293);
+    expect(match.matchReason).toBe('Crosswalk (register)');
+  });
+});
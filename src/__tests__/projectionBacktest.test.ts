@@ -0,0 +1,37 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { projectionBacktest } from '../services/projectionBacktest';
+import { DEFAULT_CATEGORIES } from '../services/categoryRegistry';
+import { computeWeekStats, espnHistoricalRosterSource } from '../services/statsAggregator';
+import { dataService } from '../services/dataService';
+import { playerCrosswalk } from '../store/playerCrosswalk';
+
+describe('ProjectionBacktest', () => {
+  beforeAll(async () => {
+    await playerCrosswalk.ready();
+    await playerCrosswalk.record([
+      { espnPlayerId: 30193, mlbPlayerId: 518692, fullName: 'Freddie Freeman', confidence: 1, method: 'manual' },
+    ]);
+  });
+
+  it('replays week 1 as of the day before it started', async () => {
+    const report = await projectionBacktest.run([1], {
+      teamIds: [1, 2],
+      categories: DEFAULT_CATEGORIES,
+      format: 'H2H_CATEGORY',
+      simulations: 50,
+    });
+    const { teamStats } = await computeWeekStats(1, { rosterSource: espnHistoricalRosterSource, teamIds: [1, 2] });
+
+    const [week] = report.weeks;
+    expect(week.asOf).toBe('2025-03-30');
+    expect(week.teams.map(t => t.actual.components)).toEqual([teamStats[1].components, teamStats[2].components]);
+    // The reference date goes back to the fixture manifest afterwards
+    expect((await dataService.getReferenceDate()).toISOString()).toBe('2025-04-02T18:00:00.000Z');
+
+    // One pair of teams, a prediction per category
+    expect(report.calibration.reduce((n, b) => n + b.predictions, 0)).toBe(DEFAULT_CATEGORIES.length);
+    expect(report.categories.find(c => c.key === 'runs')?.samples).toBe(2);
+    // Freeman is projected from the end of last season
+    expect(report.dataSources.map(s => s.dataSource)).toContain('seasonAvg');
+  });
+});
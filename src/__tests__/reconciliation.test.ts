@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { dataService } from '../services/dataService';
+import { buildCategoriesFromSettings } from '../services/categoryRegistry';
+import { reconciliationService } from '../services/reconciliationService';
+import { computeWeekStats, espnHistoricalRosterSource } from '../services/statsAggregator';
+
+// R, HR, RBI, SB, AVG / K, W, SV, ERA, WHIP plus IP
+const categories = buildCategoriesFromSettings({
+  scoringItems: [20, 5, 21, 23, 2, 48, 53, 57, 47, 41, 34].map(statId => ({ statId })),
+});
+
+describe('ReconciliationService', () => {
+  it('checks the captured week 1 totals against ESPN, reading IP as outs', async () => {
+    const [matchup] = await dataService.getOfficialMatchupScores(1);
+    const { teamStats, ledger } = await computeWeekStats(1, {
+      rosterSource: espnHistoricalRosterSource,
+      teamIds: [1, 2],
+    });
+
+    const home = reconciliationService.reconcileTeam(1, matchup.home.scoreByStat, teamStats[1], ledger[1], categories, matchup.matchupId);
+    const away = reconciliationService.reconcileTeam(2, matchup.away.scoreByStat, teamStats[2], ledger[2], categories, matchup.matchupId);
+
+    // 18 and 5 outs are 6 and 1.2 innings, which is what the boxscores give
+    expect(home).toMatchObject({ officialAvailable: true, categoriesChecked: 11, discrepancies: [] });
+    expect(away.discrepancies.map(d => [d.category.key, d.official, d.computed])).toEqual([['runs', 4, 3]]);
+  });
+});
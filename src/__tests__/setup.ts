@@ -0,0 +1,26 @@
+import { afterEach, expect, vi } from 'vitest';
+import { fixtureFetch, MemoryStorage } from './fixtures';
+
+/*
+ * Runs before every test file: a browser-like localStorage, fixture replay
+ * mode (so nothing tries to snapshot today's rosters) and a fetch that only
+ * answers from the captured fixtures.
+ */
+
+const storage = new MemoryStorage();
+storage.setItem('fixtureMode', 'replay');
+storage.setItem('leagueId', '24414');
+vi.stubGlobal('localStorage', storage);
+vi.stubGlobal('fetch', vi.fn(fixtureFetch));
+
+// The services log every step; keep test output to failures
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+// A console.error fails the test unless the test asserts it and clears it
+const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+afterEach(() => {
+  const calls = [...consoleError.mock.calls];
+  consoleError.mockClear();
+  expect(calls.map(args => args.map(String).join(' ')), 'unexpected console.error').toEqual([]);
+});
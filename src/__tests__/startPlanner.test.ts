@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { startPlannerService } from '../services/startPlannerService';
+import { dataService } from '../services/dataService';
+import { mlbApiService } from '../services/mlbApiService';
+
+describe('StartPlannerService', () => {
+  it('lists announced starts for rostered starting pitchers', async () => {
+    // Week 2 hasn't started at the fixture reference date, so all of it is planned
+    const plan = await startPlannerService.getPlan(2, 1);
+
+    expect(plan.startDate).toBe('2025-04-07');
+    expect(plan.endDate).toBe('2025-04-13');
+
+    const yamamoto = plan.pitchers.find(p => p.name === 'Yoshinobu Yamamoto');
+    expect(yamamoto?.pool).toBe('mine');
+    expect(yamamoto?.mlbPlayerId).toBe(808967);
+    expect(yamamoto?.starts).toEqual([
+      { gamePk: 2001, date: '2025-04-07', opponent: 'PHI', home: true, park: 'Dodger Stadium' },
+    ]);
+    // The makeup doubleheader and the weekend series have no probables yet
+    expect(yamamoto?.unannouncedGames).toBe(4);
+
+    // No matchups were captured, so the opponent's pitchers are left out
+    expect(plan.opponentTeamId).toBeUndefined();
+    expect(plan.pitchers.some(p => p.pool === 'opponent')).toBe(false);
+    expect(vi.mocked(console.error).mock.calls.map(([message]) => message)).toEqual(['Failed to load fallback matchups:']);
+    vi.mocked(console.error).mockClear();
+  });
+
+  it('keeps the games of a replayed week that have since gone final', async () => {
+    // Replaying week 2 the day before it starts, after it was played
+    const getGames = mlbApiService.getGames.bind(mlbApiService);
+    const spy = vi.spyOn(mlbApiService, 'getGames').mockImplementation(async (start, end) =>
+      (await getGames(start, end)).map(g => ({ ...g, status: g.status === 'postponed' ? g.status : 'final' as const })));
+    dataService.setReferenceDate(new Date('2025-04-06T12:00:00Z'));
+    try {
+      const plan = await startPlannerService.getPlan(2, 1, ['mine']);
+      const yamamoto = plan.pitchers.find(p => p.name === 'Yoshinobu Yamamoto');
+      expect(yamamoto?.starts.map(s => s.gamePk)).toEqual([2001]);
+      expect(yamamoto?.unannouncedGames).toBe(4);
+    } finally {
+      dataService.setReferenceDate(null);
+      spy.mockRestore();
+    }
+  });
+});
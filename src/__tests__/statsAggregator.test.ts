@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { computeWeekStats, espnHistoricalRosterSource } from '../services/statsAggregator';
+import { COMPONENT_KEYS, TeamStatLine } from '../services/categoryRegistry';
+
+const golden = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+// Rates rounded so golden files don't churn on floating-point noise
+function roundLine(line: TeamStatLine) {
+  const out: Record<string, number> = {};
+  for (const [key, value] of Object.entries(line)) {
+    if (key === 'components' || (COMPONENT_KEYS as readonly string[]).includes(key)) continue;
+    out[key] = Math.round(Number(value) * 1000) / 1000;
+  }
+  return { ...out, components: line.components };
+}
+
+describe('computeWeekStats', () => {
+  it('totals week 1 from the captured rosters and boxscores', async () => {
+    const { teamStats, ledger } = await computeWeekStats(1, {
+      rosterSource: espnHistoricalRosterSource,
+      teamIds: [1, 2],
+    });
+
+    // Team 1: Smith (C), Witt and Yamamoto on day 1; Guerrero on day 2
+    expect(teamStats[1].components).toMatchObject({
+      atBats: 11, hits: 5, homeRuns: 2, runs: 2, rbis: 6, stolenBases: 1,
+      outs: 18, earnedRuns: 2, hitsAllowed: 5, walksAllowed: 1, strikeouts: 7, wins: 1, qualityStarts: 1,
+    });
+    expect(teamStats[1].era).toBeCloseTo(3.0, 6);
+    expect(teamStats[1].whip).toBeCloseTo(1.0, 6);
+
+    // Team 2: Freeman and the Royals' Smith on day 1; Garcia (2 outs) and Harris on day 2
+    expect(teamStats[2].components).toMatchObject({
+      atBats: 7, hits: 3, homeRuns: 1, runs: 3, rbis: 2, stolenBases: 1,
+      outs: 5, earnedRuns: 1, hitsAllowed: 3, walksAllowed: 1, strikeouts: 3, holds: 1,
+    });
+    expect(teamStats[2].era).toBeCloseTo(5.4, 6);
+    expect(teamStats[2].whip).toBeCloseTo(2.4, 6);
+
+    // Bench players never reach the ledger; Perez only counts once he starts at UTIL
+    const perez = ledger[1].filter(e => e.espnPlayerId === 31097);
+    expect(perez.every(e => e.date >= '2025-04-01' && !e.counted)).toBe(true);
+
+    const summary = {
+      teamStats: { 1: roundLine(teamStats[1]), 2: roundLine(teamStats[2]) },
+      ledger: Object.fromEntries(Object.entries(ledger).map(([teamId, entries]) => [
+        teamId,
+        entries.map(e => ({
+          date: e.date,
+          espnPlayerId: e.espnPlayerId,
+          playerName: e.playerName,
+          lineupSlotId: e.lineupSlotId,
+          mlbPlayerId: e.mlbPlayerId ?? null,
+          gamePks: e.gamePks ?? [],
+          counted: e.counted,
+          reason: e.matchReason,
+        })),
+      ])),
+    };
+    await expect(golden(summary)).toMatchFileSnapshot('./golden/week1Aggregation.json');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { buildWeekMetaMap } from '../utils/weekUtils';
+import { buildWeekMetaMapFromMLB } from '../utils/mlbWeekUtils';
+import { mlbApiService } from '../services/mlbApiService';
+import { espnSchedule } from './fixtures';
+
+const golden = (value: unknown) => JSON.stringify(value, null, 2) + '\n';
+
+describe('buildWeekMetaMap', () => {
+  it('groups ESPN schedule entries into weeks', async () => {
+    const map = buildWeekMetaMap(espnSchedule);
+
+    expect(Object.keys(map)).toEqual(['1', '2']);
+    expect(map[1].scoringPeriodIds).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(map[2].scoringPeriodIds).toEqual([8, 9, 10, 11, 12, 13, 14]);
+    await expect(golden(map)).toMatchFileSnapshot('./golden/weekMetaMap.espn.json');
+  });
+});
+
+describe('buildWeekMetaMapFromMLB', () => {
+  it('builds Monday–Sunday weeks from the captured MLB calendar', async () => {
+    const dates = await mlbApiService.getSeasonDates(2025);
+    const map = buildWeekMetaMapFromMLB(dates);
+
+    expect(map[1].startISO).toBe('2025-03-31T00:00:00.000Z');
+    expect(map[1].endISO).toBe('2025-04-06T00:00:00.000Z');
+    expect(map[2].scoringPeriodIds).toEqual([8, 9, 10, 11, 12, 13, 14]);
+    await expect(golden(map)).toMatchFileSnapshot('./golden/weekMetaMap.mlb.json');
+  });
+
+  it('starts week 1 on the first Monday when opening day is mid-week', () => {
+    // 2025 opened on Thursday March 27
+    const dates = ['2025-03-27', '2025-03-28', '2025-04-06'].map(d => new Date(`${d}T00:00:00Z`));
+    const map = buildWeekMetaMapFromMLB(dates);
+
+    expect(map[1].startISO).toBe('2025-03-31T00:00:00.000Z');
+    // Scoring periods count days from opening day, so Monday is day 5
+    expect(map[1].scoringPeriodIds).toEqual([5, 6, 7, 8, 9, 10, 11]);
+    expect(map[1].label).toBe('Week 1 (Mar 31 – Apr 6)');
+  });
+
+  it('returns an empty map without game days', () => {
+    expect(buildWeekMetaMapFromMLB([])).toEqual({});
+  });
+});
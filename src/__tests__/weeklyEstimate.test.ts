@@ -0,0 +1,122 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { weeklyEstimateService } from '../services/weeklyEstimateService';
+import { ScheduledGame } from '../services/mlbApiService';
+import { remainingGamesAsOf, unannouncedGamesFor } from '../services/startPlannerService';
+import { playerCrosswalk } from '../store/playerCrosswalk';
+import { computeWeekStats, espnHistoricalRosterSource } from '../services/statsAggregator';
+
+const final = (gamePk: number, date: string): ScheduledGame => ({
+  gamePk, date, gameNumber: 1, status: 'final',
+  home: { teamAbbrev: 'LAD', probablePitcherId: gamePk * 10 },
+  away: { teamAbbrev: 'PHI', probablePitcherId: gamePk * 10 + 1 },
+});
+
+describe('remainingGamesAsOf', () => {
+  it('replays final games as scheduled, without starters named past the notice window', () => {
+    const games = remainingGamesAsOf(
+      [final(1, '2025-03-30'), final(2, '2025-03-31'), final(3, '2025-04-01'), final(4, '2025-04-02'), final(5, '2025-04-03')],
+      '2025-03-30'
+    );
+
+    expect(games.map(g => [g.gamePk, g.status, g.home.probablePitcherId, g.away.probablePitcherId])).toEqual([
+      [2, 'scheduled', 20, 21],
+      [3, 'scheduled', 30, 31],
+      [4, 'scheduled', undefined, undefined],
+      [5, 'scheduled', undefined, undefined],
+    ]);
+    expect(unannouncedGamesFor(games, 'LAD')).toBe(2);
+  });
+});
+
+// Fixture reference date is Wed April 2: week 1 is in progress, week 2 hasn't started
+describe('WeeklyEstimateService', () => {
+  beforeAll(async () => {
+    await playerCrosswalk.ready();
+    await playerCrosswalk.record([
+      { espnPlayerId: 4872, mlbPlayerId: 808967, fullName: 'Yoshinobu Yamamoto', confidence: 1, method: 'manual' },
+      { espnPlayerId: 30193, mlbPlayerId: 518692, fullName: 'Freddie Freeman', confidence: 1, method: 'manual' },
+      { espnPlayerId: 90001, mlbPlayerId: 690001, fullName: 'Test Prospect', confidence: 1, method: 'manual' },
+      { espnPlayerId: 90002, mlbPlayerId: 690002, fullName: 'Test Veteran', confidence: 1, method: 'manual' },
+    ]);
+  });
+
+  it('projects a starter from announced and unannounced starts', async () => {
+    const est = await weeklyEstimateService.getPlayerWeeklyEstimate(4872, 'Yoshinobu Yamamoto', 2, { teamAbbrev: 'LAD', position: 'SP' });
+
+    // Rainout on the 11th is dropped; the makeup doubleheader counts twice
+    expect(est.gamesRemaining).toBe(6);
+    expect(est.probableStarts).toBe(1);
+    // One announced start plus a fifth of the four games without a probable
+    expect(est.gamesProjected).toBeCloseTo(1.8, 6);
+    expect(est.components?.strikeouts).toBeCloseTo(12.6, 6);
+    expect(est.estimate.era).toBeCloseTo(3.0, 6);
+  });
+
+  it('projects a hitter per club game left', async () => {
+    const est = await weeklyEstimateService.getPlayerWeeklyEstimate(30193, 'Freddie Freeman', 2, { teamAbbrev: 'LAD', position: '1B' });
+
+    // Played the Dodgers' only completed game of week 1
+    expect(est.dataSource).toBe('last4weeks');
+    expect(est.gamesProjected).toBe(6);
+    expect(est.components?.atBats).toBe(18);
+    expect(est.estimate.battingAverage).toBeCloseTo(1 / 3, 6);
+  });
+
+  it("falls back to last season's game log", async () => {
+    const est = await weeklyEstimateService.getPlayerWeeklyEstimate(90002, 'Test Veteran', 2, { teamAbbrev: 'LAD', position: 'LF' });
+
+    // No MLB games yet this year; four last September
+    expect(est.dataSource).toBe('seasonAvg');
+    expect(est.playerId).toBe(90002);
+    expect(est.mlbPlayerId).toBe(690002);
+    expect(est.components?.atBats).toBeCloseTo(24, 6);
+    expect(est.estimate.battingAverage).toBeCloseTo(0.25, 6);
+  });
+
+  it('projects a prospect from translated minor-league lines', async () => {
+    const est = await weeklyEstimateService.getPlayerWeeklyEstimate(90001, 'Test Prospect', 2, { teamAbbrev: 'LAD', position: 'C' });
+
+    // 40 games at Triple-A and 20 at Double-A, scaled to 6 club games
+    expect(est.dataSource).toBe('minorLeague');
+    expect(est.gamesProjected).toBe(6);
+    expect(est.components?.atBats).toBeCloseTo(22, 6);
+    expect(est.components?.hits).toBeCloseTo((45 * 0.95 + 21 * 0.95 * 0.92) / 10, 6);
+    expect(est.components?.homeRuns).toBeCloseTo((8 * 0.8 + 5 * 0.8 * 0.92) / 10, 6);
+  });
+
+  it('says why a player has no projection', async () => {
+    const est = await weeklyEstimateService.getPlayerWeeklyEstimate(90003, 'Nobody Atall', 2, { teamAbbrev: 'LAD', position: 'SS' });
+
+    expect(est.dataSource).toBe('noData');
+    expect(est.note).toMatch(/No MLB id/);
+  });
+
+  it('holds back a name-search guess until it is confirmed', async () => {
+    const est = await weeklyEstimateService.getPlayerWeeklyEstimate(90004, 'Test Namesake', 2, { teamAbbrev: 'LAD', position: 'C' });
+
+    // The Mariner is skipped for the Dodgers' Triple-A namesake, who is only queued for review
+    expect(est.dataSource).toBe('noData');
+    expect(est.note).toMatch(/match review/);
+    expect(playerCrosswalk.peek(90004)).toMatchObject({ mlbPlayerId: 690012, method: 'search' });
+    expect(playerCrosswalk.getMlbId(90004)).toBeUndefined();
+  });
+
+  it('makes no guess when no one found by name is on the ESPN club', async () => {
+    const est = await weeklyEstimateService.getPlayerWeeklyEstimate(90005, 'Test Namesake', 2, { teamAbbrev: 'NYY', position: 'C' });
+
+    expect(est.note).toMatch(/No MLB id/);
+    expect(playerCrosswalk.peek(90005)).toBeUndefined();
+  });
+
+  it('adds nothing to the banked stats when no games are left', async () => {
+    const { teamStats } = await computeWeekStats(1, {
+      rosterSource: espnHistoricalRosterSource,
+      teamIds: [1],
+    });
+
+    const est = await weeklyEstimateService.getTeamWeeklyEstimate(1, 1, teamStats[1]);
+
+    expect(est.components).toEqual(teamStats[1].components);
+    expect(est.era).toBeCloseTo(teamStats[1].era, 6);
+  });
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -11,11 +11,15 @@ import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Settings } from 'lucide-react';
+import { playerCrosswalk } from '../store/playerCrosswalk';
 
 export const APISettings = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [espnS2, setEspnS2] = useState('');
   const [swid, setSwid] = useState('');
+  const [crosswalkSize, setCrosswalkSize] = useState(0);
+  const [crosswalkMessage, setCrosswalkMessage] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -23,9 +27,36 @@ export const APISettings = () => {
       const savedSwid = localStorage.getItem('swid') || '';
       setEspnS2(savedS2);
       setSwid(savedSwid);
+      setCrosswalkMessage('');
+      playerCrosswalk.ready().then(() => setCrosswalkSize(playerCrosswalk.all().length));
     }
   }, [isOpen]);
 
+  const handleExportCrosswalk = () => {
+    const blob = new Blob([playerCrosswalk.toCSV()], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'player-crosswalk.csv';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportCrosswalk = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await playerCrosswalk.ready();
+      const count = await playerCrosswalk.importCSV(await file.text());
+      setCrosswalkSize(playerCrosswalk.all().length);
+      setCrosswalkMessage(`Imported ${count} mappings`);
+    } catch (err) {
+      console.error('[Crosswalk] Import failed', err);
+      setCrosswalkMessage('Import failed');
+    }
+  };
+
   const handleSave = () => {
     localStorage.setItem('espn_s2', espnS2);
     localStorage.setItem('swid', swid);
@@ -70,6 +101,21 @@ export const APISettings = () => {
               placeholder="Your SWID cookie"
             />
           </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label className="text-right">Player IDs</Label>
+            <div className="col-span-3 flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="sm" onClick={handleExportCrosswalk} disabled={crosswalkSize === 0}>
+                Export CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+                Import CSV
+              </Button>
+              <input ref={fileInput} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImportCrosswalk} />
+              <span className="text-xs text-muted-foreground">
+                {crosswalkMessage || `${crosswalkSize} ESPN → MLB mappings`}
+              </span>
+            </div>
+          </div>
         </div>
         <DialogFooter>
           <Button onClick={handleSave}>Save & Reload</Button>
@@ -0,0 +1,187 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { ArrowRight, RefreshCw, Send } from 'lucide-react';
+import { useDataContext } from '../context/DataContext';
+import { AdvisorReport, AdvisorRisk, AdvisorTab, advisorService } from '../services/advisorService';
+import { AdvisorAnswer, advisorChatService, MAX_QUESTION_LENGTH } from '../services/advisorChatService';
+import { MatchupSimulation } from '../services/matchupSimulator';
+
+interface AdvisorProps {
+  teamId: number;
+  opponentTeamId: number | null;
+  week: number;
+  simulation: MatchupSimulation | null;
+  // Opens the tab a recommendation's data comes from
+  onNavigate: (tab: AdvisorTab) => void;
+}
+
+const RISK_STYLES: Record<AdvisorRisk, string> = {
+  low: 'bg-green-100 text-green-700',
+  medium: 'bg-amber-100 text-amber-800',
+  high: 'bg-red-100 text-red-700',
+};
+
+// Citations follow the player's name; ids that aren't in the context are flagged
+const AnswerText = ({ answer }: { answer: AdvisorAnswer }) => {
+  const unknown = new Set(answer.unknownPlayerIds);
+  return (
+    <p className="text-sm whitespace-pre-wrap">
+      {answer.answer.split(/(\[player:\d+\])/g).map((part, i) => {
+        const id = Number(part.match(/^\[player:(\d+)\]$/)?.[1]);
+        if (!id) return <React.Fragment key={i}>{part}</React.Fragment>;
+        return !unknown.has(id)
+          ? <span key={i} className="text-xs bg-blue-50 text-blue-700 rounded px-1 mx-0.5" title={`ESPN player ${id}`}>#{id}</span>
+          : <span key={i} className="text-xs bg-red-50 text-red-700 rounded px-1 mx-0.5" title="Not in the league context">#{id}?</span>;
+      })}
+    </p>
+  );
+};
+
+export const Advisor = ({ teamId, opponentTeamId, week, simulation, onNavigate }: AdvisorProps) => {
+  const { weeklyStats, categories, scoringFormat } = useDataContext();
+  const [report, setReport] = useState<AdvisorReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  const [chat, setChat] = useState<{ question: string; answer: AdvisorAnswer } | null>(null);
+  const [chatError, setChatError] = useState<string | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setReport(await advisorService.getAdvice(teamId, week, {
+        opponentTeamId,
+        weeklyStats,
+        simulation,
+        categories,
+        format: scoringFormat,
+      }));
+    } catch (err) {
+      console.error('[Advisor] Failed to build recommendations', err);
+      setError('Failed to build recommendations');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const ask = async () => {
+    const asked = question.trim();
+    if (!asked) return;
+    setAsking(true);
+    setChatError(null);
+    try {
+      const context = await advisorChatService.buildContext(teamId, week, {
+        opponentTeamId,
+        weeklyStats,
+        simulation,
+        categories,
+        format: scoringFormat,
+        recommendations: report?.recommendations,
+      });
+      setChat({ question: asked, answer: await advisorChatService.ask(asked, context) });
+    } catch (err) {
+      console.error('[Advisor] Question failed', err);
+      setChatError(err instanceof Error ? err.message : 'The advisor could not answer');
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  useEffect(() => {
+    if (week > 0) load();
+  }, [teamId, opponentTeamId, week, weeklyStats, simulation, categories, scoringFormat]);
+
+  return (
+    <Card className="bg-white border border-[#8c8c8c] shadow-sm mt-6">
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+          <span>AI Daddy</span>
+          <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-12">
+            <img src="/loading-ball.gif" alt="loading" className="h-16 w-16 mx-auto" />
+            <p className="text-sm text-gray-500 mt-2">Weighing up the matchup...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12 text-red-600">{error}</div>
+        ) : !report || report.recommendations.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">Nothing to change right now.</div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Ranked from the week's totals, the simulated category odds, the lineup check, pitching caps and
+              projected free-agent starts{simulation ? '' : ' (odds still loading, so category advice is left out)'}.
+            </p>
+            <ol className="space-y-3">
+              {report.recommendations.map((rec, i) => (
+                <li key={rec.id} className="rounded border border-gray-200 p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-bold text-gray-400">{i + 1}</span>
+                      <span className="font-medium">{rec.title}</span>
+                      {rec.risk && (
+                        <span className={`text-xs font-semibold rounded px-2 py-0.5 ${RISK_STYLES[rec.risk]}`}>{rec.risk} risk</span>
+                      )}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => onNavigate(rec.source.tab)}>
+                      {rec.source.label}
+                      <ArrowRight className="h-4 w-4 ml-1" />
+                    </Button>
+                  </div>
+                  <ul className="text-sm text-gray-600 list-disc ml-8 mt-1">
+                    {rec.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                  </ul>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        <div className="mt-6 border-t border-gray-200 pt-4">
+          <h4 className="font-medium mb-2 text-blue-600">Ask about your league</h4>
+          <form
+            className="flex gap-2"
+            onSubmit={e => {
+              e.preventDefault();
+              ask();
+            }}
+          >
+            <Input
+              value={question}
+              onChange={e => setQuestion(e.target.value)}
+              placeholder="Who should I drop for a 2-start SP?"
+              maxLength={MAX_QUESTION_LENGTH}
+              disabled={asking}
+            />
+            <Button type="submit" disabled={asking || !question.trim()}>
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
+          {asking && <p className="text-sm text-gray-500 mt-2">Asking the advisor...</p>}
+          {chatError && <p className="text-sm text-red-600 mt-2">{chatError}</p>}
+          {chat && !asking && (
+            <div className="mt-3 rounded border border-gray-200 p-3 space-y-2">
+              <p className="text-sm font-medium">{chat.question}</p>
+              <AnswerText answer={chat.answer} />
+              <p className="text-xs text-gray-400">
+                {chat.answer.model} · prompt {chat.answer.promptVersion} · {advisorChatService.backendName}
+                {chat.answer.unknownPlayerIds.length > 0 && (
+                  <span className="text-red-600 ml-2">cites {chat.answer.unknownPlayerIds.length} player(s) not in your league data</span>
+                )}
+              </p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
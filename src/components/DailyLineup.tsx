@@ -1,15 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
-import { dataService } from '../services/dataService';
+import { dataService, IL_SLOT_ID, isStarterSlot, LINEUP_SLOT_LABELS } from '../services/dataService';
 import { Skeleton } from './ui/skeleton';
-import { Users, ShieldCheck } from 'lucide-react';
+import { Button } from './ui/button';
+import { Users, ShieldCheck, Wand2 } from 'lucide-react';
+import { useDataContext } from '../context/DataContext';
+import { LineupPlan, lineupOptimizer } from '../services/lineupOptimizer';
+import { LineupAlert, lineupAuditService } from '../services/lineupAudit';
+import { PitchingLimitStatus, pitchingLimitService } from '../services/pitchingLimitService';
+import { MatchupSimulation } from '../services/matchupSimulator';
 import { RosterEntry } from "@/types/fantasy";
 import { getCurrentMatchupPeriod, WeekMeta } from '../utils/weekUtils';
 import { mlbStatService } from '../services/mlbStatService';
-import { playerMatcher, ESPNPlayer, MLBPlayer } from '../services/playerMatcher';
+import { playerMatcher, ESPNPlayer } from '../services/playerMatcher';
+import { calculateERA, calculateWHIP } from '../utils/helpers';
 
-const BENCH_SLOT_ID = 16;
-const IL_SLOT_ID = 17;
 const PITCHER_ELIGIBILITY_SLOTS = [13, 14, 15];
 const DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
 
@@ -19,6 +24,8 @@ const isPitcher = (player: RosterEntry) =>
 interface DailyLineupProps {
   teamId: number | null;
   week: number;
+  // This week's matchup simulation, so the optimizer favours close categories
+  simulation?: MatchupSimulation | null;
 }
 
 interface PlayerStats {
@@ -36,7 +43,8 @@ interface PlayerStats {
   whip: number;
 }
 
-export const DailyLineup: React.FC<DailyLineupProps> = ({ teamId, week }) => {
+export const DailyLineup: React.FC<DailyLineupProps> = ({ teamId, week, simulation }) => {
+  const { weeklyStats, categories, scoringFormat } = useDataContext();
   const [lineup, setLineup] = useState<RosterEntry[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -44,6 +52,47 @@ export const DailyLineup: React.FC<DailyLineupProps> = ({ teamId, week }) => {
   const [selectedDayIdx, setSelectedDayIdx] = useState(0);
   const [playerStats, setPlayerStats] = useState<Record<number, PlayerStats>>({});
   const [statsLoading, setStatsLoading] = useState(false);
+  const [plan, setPlan] = useState<LineupPlan | null>(null);
+  const [planLoading, setPlanLoading] = useState(false);
+  const [planError, setPlanError] = useState<string | null>(null);
+  const [alerts, setAlerts] = useState<Record<number, LineupAlert>>({});
+  const [pitchingLimits, setPitchingLimits] = useState<PitchingLimitStatus | null>(null);
+
+  // A plan is for one team and week
+  useEffect(() => {
+    setPlan(null);
+    setPlanError(null);
+  }, [teamId, week]);
+
+  // Games-started / innings caps, when the league has them
+  useEffect(() => {
+    if (!teamId) return;
+    pitchingLimitService.getStatus(teamId, week, { aggregation: weeklyStats })
+      .then(setPitchingLimits)
+      .catch(err => {
+        console.warn('[DailyLineup] Pitching limits unavailable:', err);
+        setPitchingLimits(null);
+      });
+  }, [teamId, week, weeklyStats]);
+
+  const optimize = async () => {
+    if (!teamId) return;
+    setPlanLoading(true);
+    setPlanError(null);
+    try {
+      setPlan(await lineupOptimizer.optimizeWeek(teamId, week, {
+        simulation,
+        actual: weeklyStats?.teamStats?.[teamId],
+        categories,
+        format: scoringFormat,
+      }));
+    } catch (err) {
+      console.error('[DailyLineup] Lineup optimization failed:', err);
+      setPlanError('Could not build a recommended lineup');
+    } finally {
+      setPlanLoading(false);
+    }
+  };
 
   // Fetch week meta map and set up day tabs
   useEffect(() => {
@@ -53,7 +102,7 @@ export const DailyLineup: React.FC<DailyLineupProps> = ({ teamId, week }) => {
       setWeekMeta(meta);
       if (meta && meta.scoringPeriodIds) {
         // Default to today if in this week, else first day
-        const today = new Date();
+        const today = await dataService.getReferenceDate();
         const weekStart = meta.startISO ? new Date(meta.startISO) : null;
         if (weekStart) {
           const diff = Math.floor((today.getTime() - weekStart.getTime()) / (1000 * 60 * 60 * 24));
@@ -85,14 +134,7 @@ export const DailyLineup: React.FC<DailyLineupProps> = ({ teamId, week }) => {
       }));
 
       // Get MLB players for the date
-      const mlbPlayersRaw = await mlbStatService.getMLBPlayersForDate(date);
-      const mlbPlayers: MLBPlayer[] = mlbPlayersRaw.map(p => ({
-        id: p.id,
-        fullName: p.fullName,
-        team: p.team,
-        position: p.position,
-        stats: p.stats
-      }));
+      const mlbPlayers = await mlbStatService.getMLBPlayersForDate(date);
 
       // Match players using fuzzy matching
       const matches = await playerMatcher.matchPlayers(espnPlayers, mlbPlayers);
@@ -101,54 +143,27 @@ export const DailyLineup: React.FC<DailyLineupProps> = ({ teamId, week }) => {
       const statsMap: Record<number, PlayerStats> = {};
       
       for (const match of matches) {
-        if (match.mlbPlayer && match.confidence >= 0.5) {
-          const stats = match.mlbPlayer.stats;
+        if (match.mlbPlayer?.components && match.confidence >= 0.5) {
+          // Summed over the day's games, both halves of a doubleheader included
+          const c = match.mlbPlayer.components;
           const playerId = match.espnPlayer.playerId;
-          
-          // Initialize stats
+          const ip = c.outs / 3;
+
           const playerStats: PlayerStats = {
-            runs: 0,
-            homeRuns: 0,
-            rbis: 0,
-            stolenBases: 0,
-            battingAverage: 0,
-            hits: 0,
-            atBats: 0,
-            strikeouts: 0,
-            wins: 0,
-            saves: 0,
-            era: 0,
-            whip: 0
+            runs: c.runs,
+            homeRuns: c.homeRuns,
+            rbis: c.rbis,
+            stolenBases: c.stolenBases,
+            battingAverage: c.atBats > 0 ? c.hits / c.atBats : 0,
+            hits: c.hits,
+            atBats: c.atBats,
+            strikeouts: c.strikeouts,
+            wins: c.wins,
+            saves: c.saves,
+            era: calculateERA(c.earnedRuns, ip),
+            whip: calculateWHIP(c.walksAllowed, c.hitsAllowed, ip)
           };
 
-          // Add batting stats
-          if (stats && stats.batting) {
-            playerStats.runs = Number(stats.batting.runs || 0);
-            playerStats.homeRuns = Number(stats.batting.homeRuns || 0);
-            playerStats.rbis = Number(stats.batting.rbi || 0);
-            playerStats.stolenBases = Number(stats.batting.stolenBases || 0);
-            const atBats = Number(stats.batting.atBats || 0);
-            const hits = Number(stats.batting.hits || 0);
-            playerStats.hits = hits;
-            playerStats.atBats = atBats;
-            playerStats.battingAverage = atBats > 0 ? hits / atBats : 0;
-          }
-
-          // Add pitching stats
-          if (stats && stats.pitching) {
-            playerStats.strikeouts = Number(stats.pitching.strikeOuts || 0);
-            playerStats.wins = Number(stats.pitching.wins || 0);
-            playerStats.saves = Number(stats.pitching.saves || 0);
-            
-            const ip = Number(stats.pitching.inningsPitched || 0);
-            const er = Number(stats.pitching.earnedRuns || 0);
-            const h = Number(stats.pitching.hits || 0);
-            const bb = Number(stats.pitching.baseOnBalls || 0);
-            
-            playerStats.era = ip > 0 ? (er * 9) / ip : 0;
-            playerStats.whip = ip > 0 ? (h + bb) / ip : 0;
-          }
-
           statsMap[playerId] = playerStats;
         }
       }
@@ -185,6 +200,14 @@ export const DailyLineup: React.FC<DailyLineupProps> = ({ teamId, week }) => {
         }));
         setLineup(transformedRoster);
 
+        // Badges only; a failed audit leaves the lineup as is
+        lineupAuditService.auditDay(teamId, week, selectedDayIdx)
+          .then(audit => setAlerts(Object.fromEntries((audit?.alerts ?? []).map(a => [a.playerId, a]))))
+          .catch(err => {
+            console.warn('[DailyLineup] Lineup audit failed:', err);
+            setAlerts({});
+          });
+
         // Calculate the date for this day
         if (weekMeta.startISO) {
           const startDate = new Date(weekMeta.startISO);
@@ -199,6 +222,7 @@ export const DailyLineup: React.FC<DailyLineupProps> = ({ teamId, week }) => {
         setError('Failed to load lineup. The team roster might be unavailable for this day.');
         setLineup([]);
         setPlayerStats({});
+        setAlerts({});
         console.error('Lineup fetch error:', err);
       } finally {
         setIsLoading(false);
@@ -233,11 +257,81 @@ export const DailyLineup: React.FC<DailyLineupProps> = ({ teamId, week }) => {
     );
   };
 
-  const activeStarters = lineup.filter(p => 
-    p.lineupSlotId !== BENCH_SLOT_ID && 
-    p.lineupSlotId !== IL_SLOT_ID && 
-    p.status === 'ACTIVE'
-  );
+  const selectedDate = (() => {
+    if (!weekMeta?.startISO) return null;
+    const d = new Date(weekMeta.startISO);
+    d.setUTCDate(d.getUTCDate() + selectedDayIdx);
+    return d.toISOString().slice(0, 10);
+  })();
+
+  const slotLabel = (slotId: number) => LINEUP_SLOT_LABELS[slotId] ?? `Slot ${slotId}`;
+
+  const AlertBadge = ({ alert }: { alert?: LineupAlert }) => {
+    if (!alert) return null;
+    const [label, style] = alert.kind === 'noGame'
+      ? ['No game', 'bg-amber-100 text-amber-800']
+      : alert.kind === 'injuredStarter'
+        ? [String(lineup.find(p => p.playerId === alert.playerId)?.status ?? 'OUT').replace(/_/g, ' '), 'bg-red-100 text-red-700']
+        : ['Has game', 'bg-green-100 text-green-700'];
+    return <span className={`text-[10px] font-semibold px-1 rounded ${style}`} title={alert.message}>{label}</span>;
+  };
+
+  const renderPitchingLimits = () => {
+    if (!pitchingLimits) return null;
+    const { limits } = pitchingLimits;
+    const shown = pitchingLimits.alerts.filter(a => a.kind !== 'wastedStarts' || a.date === selectedDate);
+    return (
+      <div className="mb-4 rounded border border-gray-200 p-3 text-sm">
+        <p className="font-medium">
+          {limits.gamesStarted !== undefined && <span className="mr-4">GS {pitchingLimits.startsUsed} / {limits.gamesStarted}</span>}
+          {limits.innings !== undefined && <span className="mr-4">IP {pitchingLimits.inningsUsed.toFixed(1)} / {limits.innings}</span>}
+          <span className="text-xs text-gray-500 font-normal">{pitchingLimits.upcomingStarts.length} announced starts to come</span>
+        </p>
+        {shown.map(alert => (
+          <p
+            key={`${alert.kind}-${alert.limit}-${alert.date ?? ''}`}
+            className={alert.kind === 'wastedStarts' ? 'text-red-600' : alert.kind === 'capReached' ? 'text-amber-700' : 'text-gray-600'}
+          >
+            {alert.message}
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  const renderPlan = () => {
+    if (planLoading) return <p className="text-sm text-gray-500">Optimizing lineup...</p>;
+    if (planError) return <p className="text-sm text-red-500">{planError}</p>;
+    if (!plan) return null;
+
+    const day = plan.days.find(d => d.date === selectedDate);
+    if (!day) return <p className="text-sm text-gray-500">Lineups for this day are already locked.</p>;
+    if (day.moves.length === 0) return <p className="text-sm text-green-700">ESPN's lineup is already the best one for this day.</p>;
+
+    const notes = new Map(day.candidates.map(c => [c.playerId, c.note]));
+    return (
+      <div>
+        <p className="text-sm font-medium mb-1">
+          Recommended changes
+          <span className="text-xs text-gray-500 font-normal ml-2" title="Weighted change to the expected week line, close categories counting most">
+            projected gain +{(day.recommendedValue - day.currentValue).toFixed(3)}
+          </span>
+        </p>
+        <ul className="text-sm space-y-0.5">
+          {day.moves.map(move => (
+            <li key={move.playerId} className="flex items-center gap-2">
+              <span className="font-medium">{move.name}</span>
+              <span className="text-gray-600">{slotLabel(move.fromSlotId)} → {slotLabel(move.toSlotId)}</span>
+              {notes.get(move.playerId) && <span className="text-xs text-gray-400">{notes.get(move.playerId)}</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  // Same starter rule as the weekly aggregation: the slot decides, not injury status
+  const activeStarters = lineup.filter(p => isStarterSlot(p.lineupSlotId));
   const benchAndIL = lineup.filter(p => !activeStarters.some(s => s.playerId === p.playerId))
     .sort((a, b) => a.player.fullName.localeCompare(b.player.fullName));
   const starterBatters = activeStarters.filter(p => !isPitcher(p));
@@ -258,6 +352,7 @@ export const DailyLineup: React.FC<DailyLineupProps> = ({ teamId, week }) => {
             <span className="text-xs text-gray-500 bg-gray-100 px-1 py-0.5 rounded text-center min-w-[24px]">
               {displayPosition}
             </span>
+            <AlertBadge alert={alerts[player.playerId]} />
           </div>
         </div>
         
@@ -345,13 +440,23 @@ export const DailyLineup: React.FC<DailyLineupProps> = ({ teamId, week }) => {
   return (
     <Card className="bg-white border border-[#8c8c8c] shadow-sm mt-6">
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Users size={20} />
-          Daily Lineup
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Users size={20} />
+            Daily Lineup
+          </span>
+          {teamId && (
+            <Button variant="outline" size="sm" onClick={optimize} disabled={planLoading}>
+              <Wand2 className="h-4 w-4 mr-1" />
+              Optimize
+            </Button>
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent>
         {renderDayTabs()}
+        {renderPitchingLimits()}
+        {(plan || planLoading || planError) && <div className="mb-4 rounded border border-gray-200 bg-gray-50 p-3">{renderPlan()}</div>}
         {!teamId ? (
           <p className="text-center text-gray-500">Select a team to view their lineup.</p>
         ) : isLoading ? (
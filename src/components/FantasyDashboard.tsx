@@ -7,11 +7,29 @@ import { ChevronLeft, ChevronRight, TrendingUp, Trophy, Calendar, HelpCircle, Ar
 import { dataService } from '../services/dataService';
 import { WeekMeta } from '../utils/weekUtils';
 import { DailyLineup } from './DailyLineup';
+import { MatchReview } from './MatchReview';
+import { StartPlanner } from './StartPlanner';
+import { LineupAlerts } from './LineupAlerts';
+import { Advisor } from './Advisor';
 import { weeklyEstimateService, WeeklyEstimate } from '../services/weeklyEstimateService';
+import { formatProbability, matchupSimulator, MatchupSimulation } from '../services/matchupSimulator';
 import { useDataContext } from '../context/DataContext';
+import { compareCategory, formatCategoryValue, TeamStatLine } from '../services/categoryRegistry';
+import { getScoringEngine } from '../utils/scoringEngines';
 
 type ApiStatus = 'unknown' | 'good' | 'bad';
 
+// The standings fields the table shows, for any scoring format
+interface StandingsRecord {
+  wins?: number;
+  losses?: number;
+  ties?: number;
+  winPercentage?: number;
+  pointsFor?: number;
+  rotoPoints?: number;
+  rotoRank?: number;
+}
+
 const InitialSetup = ({ onSetupComplete }: { onSetupComplete: () => void }) => {
   const [espnS2, setEspnS2] = useState('');
   const [swid, setSwid] = useState('');
@@ -286,20 +304,23 @@ export const FantasyDashboard = () => {
     isWeekLoading,
     error,
     loadWeek,
+    categories,
+    scoringFormat,
   } = useDataContext();
 
   const [selectedTeam, setSelectedTeam] = useState<number | null>(null);
   const [lastStandingsUpdate, setLastStandingsUpdate] = useState<Date | null>(null);
-  const [activeTab, setActiveTab] = useState<'stats' | 'lineup' | 'ai-daddy' | 'matchup'>('stats');
+  const [activeTab, setActiveTab] = useState<'stats' | 'lineup' | 'ai-daddy' | 'matchup' | 'planner' | 'review'>('stats');
   // State for team-specific weekly estimate
   const [teamEstimate, setTeamEstimate] = useState<WeeklyEstimate | null>(null);
   const [isEstimateLoading, setIsEstimateLoading] = useState<boolean>(false);
 
   // Matchup state
   const [opponentTeamId, setOpponentTeamId] = useState<number | null>(null);
-  const [opponentStats, setOpponentStats] = useState<any | null>(null);
-  const [opponentEstimate, setOpponentEstimate] = useState<any | null>(null);
+  const [opponentStats, setOpponentStats] = useState<TeamStatLine | null>(null);
+  const [opponentEstimate, setOpponentEstimate] = useState<WeeklyEstimate | null>(null);
   const [isMatchupLoading, setIsMatchupLoading] = useState<boolean>(false);
+  const [simulation, setSimulation] = useState<MatchupSimulation | null>(null);
 
   useEffect(() => {
     const loadMatchup = async () => {
@@ -307,7 +328,7 @@ export const FantasyDashboard = () => {
       if (!selectedTeam) return;
       try {
         const matchups = await dataService.getMatchups(currentWeek);
-        const matchup = matchups.find((m:any) => m.homeTeamId === selectedTeam || m.awayTeamId === selectedTeam);
+        const matchup = matchups.find(m => m.homeTeamId === selectedTeam || m.awayTeamId === selectedTeam);
         if (!matchup) return;
         const oppId = matchup.homeTeamId === selectedTeam ? matchup.awayTeamId : matchup.homeTeamId;
         setOpponentTeamId(oppId);
@@ -316,8 +337,8 @@ export const FantasyDashboard = () => {
           setOpponentStats(weeklyStats.teamStats[oppId]);
         }
 
-        const weeksHistory = Array.from({length:4},(_,i)=>currentWeek-(i+1)).filter(w=>w>0);
-        const est = await dataService.getExpectedStats(oppId, weeksHistory);
+        // Banked stats plus projections over the games left this week
+        const est = await weeklyEstimateService.getTeamWeeklyEstimate(oppId, currentWeek, weeklyStats?.teamStats?.[oppId]);
         setOpponentEstimate(est);
       } catch(err){
         console.error('Failed to load matchup info', err);
@@ -328,19 +349,19 @@ export const FantasyDashboard = () => {
     loadMatchup();
   }, [selectedTeam, currentWeek, weeklyStats]);
 
-  // Define scoring categories
-  const scoringCategories = [
-    { key: 'runs', name: 'R', type: 'batting' },
-    { key: 'homeRuns', name: 'HR', type: 'batting' },
-    { key: 'rbis', name: 'RBI', type: 'batting' },
-    { key: 'stolenBases', name: 'SB', type: 'batting' },
-    { key: 'battingAverage', name: 'AVG', type: 'batting' },
-    { key: 'strikeouts', name: 'K', type: 'pitching' },
-    { key: 'wins', name: 'W', type: 'pitching' },
-    { key: 'saves', name: 'SV', type: 'pitching' },
-    { key: 'era', name: 'ERA', type: 'pitching' },
-    { key: 'whip', name: 'WHIP', type: 'pitching' }
-  ];
+  // Win probabilities; re-run whenever the week's banked stats reload
+  useEffect(() => {
+    setSimulation(null);
+    if (!selectedTeam || !opponentTeamId || !weeklyStats) return;
+    let cancelled = false;
+    matchupSimulator.simulateWeek(selectedTeam, opponentTeamId, currentWeek, weeklyStats, categories, scoringFormat)
+      .then(result => { if (!cancelled) setSimulation(result); })
+      .catch(err => console.error('Failed to simulate matchup', err));
+    return () => { cancelled = true; };
+  }, [selectedTeam, opponentTeamId, currentWeek, weeklyStats, categories, scoringFormat]);
+
+  // League categories from ESPN scoring settings
+  const scoringCategories = categories;
 
   useEffect(() => {
     // console.log('LEAGUE INFO FROM CONTEXT:', leagueInfo);
@@ -355,17 +376,17 @@ export const FantasyDashboard = () => {
     }
   }, [currentWeek]);
 
-  // Fetch team-specific weekly estimate whenever team or week changes
+  // Fetch team-specific weekly estimate whenever team, week or the week's stats change
   useEffect(() => {
     const fetchEstimate = async () => {
-      if (!selectedTeam) {
+      // Wait for the week's banked stats so they aren't left out of the total
+      if (!selectedTeam || !weeklyStats) {
         setTeamEstimate(null);
         return;
       }
       setIsEstimateLoading(true);
       try {
-        const weeksHistory = Array.from({length:4}, (_,i)=>currentWeek-(i+1)).filter(w=>w>0);
-        const est = await dataService.getExpectedStats(selectedTeam, weeksHistory);
+        const est = await weeklyEstimateService.getTeamWeeklyEstimate(selectedTeam, currentWeek, weeklyStats?.teamStats?.[selectedTeam]);
         setTeamEstimate(est);
       } catch (err) {
         console.error('Failed to fetch weekly estimate:', err);
@@ -375,7 +396,7 @@ export const FantasyDashboard = () => {
       }
     };
     fetchEstimate();
-  }, [selectedTeam, currentWeek]);
+  }, [selectedTeam, currentWeek, weeklyStats]);
 
   // Auto-select first team when standings are loaded
   useEffect(() => {
@@ -465,20 +486,27 @@ export const FantasyDashboard = () => {
     weeklyStats.teamStats[selectedTeam] : 
     null;
   const selectedTeamData = standings.find(team => (team.id || team.teamId) === selectedTeam);
+  const opponentTeamData = standings.find(team => (team.id || team.teamId) === opponentTeamId);
   // Choose which estimate data to display (team specific first, fallback to context)
   const displayEstimate = teamEstimate || weeklyEstimate;
   const availableWeeks = Object.keys(weekMetaMap).map(Number).sort((a, b) => a - b);
 
-  const computeRecord = (teamVals:any, oppVals:any) => {
-    let wins=0, losses=0, ties=0;
-    scoringCategories.forEach(cat=>{
-      const t = teamVals?.[cat.key] ?? 0;
-      const o = oppVals?.[cat.key] ?? 0;
-      if(t===o){ties++;return;}
-      const teamBetter = (['era','whip'].includes(cat.key)) ? (t < o) : (t > o);
-      if(teamBetter) wins++; else losses++;
-    });
-    return `${wins}-${losses}-${ties}`;
+  const scoringEngine = getScoringEngine(scoringFormat);
+  const computeRecord = (teamVals:any, oppVals:any) =>
+    scoringEngine.scoreMatchup(teamVals ?? {}, oppVals ?? {}, scoringCategories).summary;
+
+  // Roto leagues rank by roto points; everything else by win percentage
+  const isRoto = scoringFormat === 'ROTO';
+  const compareStandings = (a: StandingsRecord, b: StandingsRecord) => isRoto
+    ? (b.rotoPoints || 0) - (a.rotoPoints || 0)
+    : (b.winPercentage || 0) - (a.winPercentage || 0);
+  const standingsPrimary = (team: StandingsRecord) => isRoto
+    ? `${(team.rotoPoints || 0).toFixed(1)} pts`
+    : `${team.wins || 0}-${team.losses || 0}${team.ties ? `-${team.ties}` : ''}`;
+  const standingsSecondary = (team: StandingsRecord) => {
+    if (isRoto) return team.rotoRank ? `Rank ${team.rotoRank}` : '';
+    if (scoringEngine.isPoints) return `${(team.pointsFor || 0).toFixed(1)} PF`;
+    return (team.winPercentage || 0).toFixed(3);
   };
 
   const currentRecord = opponentStats && currentWeekStats ? computeRecord(currentWeekStats, opponentStats) : null;
@@ -507,6 +535,12 @@ export const FantasyDashboard = () => {
               <h2 className="text-xl font-bold">
                 {weekMetaMap[currentWeek]?.label || `Week ${currentWeek}`}
               </h2>
+              {simulation && opponentTeamData && (
+                <p className="text-sm text-gray-600 mt-0.5" title={`${simulation.simulations} simulated weeks`}>
+                  {selectedTeamData?.abbrev || selectedTeamData?.name} {formatProbability(simulation.matchup.win)} to beat {opponentTeamData.abbrev || opponentTeamData.name}
+                  {simulation.matchup.tie > 0.005 && <span className="text-gray-400"> · {formatProbability(simulation.matchup.tie)} tie</span>}
+                </p>
+              )}
             </div>
             
             <Button
@@ -543,7 +577,7 @@ export const FantasyDashboard = () => {
               <div className="space-y-1">
                 {standings
                   .filter(team => team.divisionId === 0 || team.divisionId === undefined) // Include undefined for fallback
-                  .sort((a, b) => (b.winPercentage || 0) - (a.winPercentage || 0))
+                  .sort(compareStandings)
                   .map((team, index) => {
                     const teamId = team.id || team.teamId;
                     const teamName = team.name || team.teamName || `Team ${teamId}`;
@@ -565,8 +599,8 @@ export const FantasyDashboard = () => {
                           </div>
                         </div>
                         <div className="text-right flex-shrink-0">
-                          <p className="font-bold text-sm">{team.wins || 0}-{team.losses || 0}{team.ties ? `-${team.ties}` : ''}</p>
-                          <p className="text-xs text-gray-600">{(team.winPercentage || 0).toFixed(3)}</p>
+                          <p className="font-bold text-sm">{standingsPrimary(team)}</p>
+                          <p className="text-xs text-gray-600">{standingsSecondary(team)}</p>
                         </div>
                       </div>
                     );
@@ -580,7 +614,7 @@ export const FantasyDashboard = () => {
               <div className="space-y-1">
                 {standings
                   .filter(team => team.divisionId === 1)
-                  .sort((a, b) => (b.winPercentage || 0) - (a.winPercentage || 0))
+                  .sort(compareStandings)
                   .map((team, index) => {
                     const teamId = team.id || team.teamId;
                     const teamName = team.name || team.teamName || `Team ${teamId}`;
@@ -602,8 +636,8 @@ export const FantasyDashboard = () => {
                           </div>
                         </div>
                         <div className="text-right flex-shrink-0">
-                          <p className="font-bold text-sm">{team.wins || 0}-{team.losses || 0}{team.ties ? `-${team.ties}` : ''}</p>
-                          <p className="text-xs text-gray-600">{(team.winPercentage || 0).toFixed(3)}</p>
+                          <p className="font-bold text-sm">{standingsPrimary(team)}</p>
+                          <p className="text-xs text-gray-600">{standingsSecondary(team)}</p>
                         </div>
                       </div>
                     );
@@ -617,6 +651,10 @@ export const FantasyDashboard = () => {
         </CardContent>
       </Card>
 
+      {selectedTeam && (
+        <LineupAlerts teamId={selectedTeam} week={currentWeek} onOpenLineup={() => setActiveTab('lineup')} />
+      )}
+
               {/* Tabs */}
         <div className="flex border-b border-gray-200 mt-8">
           <Button
@@ -640,6 +678,13 @@ export const FantasyDashboard = () => {
           >
             Lineup
           </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setActiveTab('planner')}
+            className={`flex-1 rounded-none text-lg hover:text-blue-600 ${activeTab === 'planner' ? 'border-b-2 border-blue-500 font-bold text-blue-600' : ''}`}
+          >
+            Starters
+          </Button>
           <Button
             variant="ghost"
             onClick={() => setActiveTab('ai-daddy')}
@@ -647,6 +692,13 @@ export const FantasyDashboard = () => {
           >
             AI Daddy
           </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setActiveTab('review')}
+            className={`flex-1 rounded-none text-lg hover:text-blue-600 ${activeTab === 'review' ? 'border-b-2 border-blue-500 font-bold text-blue-600' : ''}`}
+          >
+            Match Review
+          </Button>
         </div>
 
         <div>
@@ -676,14 +728,9 @@ export const FantasyDashboard = () => {
                           <div className="space-y-2">
                             {scoringCategories.filter(cat => cat.type === 'batting').map(category => (
                               <div key={category.key} className="flex justify-between items-center p-2 bg-gray-50 rounded">
-                                <span className="text-sm">{category.name}</span>
+                                <span className="text-sm">{category.abbrev}</span>
                                 <span className="font-medium">
-                                  {currentWeekStats ? 
-                                    (category.key === 'battingAverage' ? 
-                                      currentWeekStats[category.key]?.toFixed(3) || '0.000' : 
-                                      currentWeekStats[category.key] || 0
-                                    ) : '-'
-                                  }
+                                  {currentWeekStats ? formatCategoryValue(category, currentWeekStats[category.key]) : '-'}
                                 </span>
                               </div>
                             ))}
@@ -694,14 +741,9 @@ export const FantasyDashboard = () => {
                           <div className="space-y-2">
                             {scoringCategories.filter(cat => cat.type === 'pitching').map(category => (
                               <div key={category.key} className="flex justify-between items-center p-2 bg-gray-50 rounded">
-                                <span className="text-sm">{category.name}</span>
+                                <span className="text-sm">{category.abbrev}</span>
                                 <span className="font-medium">
-                                  {currentWeekStats ? 
-                                    (category.key === 'era' || category.key === 'whip' ? 
-                                      currentWeekStats[category.key]?.toFixed(2) || '0.00' : 
-                                      currentWeekStats[category.key] || 0
-                                    ) : '-'
-                                  }
+                                  {currentWeekStats ? formatCategoryValue(category, currentWeekStats[category.key]) : '-'}
                                 </span>
                               </div>
                             ))}
@@ -739,13 +781,9 @@ export const FantasyDashboard = () => {
                           <div className="space-y-2">
                             {scoringCategories.filter(cat => cat.type === 'batting').map(category => (
                               <div key={category.key} className="flex justify-between items-center p-2 bg-gray-100 rounded">
-                                <span className="text-sm">{category.name}</span>
+                                <span className="text-sm">{category.abbrev}</span>
                                 <span className="font-medium">
-                                  {displayEstimate ? (
-                                    category.key === 'battingAverage' ? 
-                                      Number(displayEstimate[category.key as keyof WeeklyEstimate] ?? 0).toFixed(3) : 
-                                      displayEstimate[category.key as keyof WeeklyEstimate] || 0
-                                  ) : '-'}
+                                  {displayEstimate ? formatCategoryValue(category, displayEstimate[category.key]) : '-'}
                                 </span>
                               </div>
                             ))}
@@ -756,13 +794,9 @@ export const FantasyDashboard = () => {
                           <div className="space-y-2">
                             {scoringCategories.filter(cat => cat.type === 'pitching').map(category => (
                               <div key={category.key} className="flex justify-between items-center p-2 bg-gray-100 rounded">
-                                <span className="text-sm">{category.name}</span>
+                                <span className="text-sm">{category.abbrev}</span>
                                 <span className="font-medium">
-                                  {displayEstimate ? (
-                                    category.key === 'era' || category.key === 'whip' ? 
-                                      Number(displayEstimate[category.key as keyof WeeklyEstimate] ?? 0).toFixed(2) : 
-                                      displayEstimate[category.key as keyof WeeklyEstimate] || 0
-                                  ) : '-'}
+                                  {displayEstimate ? formatCategoryValue(category, displayEstimate[category.key]) : '-'}
                                 </span>
                               </div>
                             ))}
@@ -791,6 +825,7 @@ export const FantasyDashboard = () => {
               <DailyLineup 
                 teamId={selectedTeam} 
                 week={currentWeek}
+                simulation={simulation}
               />
             ) : (
               <Card className="bg-white border border-[#8c8c8c] shadow-sm mt-6">
@@ -805,19 +840,41 @@ export const FantasyDashboard = () => {
         )}
 
         {activeTab === 'ai-daddy' && (
-          <>
-            {/* AI Daddy - Placeholder */}
+          selectedTeam ? (
+            <Advisor
+              teamId={selectedTeam}
+              opponentTeamId={opponentTeamId}
+              week={currentWeek}
+              simulation={simulation}
+              onNavigate={setActiveTab}
+            />
+          ) : (
             <Card className="bg-white border border-[#8c8c8c] shadow-sm mt-6">
-              <CardHeader>
-                <CardTitle>AI Daddy</CardTitle>
-              </CardHeader>
               <CardContent>
                 <div className="text-center py-12 text-gray-500">
-                  <p>AI Daddy features coming soon...</p>
+                  <p>Select a team to get recommendations</p>
                 </div>
               </CardContent>
             </Card>
-          </>
+          )
+        )}
+
+        {activeTab === 'planner' && (
+          selectedTeam ? (
+            <StartPlanner teamId={selectedTeam} />
+          ) : (
+            <Card className="bg-white border border-[#8c8c8c] shadow-sm mt-6">
+              <CardContent>
+                <div className="text-center py-12 text-gray-500">
+                  <p>Select a team to plan probable starters</p>
+                </div>
+              </CardContent>
+            </Card>
+          )
+        )}
+
+        {activeTab === 'review' && (
+          <MatchReview week={currentWeek} />
         )}
 
         {activeTab === 'matchup' && (
@@ -838,22 +895,20 @@ export const FantasyDashboard = () => {
                     <div className={`grid text-sm`} style={{gridTemplateColumns:`120px repeat(${scoringCategories.length},minmax(0,1fr))`}}>
                       {/* header row */}
                       <span></span>
-                      {scoringCategories.map(cat=>(<span key={cat.key} className="font-semibold text-center">{cat.name}</span>))}
+                      {scoringCategories.map(cat=>(<span key={cat.key} className="font-semibold text-center">{cat.abbrev}</span>))}
                       {/* your team row */}
                       <span className="font-bold">{selectedTeamData?.abbrev || selectedTeamData?.name || 'Your Team'}</span>
                       {scoringCategories.map(cat=>{
                         const valTeam=currentWeekStats[cat.key]??0;
-                        const valOpp=opponentStats[cat.key]??0;
-                        const better=(['era','whip'].includes(cat.key))? (valTeam<valOpp):(valTeam>valOpp);
-                        return <span key={cat.key} className={`text-center ${better?'font-bold text-green-600':''}`}>{typeof valTeam==='number'?valTeam.toFixed(cat.key==='battingAverage'?3:2):valTeam}</span>
+                        const better=compareCategory(cat, valTeam, opponentStats[cat.key]??0)==='team1';
+                        return <span key={cat.key} className={`text-center ${better?'font-bold text-green-600':''}`}>{formatCategoryValue(cat, valTeam)}</span>
                       })}
                       {/* opponent row */}
                       <span className="font-bold">{standings.find(t=>(t.id||t.teamId)===opponentTeamId)?.abbrev || standings.find(t=>(t.id||t.teamId)===opponentTeamId)?.name || 'Opponent'}</span>
                       {scoringCategories.map(cat=>{
-                        const valTeam=currentWeekStats[cat.key]??0;
                         const valOpp=opponentStats[cat.key]??0;
-                        const betterOpp=(['era','whip'].includes(cat.key))? (valOpp<valTeam):(valOpp>valTeam);
-                        return <span key={cat.key} className={`text-center ${betterOpp?'font-bold text-green-600':''}`}>{typeof valOpp==='number'?valOpp.toFixed(cat.key==='battingAverage'?3:2):valOpp}</span>
+                        const betterOpp=compareCategory(cat, currentWeekStats[cat.key]??0, valOpp)==='team2';
+                        return <span key={cat.key} className={`text-center ${betterOpp?'font-bold text-green-600':''}`}>{formatCategoryValue(cat, valOpp)}</span>
                       })}
                     </div>
                   ) : (
@@ -876,20 +931,18 @@ export const FantasyDashboard = () => {
                   ) : opponentEstimate && displayEstimate ? (
                     <div className={`grid text-sm`} style={{gridTemplateColumns:`120px repeat(${scoringCategories.length},minmax(0,1fr))`}}>
                       <span></span>
-                      {scoringCategories.map(cat=>(<span key={cat.key} className="font-semibold text-center">{cat.name}</span>))}
+                      {scoringCategories.map(cat=>(<span key={cat.key} className="font-semibold text-center">{cat.abbrev}</span>))}
                       <span className="font-bold">{selectedTeamData?.abbrev || selectedTeamData?.name || 'Your Team'}</span>
                       {scoringCategories.map(cat=>{
-                        const valTeam=displayEstimate[cat.key as keyof typeof displayEstimate]??0;
-                        const valOpp=opponentEstimate[cat.key]??0;
-                        const better=(['era','whip'].includes(cat.key))? (valTeam<valOpp):(valTeam>valOpp);
-                        return <span key={cat.key} className={`text-center ${better?'font-bold text-green-600':''}`}>{typeof valTeam==='number'?valTeam.toFixed(cat.key==='battingAverage'?3:2):valTeam}</span>
+                        const valTeam=displayEstimate[cat.key]??0;
+                        const better=compareCategory(cat, valTeam, opponentEstimate[cat.key]??0)==='team1';
+                        return <span key={cat.key} className={`text-center ${better?'font-bold text-green-600':''}`}>{formatCategoryValue(cat, valTeam)}</span>
                       })}
                       <span className="font-bold">{standings.find(t=>(t.id||t.teamId)===opponentTeamId)?.abbrev || standings.find(t=>(t.id||t.teamId)===opponentTeamId)?.name || 'Opponent'}</span>
                       {scoringCategories.map(cat=>{
-                        const valTeam=displayEstimate[cat.key as keyof typeof displayEstimate]??0;
                         const valOpp=opponentEstimate[cat.key]??0;
-                        const betterOpp=(['era','whip'].includes(cat.key))? (valOpp<valTeam):(valOpp>valTeam);
-                        return <span key={cat.key} className={`text-center ${betterOpp?'font-bold text-green-600':''}`}>{typeof valOpp==='number'?valOpp.toFixed(cat.key==='battingAverage'?3:2):valOpp}</span>
+                        const betterOpp=compareCategory(cat, displayEstimate[cat.key]??0, valOpp)==='team2';
+                        return <span key={cat.key} className={`text-center ${betterOpp?'font-bold text-green-600':''}`}>{formatCategoryValue(cat, valOpp)}</span>
                       })}
                     </div>
                   ) : (
@@ -0,0 +1,134 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { AlertTriangle, CheckCircle2, RefreshCw } from 'lucide-react';
+import { useDataContext } from '../context/DataContext';
+import { DayLineupAudit, LineupAlertKind, lineupAuditService } from '../services/lineupAudit';
+import { PitchingLimitStatus, pitchingLimitService } from '../services/pitchingLimitService';
+
+interface LineupAlertsProps {
+  teamId: number;
+  week: number;
+  // Opens the Lineup tab to fix what's flagged
+  onOpenLineup: () => void;
+}
+
+const KIND_LABELS: Record<LineupAlertKind, string> = {
+  injuredStarter: 'injured starters',
+  noGame: 'starters without a game',
+  benchedWithGame: 'benched players with a game',
+};
+
+const KIND_STYLES: Record<LineupAlertKind, string> = {
+  injuredStarter: 'text-red-700',
+  noGame: 'text-amber-700',
+  benchedWithGame: 'text-green-700',
+};
+
+const formatDay = (date: string) =>
+  new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', month: 'numeric', day: 'numeric', timeZone: 'UTC' });
+
+export const LineupAlerts = ({ teamId, week, onOpenLineup }: LineupAlertsProps) => {
+  const { weeklyStats } = useDataContext();
+  const [audits, setAudits] = useState<DayLineupAudit[]>([]);
+  const [pitchingLimits, setPitchingLimits] = useState<PitchingLimitStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setAudits(await lineupAuditService.auditWeek(teamId, week));
+      setPitchingLimits(await pitchingLimitService.getStatus(teamId, week, { aggregation: weeklyStats }).catch(err => {
+        console.warn('[LineupAlerts] Pitching limits unavailable', err);
+        return null;
+      }));
+    } catch (err) {
+      console.error('[LineupAlerts] Failed to audit lineup', err);
+      setError('Failed to check the lineup');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (week > 0) load();
+  }, [teamId, week, weeklyStats]);
+
+  const alerts = audits.flatMap(a => a.alerts);
+  // Room under a cap is a note, not a problem
+  const capWarnings = (pitchingLimits?.alerts ?? []).filter(a => a.kind !== 'capUnused');
+  const capNotes = (pitchingLimits?.alerts ?? []).filter(a => a.kind === 'capUnused');
+  const problems = alerts.length + capWarnings.length;
+  const counts = (Object.keys(KIND_LABELS) as LineupAlertKind[])
+    .map(kind => [kind, alerts.filter(a => a.kind === kind).length] as const)
+    .filter(([, n]) => n > 0);
+
+  return (
+    <Card className="bg-white border border-[#8c8c8c] shadow-sm mt-6">
+      <CardHeader>
+        <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            {problems > 0 ? <AlertTriangle size={20} className="text-amber-600" /> : <CheckCircle2 size={20} className="text-green-600" />}
+            Lineup Check
+          </span>
+          <div className="flex items-center gap-2">
+            {problems > 0 && <Button size="sm" onClick={onOpenLineup}>Fix lineup</Button>}
+            <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Checking lineups for the rest of the week...</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : audits.length === 0 ? (
+          <p className="text-sm text-gray-500">No days left to set in this matchup period.</p>
+        ) : (
+          <div className="space-y-3">
+            {problems === 0 && <p className="text-sm text-green-700">No lineup problems for the rest of the week.</p>}
+            {pitchingLimits && (
+              <div className="text-sm">
+                <span className="font-medium">Pitching caps: </span>
+                {pitchingLimits.limits.gamesStarted !== undefined && (
+                  <span className="mr-3">{pitchingLimits.startsUsed} of {pitchingLimits.limits.gamesStarted} GS used</span>
+                )}
+                {pitchingLimits.limits.innings !== undefined && (
+                  <span className="mr-3">{pitchingLimits.inningsUsed.toFixed(1)} of {pitchingLimits.limits.innings} IP used</span>
+                )}
+                <ul className="space-y-0.5">
+                  {[...capWarnings, ...capNotes].map(alert => (
+                    <li key={`${alert.kind}-${alert.limit}-${alert.date ?? ''}`} className={alert.kind === 'capUnused' ? 'text-gray-600' : 'text-red-700'}>
+                      {alert.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {counts.length > 0 && <p className="text-sm">
+              {counts.map(([kind, n], i) => (
+                <span key={kind} className={`font-medium ${KIND_STYLES[kind]}`}>
+                  {i > 0 && ' · '}{n} {KIND_LABELS[kind]}
+                </span>
+              ))}
+            </p>}
+            {audits.filter(a => a.alerts.length > 0).map(audit => (
+              <div key={audit.date}>
+                <h4 className="text-sm font-medium text-gray-700">{formatDay(audit.date)}</h4>
+                <ul className="text-sm space-y-0.5">
+                  {audit.alerts.map(alert => (
+                    <li key={`${alert.kind}-${alert.playerId}`} className={KIND_STYLES[alert.kind]}>{alert.message}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Loader2, RefreshCw, Search, X } from 'lucide-react';
+import { useDataContext } from '../context/DataContext';
+import { matchReviewService, MatchCandidate, MatchReviewItem } from '../services/matchReviewService';
+import { CrosswalkEntry } from '../types/fantasy';
+
+interface MatchReviewProps {
+  week: number;
+}
+
+const pct = (confidence: number) => `${(confidence * 100).toFixed(0)}%`;
+
+const CandidateRow = ({ candidate, current, onUse }: { candidate: MatchCandidate; current: boolean; onUse: () => void }) => (
+  <div className={`flex items-center justify-between gap-2 rounded px-2 py-1 text-sm ${current ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+    <div className="min-w-0">
+      <span className="font-medium">{candidate.fullName}</span>
+      <span className="text-gray-500 ml-2">{candidate.teamAbbrev}{candidate.position ? ` · ${candidate.position}` : ''} · #{candidate.mlbPlayerId}</span>
+      {candidate.warnings.length > 0 && (
+        <div className="text-xs text-amber-600 truncate">{candidate.warnings.join('; ')}</div>
+      )}
+    </div>
+    <div className="flex items-center gap-2 shrink-0">
+      <span className="text-xs text-gray-500">{pct(candidate.confidence)}</span>
+      <Button size="sm" variant={current ? 'default' : 'outline'} onClick={onUse}>
+        {current ? 'Confirm' : 'Use'}
+      </Button>
+    </div>
+  </div>
+);
+
+const ReviewCard = ({ item, teamName, onResolved }: { item: MatchReviewItem; teamName: string; onResolved: () => void }) => {
+  const [query, setQuery] = useState(item.playerName);
+  const [searchResults, setSearchResults] = useState<MatchCandidate[] | null>(null);
+  const [manualId, setManualId] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const use = async (mlbPlayerId: number) => {
+    if (!Number.isSafeInteger(mlbPlayerId) || mlbPlayerId <= 0) {
+      setError('MLB ids are positive whole numbers');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await matchReviewService.confirm(item, mlbPlayerId);
+      onResolved();
+    } catch (err) {
+      console.error('[MatchReview] Could not save the mapping', err);
+      setError(err instanceof Error ? err.message : 'Could not save the mapping');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const search = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setSearchResults(await matchReviewService.searchCandidates(item, query));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const candidates = searchResults ?? item.candidates;
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <div>
+          <span className="font-semibold">{item.playerName}</span>
+          <span className="text-sm text-gray-500 ml-2">
+            {[item.position, item.teamAbbrev].filter(Boolean).join(' · ')} · ESPN #{item.espnPlayerId} · {teamName}
+          </span>
+        </div>
+        <span className={`text-xs ${item.currentMlbPlayerId ? 'text-amber-600' : 'text-red-600'}`}>
+          {item.currentMlbPlayerId ? `${pct(item.currentConfidence)} – ${item.currentReason}` : item.currentReason}
+        </span>
+      </div>
+      <div className="text-xs text-gray-500">Started without a confident match on {item.dates.join(', ')}</div>
+
+      <div className="space-y-1">
+        {candidates.length === 0 ? (
+          <div className="text-sm text-gray-500 px-2">{searchResults ? 'No players found' : 'No MLB players with a similar name played on those days'}</div>
+        ) : (
+          candidates.map(c => (
+            <CandidateRow key={c.mlbPlayerId} candidate={c} current={c.mlbPlayerId === item.currentMlbPlayerId} onUse={() => use(c.mlbPlayerId)} />
+          ))
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 pt-1">
+        <Input value={query} onChange={e => setQuery(e.target.value)} className="h-8 w-48" placeholder="Search MLB players" />
+        <Button size="sm" variant="outline" onClick={search} disabled={busy || !query.trim()}>
+          <Search className="h-3 w-3 mr-1" /> Search
+        </Button>
+        <Input value={manualId} onChange={e => setManualId(e.target.value.replace(/\D/g, ''))} className="h-8 w-28" placeholder="MLB id" />
+        <Button size="sm" variant="outline" onClick={() => use(Number(manualId))} disabled={busy || !manualId}>
+          Set id
+        </Button>
+        {busy && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+        {error && <span className="text-xs text-red-600">{error}</span>}
+      </div>
+    </div>
+  );
+};
+
+export const MatchReview = ({ week }: MatchReviewProps) => {
+  const { teams } = useDataContext();
+  const [items, setItems] = useState<MatchReviewItem[]>([]);
+  const [overrides, setOverrides] = useState<CrosswalkEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const teamName = (teamId: number) => teams.find((t: { id: number }) => t.id === teamId)?.name || `Team ${teamId}`;
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [queue, manual] = await Promise.all([
+        matchReviewService.getReviewQueue(week),
+        matchReviewService.getOverrides(),
+      ]);
+      setItems(queue);
+      setOverrides(manual);
+    } catch (err) {
+      console.error('[MatchReview] Failed to load review queue', err);
+      setError('Failed to load the review queue');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (week > 0) load();
+  }, [week]);
+
+  // Re-aggregating picks the new mapping up, so resolving reloads the queue
+  const handleResolved = () => load();
+
+  const removeOverride = async (espnPlayerId: number) => {
+    await matchReviewService.removeOverride(espnPlayerId);
+    load();
+  };
+
+  return (
+    <div className="space-y-6 mt-6">
+      <Card className="bg-white border border-[#8c8c8c] shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Match Review – Week {week}</span>
+            <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-12">
+              <img src="/loading-ball.gif" alt="loading" className="h-16 w-16 mx-auto" />
+              <p className="text-sm text-gray-500 mt-2">Matching players...</p>
+            </div>
+          ) : error ? (
+            <div className="text-center py-12 text-red-600">{error}</div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">Every starter this week has a confident match.</div>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                {items.length} players were left out of the totals or matched with less than 80% confidence.
+                Pick the right MLB player and it will be used from the next calculation on.
+              </p>
+              {items.map(item => (
+                <ReviewCard key={item.espnPlayerId} item={item} teamName={teamName(item.teamId)} onResolved={handleResolved} />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {overrides.length > 0 && (
+        <Card className="bg-white border border-[#8c8c8c] shadow-sm">
+          <CardHeader>
+            <CardTitle>Manual Overrides</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-1">
+              {overrides.map(o => (
+                <div key={o.espnPlayerId} className="flex items-center justify-between text-sm px-2 py-1 hover:bg-gray-50 rounded">
+                  <span>
+                    <span className="font-medium">{o.fullName}</span>
+                    <span className="text-gray-500 ml-2">ESPN #{o.espnPlayerId} → MLB #{o.mlbPlayerId}</span>
+                  </span>
+                  <Button size="sm" variant="ghost" onClick={() => removeOverride(o.espnPlayerId)} title="Remove override">
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
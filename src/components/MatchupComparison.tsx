@@ -5,6 +5,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Button } from './ui/button';
 import { ChevronLeft, ChevronRight, TrendingUp, Loader2 } from 'lucide-react';
 import { dataService } from '../services/dataService';
+import { formatCategoryValue } from '../services/categoryRegistry';
+import { getScoringEngine } from '../utils/scoringEngines';
+import { useDataContext } from '../context/DataContext';
+import { ScoringCategory } from '../types/fantasy';
+import { reconciliationService, TeamReconciliation, WeekReconciliation } from '../services/reconciliationService';
+import { formatProbability, matchupSimulator, MatchupSimulation } from '../services/matchupSimulator';
 
 interface MatchupComparisonProps {
   selectedTeam?: number | null;
@@ -18,31 +24,35 @@ export const MatchupComparison = ({ selectedTeam: initialSelectedTeam }: Matchup
   const [weeklyStats, setWeeklyStats] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reconciliation, setReconciliation] = useState<WeekReconciliation | null>(null);
+  const [simulation, setSimulation] = useState<MatchupSimulation | null>(null);
 
-  // Define scoring categories
-  const scoringCategories = [
-    { key: 'runs', name: 'Runs', type: 'batting' },
-    { key: 'homeRuns', name: 'Home Runs', type: 'batting' },
-    { key: 'rbis', name: 'RBIs', type: 'batting' },
-    { key: 'stolenBases', name: 'Stolen Bases', type: 'batting' },
-    { key: 'battingAverage', name: 'Batting Average', type: 'batting' },
-    { key: 'hits', name: 'Hits', type: 'batting' },
-    { key: 'strikeouts', name: 'Strikeouts', type: 'pitching' },
-    { key: 'wins', name: 'Wins', type: 'pitching' },
-    { key: 'saves', name: 'Saves', type: 'pitching' },
-    { key: 'era', name: 'ERA', type: 'pitching' },
-    { key: 'whip', name: 'WHIP', type: 'pitching' },
-    { key: 'qualityStarts', name: 'Quality Starts', type: 'pitching' }
-  ];
+  // League categories from ESPN scoring settings
+  const { categories: scoringCategories, scoringFormat } = useDataContext();
+  const scoringEngine = getScoringEngine(scoringFormat);
 
   useEffect(() => {
     initializeComponent();
   }, []);
 
   useEffect(() => {
-    loadWeeklyData();
+    // A slow response for a week we've since left must not overwrite the new one
+    let cancelled = false;
+    loadWeeklyData(() => cancelled);
+    return () => { cancelled = true; };
   }, [selectedWeek]);
 
+  // Win probabilities from the banked stats plus simulated rest-of-week play
+  useEffect(() => {
+    setSimulation(null);
+    if (!weeklyStats || team1Id === team2Id) return;
+    let cancelled = false;
+    matchupSimulator.simulateWeek(team1Id, team2Id, selectedWeek, weeklyStats, scoringCategories, scoringFormat)
+      .then(result => { if (!cancelled) setSimulation(result); })
+      .catch(err => console.warn('Failed to simulate matchup:', err));
+    return () => { cancelled = true; };
+  }, [weeklyStats, team1Id, team2Id, scoringCategories, scoringFormat]);
+
   // Sync team1Id when selectedTeam prop changes
   useEffect(() => {
     if (initialSelectedTeam !== undefined && initialSelectedTeam !== null && initialSelectedTeam !== team1Id) {
@@ -73,13 +83,19 @@ export const MatchupComparison = ({ selectedTeam: initialSelectedTeam }: Matchup
     }
   };
 
-  const loadWeeklyData = async () => {
+  const loadWeeklyData = async (isStale: () => boolean) => {
+    setReconciliation(null);
     try {
       const stats = await dataService.getWeeklyStats(selectedWeek);
+      if (isStale()) return;
       setWeeklyStats(stats);
+      // Official ESPN values are best effort; the comparison works without them
+      reconciliationService.reconcileWeek(selectedWeek, stats)
+        .then(result => { if (!isStale()) setReconciliation(result); })
+        .catch(err => console.warn('Failed to reconcile against ESPN:', err));
     } catch (err) {
       console.warn('Failed to load weekly data:', err);
-      setWeeklyStats(null);
+      if (!isStale()) setWeeklyStats(null);
     }
   };
 
@@ -121,45 +137,39 @@ export const MatchupComparison = ({ selectedTeam: initialSelectedTeam }: Matchup
   const team2Stats = weeklyStats?.teamStats?.[team2Id] || {};
   const team1Data = teams.find(team => team.id === team1Id);
   const team2Data = teams.find(team => team.id === team2Id);
+  const outcome = scoringEngine.scoreMatchup(team1Stats, team2Stats, scoringCategories);
 
   const StatComparison = ({ category, team1Value, team2Value }: { 
-    category: any; 
+    category: ScoringCategory; 
     team1Value: number; 
     team2Value: number; 
   }) => {
-    // Determine winner (ERA and WHIP are inverse - lower is better)
-    const isInverse = category.key === 'era' || category.key === 'whip';
-    let team1Wins = false;
-    let team2Wins = false;
-    
-    if (team1Value !== team2Value) {
-      if (isInverse) {
-        team1Wins = team1Value < team2Value && team1Value > 0;
-        team2Wins = team2Value < team1Value && team2Value > 0;
-      } else {
-        team1Wins = team1Value > team2Value;
-        team2Wins = team2Value > team1Value;
-      }
-    }
+    // The engine decides each category: stat direction for category leagues,
+    // fantasy points earned for points leagues
+    const result = outcome.categoryResults[category.key];
+    const team1Wins = result === 'team1';
+    const team2Wins = result === 'team2';
+    const team1Points = outcome.team1Points?.[category.key];
+    const team2Points = outcome.team2Points?.[category.key];
+    const odds = simulation?.categories[category.key];
 
     return (
       <div className="grid grid-cols-3 gap-4 items-center p-3 bg-gray-50 rounded-lg">
         <div className={`text-center p-2 rounded ${team1Wins ? 'bg-green-100 text-green-700' : 'bg-white'}`}>
-          <span className="font-medium">
-            {category.key === 'battingAverage' || category.key === 'era' || category.key === 'whip' 
-              ? (team1Value || 0).toFixed(3) 
-              : (team1Value || 0)}
-          </span>
+          <span className="font-medium">{formatCategoryValue(category, team1Value)}</span>
+          {team1Points !== undefined && <span className="block text-xs text-gray-500">{team1Points.toFixed(1)} pts</span>}
         </div>
         <div className="text-center">
           <span className="text-sm font-medium text-gray-600">{category.name}</span>
+          {odds && (
+            <span className="block text-xs text-gray-500">
+              {formatProbability(odds.win)} · {formatProbability(odds.loss)}
+            </span>
+          )}
         </div>
         <div className={`text-center p-2 rounded ${team2Wins ? 'bg-green-100 text-green-700' : 'bg-white'}`}>
-          <span className="font-medium">
-            {category.key === 'battingAverage' || category.key === 'era' || category.key === 'whip' 
-              ? (team2Value || 0).toFixed(3) 
-              : (team2Value || 0)}
-          </span>
+          <span className="font-medium">{formatCategoryValue(category, team2Value)}</span>
+          {team2Points !== undefined && <span className="block text-xs text-gray-500">{team2Points.toFixed(1)} pts</span>}
         </div>
       </div>
     );
@@ -254,6 +264,14 @@ export const MatchupComparison = ({ selectedTeam: initialSelectedTeam }: Matchup
               </div>
               <div className="text-center">
                 <span className="text-sm font-medium text-gray-600">VS</span>
+                <p className="font-bold text-lg">{outcome.summary}</p>
+                {simulation && (
+                  <p className="text-sm text-gray-700" title={`${simulation.simulations} simulated weeks`}>
+                    Win {formatProbability(simulation.matchup.win)} · Lose {formatProbability(simulation.matchup.loss)}
+                    {simulation.matchup.tie > 0.005 && ` · Tie ${formatProbability(simulation.matchup.tie)}`}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500">{scoringEngine.label}</p>
               </div>
               <div className="text-center">
                 <h3 className="font-bold text-lg">{team2Data?.abbrev || team2Data?.name}</h3>
@@ -292,6 +310,63 @@ export const MatchupComparison = ({ selectedTeam: initialSelectedTeam }: Matchup
             </div>
           </CardContent>
         </Card>
+
+        {/* Official ESPN values vs ours */}
+        {reconciliation && (
+          <Card className="mt-6">
+            <CardHeader>
+              <CardTitle>ESPN Reconciliation</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {[team1Data, team2Data].map(team => team && (
+                <ReconciliationPanel
+                  key={team.id}
+                  teamName={team.abbrev || team.name}
+                  result={reconciliation.teams[team.id]}
+                />
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ReconciliationPanel = ({ teamName, result }: { teamName: string; result?: TeamReconciliation }) => {
+  if (!result || !result.officialAvailable) {
+    return <p className="text-sm text-gray-500">{teamName}: no official ESPN values for this week.</p>;
+  }
+  if (result.discrepancies.length === 0) {
+    return <p className="text-sm text-green-700">{teamName}: all {result.categoriesChecked} categories match ESPN.</p>;
+  }
+  return (
+    <div>
+      <h4 className="font-medium mb-2">
+        {teamName}: {result.discrepancies.length} of {result.categoriesChecked} categories differ from ESPN
+      </h4>
+      <div className="space-y-2">
+        {result.discrepancies.map(d => (
+          <div key={d.category.key} className="p-2 bg-amber-50 border border-amber-200 rounded text-sm">
+            <div className="flex justify-between">
+              <span className="font-medium">{d.category.abbrev}</span>
+              <span>
+                ESPN {formatCategoryValue(d.category, d.official)} · ours {formatCategoryValue(d.category, d.computed)}
+              </span>
+            </div>
+            {d.suspects.length > 0 ? (
+              <ul className="mt-1 text-xs text-gray-700 list-disc pl-4">
+                {d.suspects.map(s => (
+                  <li key={`${s.entry.date}-${s.entry.espnPlayerId}`}>
+                    {s.entry.playerName} ({s.entry.date.slice(5)}, {formatCategoryValue(d.category, s.entry.stats[d.category.key])}): {s.reason}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">No likely culprit in the ledger (possibly an official stat correction).</p>
+            )}
+          </div>
+        ))}
       </div>
     </div>
   );
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { RefreshCw } from 'lucide-react';
+import { useDataContext } from '../context/DataContext';
+import { PlannedPitcher, PlannedStart, PlannerPool, StartPlan, startPlannerService } from '../services/startPlannerService';
+
+interface StartPlannerProps {
+  teamId: number;
+}
+
+// How many matchup periods ahead can be planned; probables rarely go further
+const WEEKS_AHEAD = 1;
+
+const POOL_TITLES: Record<PlannerPool, string> = {
+  mine: 'My Starters',
+  opponent: "Opponent's Starters",
+  freeAgent: 'Free Agents',
+};
+
+const formatStart = (start: PlannedStart) => {
+  const day = new Date(`${start.date}T12:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', month: 'numeric', day: 'numeric', timeZone: 'UTC' });
+  return `${day} ${start.home ? 'vs' : '@'} ${start.opponent}`;
+};
+
+const PitcherRow = ({ pitcher }: { pitcher: PlannedPitcher }) => (
+  <div className="flex flex-wrap items-center justify-between gap-2 rounded px-2 py-1 text-sm hover:bg-gray-50">
+    <div className="min-w-0">
+      <span className="font-medium">{pitcher.name}</span>
+      <span className="text-gray-500 ml-2">{pitcher.teamAbbrev}</span>
+      {pitcher.percentOwned !== undefined && (
+        <span className="text-xs text-gray-400 ml-2">{pitcher.percentOwned.toFixed(0)}% owned</span>
+      )}
+    </div>
+    <div className="flex flex-wrap items-center gap-2">
+      {pitcher.starts.map(start => (
+        <span key={start.gamePk} className="text-xs bg-gray-100 rounded px-2 py-0.5" title={start.park}>
+          {formatStart(start)} · {start.park}
+        </span>
+      ))}
+      {pitcher.starts.length === 0 && (
+        <span className="text-xs text-gray-400">
+          No announced start{pitcher.unannouncedGames > 0 ? ` · ${pitcher.unannouncedGames} club games TBD` : ''}
+        </span>
+      )}
+      {pitcher.starts.length > 1 && (
+        <span className="text-xs font-semibold text-green-700 bg-green-50 rounded px-2 py-0.5">2-start</span>
+      )}
+    </div>
+  </div>
+);
+
+export const StartPlanner = ({ teamId }: StartPlannerProps) => {
+  const { currentWeek, weekMetaMap } = useDataContext();
+  const [week, setWeek] = useState(currentWeek);
+  const [plan, setPlan] = useState<StartPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const weeks = Array.from({ length: WEEKS_AHEAD + 1 }, (_, i) => currentWeek + i).filter(w => weekMetaMap[w]);
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setPlan(await startPlannerService.getPlan(week, teamId));
+    } catch (err) {
+      console.error('[StartPlanner] Failed to load plan', err);
+      setError('Failed to load probable starters');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setWeek(currentWeek);
+  }, [currentWeek]);
+
+  useEffect(() => {
+    if (week > 0) load();
+  }, [week, teamId]);
+
+  return (
+    <div className="space-y-6 mt-6">
+      <Card className="bg-white border border-[#8c8c8c] shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex flex-wrap items-center justify-between gap-2">
+            <span>Probable Starters</span>
+            <div className="flex items-center gap-2">
+              {weeks.map(w => (
+                <Button key={w} size="sm" variant={w === week ? 'default' : 'outline'} onClick={() => setWeek(w)}>
+                  {weekMetaMap[w]?.label || `Week ${w}`}
+                </Button>
+              ))}
+              <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-12">
+              <img src="/loading-ball.gif" alt="loading" className="h-16 w-16 mx-auto" />
+              <p className="text-sm text-gray-500 mt-2">Loading probable pitchers...</p>
+            </div>
+          ) : error ? (
+            <div className="text-center py-12 text-red-600">{error}</div>
+          ) : !plan || plan.startDate > plan.endDate ? (
+            <div className="text-center py-12 text-gray-500">This matchup period is over.</div>
+          ) : (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-600">
+                Announced probable starts from {plan.startDate} to {plan.endDate}. Clubs name starters a few days out,
+                so games later in the period may still be TBD.
+              </p>
+              {(['mine', 'opponent', 'freeAgent'] as PlannerPool[]).map(pool => {
+                const pitchers = plan.pitchers.filter(p => p.pool === pool);
+                if (pool === 'opponent' && !plan.opponentTeamId) return null;
+                return (
+                  <div key={pool}>
+                    <h4 className="font-medium mb-2 text-blue-600">
+                      {POOL_TITLES[pool]}
+                      <span className="text-sm text-gray-500 font-normal ml-2">
+                        {pitchers.reduce((n, p) => n + p.starts.length, 0)} starts
+                      </span>
+                    </h4>
+                    {pitchers.length === 0 ? (
+                      <div className="text-sm text-gray-500 px-2">No announced starts</div>
+                    ) : (
+                      <div className="space-y-1">
+                        {pitchers.map(p => <PitcherRow key={`${pool}-${p.espnPlayerId}`} pitcher={p} />)}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -4,60 +4,28 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { ChevronLeft, ChevronRight, TrendingUp, Loader2 } from 'lucide-react';
-import { dataService } from '../services/dataService';
-import { mlbStatService } from '../services/mlbStatService';
-import { PlayerMatcher, ESPNPlayer, MLBPlayer } from '../services/playerMatcher';
-import { getCurrentMatchupPeriod, WeekMeta } from '../utils/weekUtils';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
+import { dataService, LINEUP_SLOT_LABELS } from '../services/dataService';
+import { formatCategoryValue } from '../services/categoryRegistry';
+import { useDataContext } from '../context/DataContext';
+import { ScoringCategory, StatLedgerEntry } from '../types/fantasy';
 
 interface WeeklyStatsProps {
   selectedTeam?: number | null;
 }
 
 export const WeeklyStats = ({ selectedTeam: initialSelectedTeam }: WeeklyStatsProps) => {
-  const [selectedWeek, setSelectedWeek] = useState(1);
+  // League categories from ESPN scoring settings
+  const { categories: scoringCategories, currentWeek } = useDataContext();
+  const [selectedWeek, setSelectedWeek] = useState(currentWeek || 1);
   const [selectedTeam, setSelectedTeam] = useState<number | null>(initialSelectedTeam || null);
   const [teams, setTeams] = useState<any[]>([]);
   const [weeklyStats, setWeeklyStats] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Helper: Get 7 scoringPeriodIds for a week
-  const getScoringPeriodIdsForWeek = (weekNumber: number) => {
-    const firstDayId = (weekNumber - 1) * 7 + 1;
-    return Array.from({ length: 7 }, (_, i) => firstDayId + i);
-  };
-
-  const getDatesForWeek = (weekNumber: number): Date[] => {
-    const dates: Date[] = [];
-    // This is an approximation. A more robust solution would use a proper calendar library
-    // or rely on a week metadata service. For now, assume week 1 starts on a known date.
-    const week1StartDate = new Date('2024-03-28'); // MLB Opening Day 2024, adjust if needed
-    const startOfWeek = new Date(week1StartDate);
-    startOfWeek.setDate(startOfWeek.getDate() + (weekNumber - 1) * 7);
-
-    for (let i = 0; i < 7; i++) {
-        const date = new Date(startOfWeek);
-        date.setDate(date.getDate() + i);
-        dates.push(date);
-    }
-    return dates;
-  };
-
-  // Define scoring categories
-  const scoringCategories = [
-    { key: 'runs', name: 'Runs', type: 'batting' },
-    { key: 'homeRuns', name: 'Home Runs', type: 'batting' },
-    { key: 'rbis', name: 'RBIs', type: 'batting' },
-    { key: 'stolenBases', name: 'Stolen Bases', type: 'batting' },
-    { key: 'battingAverage', name: 'Batting Average', type: 'batting' },
-    { key: 'hits', name: 'Hits', type: 'batting' },
-    { key: 'strikeouts', name: 'Strikeouts', type: 'pitching' },
-    { key: 'wins', name: 'Wins', type: 'pitching' },
-    { key: 'saves', name: 'Saves', type: 'pitching' },
-    { key: 'era', name: 'ERA', type: 'pitching' },
-    { key: 'whip', name: 'WHIP', type: 'pitching' },
-    { key: 'qualityStarts', name: 'Quality Starts', type: 'pitching' }
-  ];
+  // Category whose contributing lines are shown in the drill-down dialog
+  const [drillCategory, setDrillCategory] = useState<ScoringCategory | null>(null);
 
   useEffect(() => {
     initializeWeeklyStats();
@@ -97,97 +65,18 @@ export const WeeklyStats = ({ selectedTeam: initialSelectedTeam }: WeeklyStatsPr
     }
   };
 
-  // MLB aggregation using direct scoringPeriodId calculation
+  // Same aggregation the dashboard uses, including the per-player ledger
   const loadWeeklyStats = async () => {
     if (!selectedTeam) return;
+    // Stats cover every team, so switching teams needs no reload
+    if (weeklyStats?.week === selectedWeek) return;
     setIsLoading(true);
     setError(null);
     setWeeklyStats(null); // Reset stats on new load
 
     try {
-      const playerMatcher = new PlayerMatcher();
-      const datesForWeek = getDatesForWeek(selectedWeek);
-      const allMatchedPerformances: any[] = [];
-
-      // Parallelize ESPN and MLB fetches for all days
-      const espnRosterPromises = datesForWeek.map((date, idx) => {
-        const scoringPeriodId = (selectedWeek - 1) * 7 + idx + 1;
-        return dataService.getTeamRosterForDay(selectedTeam, scoringPeriodId);
-      });
-      const mlbPlayersPromises = datesForWeek.map(date => mlbStatService.getMLBPlayersForDate(date.toISOString().slice(0, 10)));
-      const mlbStatsPromises = datesForWeek.map(date => mlbStatService.getDailyStatsMap(date.toISOString().slice(0, 10)));
-
-      const [espnRosters, mlbPlayersList, mlbStatsMaps] = await Promise.all([
-        Promise.all(espnRosterPromises),
-        Promise.all(mlbPlayersPromises),
-        Promise.all(mlbStatsPromises)
-      ]);
-
-      for (let i = 0; i < datesForWeek.length; i++) {
-        const dateStr = datesForWeek[i].toISOString().slice(0, 10);
-        const espnStarters = espnRosters[i].filter((p: any) => p.lineupSlotId <= 21 && p.status === 'ACTIVE');
-        if (espnStarters.length === 0) continue;
-        const mlbPlayers = mlbPlayersList[i];
-        const dailyStatsMap = mlbStatsMaps[i];
-        const matches = await playerMatcher.matchPlayers(espnStarters, mlbPlayers);
-        for (const match of matches) {
-          if (match.mlbPlayer && match.confidence > 0.7 && match.mlbPlayer.id != null) {
-            const stat = (dailyStatsMap as Record<string, any>)[String(match.mlbPlayer.id)];
-            if (!stat) continue;
-            allMatchedPerformances.push({
-              espnPlayer: match.espnPlayer,
-              mlbStats: { batting: stat.hitting, pitching: stat.pitching },
-            });
-          }
-        }
-      }
-
-      // Aggregate stats for the week
-      const agg = {
-        runs: 0, homeRuns: 0, rbis: 0, stolenBases: 0, battingAverage: 0, hits: 0, atBats: 0,
-        strikeouts: 0, wins: 0, saves: 0, era: 0, whip: 0, qualityStarts: 0, inningsPitched: 0, earnedRuns: 0, walks: 0, hitsAllowed: 0
-      };
-      
-      const pitcherPositions = ['P', 'SP', 'RP'];
-
-      for (const performance of allMatchedPerformances) {
-        const battingStats = performance.mlbStats?.batting;
-        const pitchingStats = performance.mlbStats?.pitching;
-
-        if (battingStats && Object.keys(battingStats).length > 0) {
-          agg.runs += Number(battingStats.R || 0);
-          agg.homeRuns += Number(battingStats.HR || 0);
-          agg.rbis += Number(battingStats.RBI || 0);
-          agg.stolenBases += Number(battingStats.SB || 0);
-          agg.hits += Number(battingStats.H || 0);
-          agg.atBats += Number(battingStats.AB || 0);
-        }
-
-        if (pitchingStats && Object.keys(pitchingStats).length > 0) {
-          agg.strikeouts += Number(pitchingStats.K || 0);
-          agg.wins += Number(pitchingStats.W || 0);
-          agg.saves += Number(pitchingStats.SV || 0);
-
-          const ip = parseFloat(pitchingStats.IP || 0);
-          if (ip > 0) {
-              agg.inningsPitched += ip;
-              const er = Number(pitchingStats.ERA * ip / 9 || 0); // ERA is rate, convert to ER
-              agg.earnedRuns += er;
-              agg.walks += Number(pitchingStats.WHIP * ip - pitchingStats.H || 0); // WHIP = (BB+H)/IP, so BB = WHIP*IP - H
-              agg.hitsAllowed += Number(pitchingStats.H || 0);
-              if (ip >= 6.0 && er <= 3) {
-                agg.qualityStarts += 1;
-              }
-          }
-        }
-      }
-
-      agg.battingAverage = agg.atBats ? agg.hits / agg.atBats : 0;
-      agg.era = agg.inningsPitched ? (agg.earnedRuns * 9) / agg.inningsPitched : 0;
-      agg.whip = agg.inningsPitched ? (agg.walks + agg.hitsAllowed) / agg.inningsPitched : 0;
-
-      console.log('[WeeklyStats] Aggregated stats:', agg);
-      setWeeklyStats({ teamStats: { [selectedTeam]: agg } });
+      const stats = await dataService.getWeeklyStats(selectedWeek);
+      setWeeklyStats(stats);
     } catch (err) {
       setWeeklyStats(null);
       setError('Failed to load MLB weekly stats.');
@@ -235,6 +124,22 @@ export const WeeklyStats = ({ selectedTeam: initialSelectedTeam }: WeeklyStatsPr
     weeklyStats.teamStats[selectedTeam] : 
     null;
   const selectedTeamData = teams.find(team => team.id === selectedTeam);
+  const teamLedger: StatLedgerEntry[] = selectedTeam && weeklyStats?.ledger ? weeklyStats.ledger[selectedTeam] || [] : [];
+
+  const renderCategoryRow = (category: ScoringCategory, rowClass: string) => (
+    <button
+      key={category.key}
+      type="button"
+      onClick={() => setDrillCategory(category)}
+      className={`w-full flex justify-between items-center p-2 rounded text-left ${rowClass}`}
+      title="Show contributing players"
+    >
+      <span className="text-sm">{category.name}</span>
+      <span className="font-medium">
+        {currentWeekStats ? formatCategoryValue(category, currentWeekStats[category.key]) : '-'}
+      </span>
+    </button>
+  );
 
   return (
     <div className="p-6">
@@ -318,37 +223,13 @@ export const WeeklyStats = ({ selectedTeam: initialSelectedTeam }: WeeklyStatsPr
                 <div>
                   <h4 className="font-medium mb-3 text-blue-600">Batting</h4>
                   <div className="space-y-2">
-                    {scoringCategories.filter(cat => cat.type === 'batting').map(category => (
-                      <div key={category.key} className="flex justify-between items-center p-2 bg-blue-50 rounded">
-                        <span className="text-sm">{category.name}</span>
-                        <span className="font-medium">
-                          {currentWeekStats ? 
-                            (category.key === 'battingAverage' ? 
-                              currentWeekStats[category.key]?.toFixed(3) || '0.000' : 
-                              currentWeekStats[category.key] || 0
-                            ) : '-'
-                          }
-                        </span>
-                      </div>
-                    ))}
+                    {scoringCategories.filter(cat => cat.type === 'batting').map(category => renderCategoryRow(category, 'bg-blue-50 hover:bg-blue-100'))}
                   </div>
                 </div>
                 <div>
                   <h4 className="font-medium mb-3 text-green-600">Pitching</h4>
                   <div className="space-y-2">
-                    {scoringCategories.filter(cat => cat.type === 'pitching').map(category => (
-                      <div key={category.key} className="flex justify-between items-center p-2 bg-green-50 rounded">
-                        <span className="text-sm">{category.name}</span>
-                        <span className="font-medium">
-                          {currentWeekStats ? 
-                            (category.key === 'era' || category.key === 'whip' ? 
-                              currentWeekStats[category.key]?.toFixed(2) || '0.00' : 
-                              currentWeekStats[category.key] || 0
-                            ) : '-'
-                          }
-                        </span>
-                      </div>
-                    ))}
+                    {scoringCategories.filter(cat => cat.type === 'pitching').map(category => renderCategoryRow(category, 'bg-green-50 hover:bg-green-100'))}
                   </div>
                 </div>
               </div>
@@ -361,7 +242,79 @@ export const WeeklyStats = ({ selectedTeam: initialSelectedTeam }: WeeklyStatsPr
             </CardContent>
           </Card>
         )}
+
+        <CategoryLedgerDialog
+          category={drillCategory}
+          ledger={teamLedger}
+          teamTotal={drillCategory && currentWeekStats ? currentWeekStats[drillCategory.key] : undefined}
+          onClose={() => setDrillCategory(null)}
+        />
       </div>
     </div>
   );
+};
+
+// A line feeds a category when the player batted (batting) or pitched (pitching) that day
+function contributesTo(entry: StatLedgerEntry, category: ScoringCategory): boolean {
+  const c = entry.stats.components;
+  return category.type === 'batting'
+    ? c.plateAppearances > 0 || c.atBats > 0
+    : c.outs > 0 || c.battersFaced > 0;
+}
+
+const CategoryLedgerDialog = ({ category, ledger, teamTotal, onClose }: {
+  category: ScoringCategory | null;
+  ledger: StatLedgerEntry[];
+  teamTotal?: number;
+  onClose: () => void;
+}) => {
+  const lines = category
+    ? ledger.filter(entry => contributesTo(entry, category) || !entry.counted)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.playerName.localeCompare(b.playerName))
+    : [];
+
+  return (
+    <Dialog open={!!category} onOpenChange={open => { if (!open) onClose(); }}>
+      <DialogContent className="w-full max-w-3xl bg-white shadow-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{category?.name} breakdown</DialogTitle>
+          {category && teamTotal !== undefined && (
+            <p className="text-sm text-gray-600">Team total: {formatCategoryValue(category, teamTotal)}</p>
+          )}
+        </DialogHeader>
+        {category && (lines.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No contributing lines this week.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-1">Date</th>
+                <th>Player</th>
+                <th>Slot</th>
+                <th>Game</th>
+                <th className="text-right">{category.abbrev}</th>
+                <th className="text-right">Match</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map(entry => (
+                <tr
+                  key={`${entry.date}-${entry.espnPlayerId}`}
+                  className={`border-b last:border-0 ${entry.counted ? '' : 'text-gray-400 line-through'}`}
+                  title={entry.matchReason}
+                >
+                  <td className="py-1">{entry.date.slice(5)}</td>
+                  <td>{entry.playerName}</td>
+                  <td>{LINEUP_SLOT_LABELS[entry.lineupSlotId] ?? entry.lineupSlotId}</td>
+                  <td>{entry.gamePks?.join(', ') || '-'}</td>
+                  <td className="text-right font-medium">{formatCategoryValue(category, entry.stats[category.key])}</td>
+                  <td className="text-right">{(entry.matchConfidence * 100).toFixed(0)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+      </DialogContent>
+    </Dialog>
+  );
 };
\ No newline at end of file
@@ -1,5 +1,8 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode, useCallback } from 'react';
 import { dataService } from '../services/dataService';
+import { DEFAULT_CATEGORIES } from '../services/categoryRegistry';
+import { ScoringCategory } from '../types/fantasy';
+import { ScoringFormat } from '../utils/scoringEngines';
 
 // Interfaces for our context, matching the data structures from dataService
 interface DataContextType {
@@ -10,6 +13,8 @@ interface DataContextType {
   weekMetaMap: Record<number, any>;
   weeklyStats: any;
   weeklyEstimate: any;
+  categories: ScoringCategory[];
+  scoringFormat: ScoringFormat;
   
   isLoading: boolean;
   isWeekLoading: boolean;
@@ -42,6 +47,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [weekMetaMap, setWeekMetaMap] = useState<Record<number, any>>({});
   const [weeklyStats, setWeeklyStats] = useState<any>(null);
   const [weeklyEstimate, setWeeklyEstimate] = useState<any>(null);
+  const [categories, setCategories] = useState<ScoringCategory[]>(DEFAULT_CATEGORIES);
+  const [scoringFormat, setScoringFormat] = useState<ScoringFormat>('H2H_CATEGORY');
   
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [isWeekLoading, setIsWeekLoading] = useState<boolean>(false);
@@ -54,11 +61,13 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setIsLoading(true);
       setError(null);
 
-      const [info, teamsData, standingsData, week] = await Promise.all([
+      const [info, teamsData, standingsData, week, scoringCategories, format] = await Promise.all([
         dataService.getLeagueInfo(),
         dataService.getTeams(),
         dataService.getTeamStandings(),
         dataService.getCurrentWeek(),
+        dataService.getScoringCategories(),
+        dataService.getScoringFormat(),
       ]);
       
       const metaMap = await dataService.getWeekMetaMap();
@@ -68,6 +77,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       setStandings(standingsData);
       setCurrentWeek(week);
       setWeekMetaMap(metaMap);
+      setCategories(scoringCategories);
+      setScoringFormat(format);
 
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unknown error occurred during initialization.');
@@ -148,6 +159,8 @@ export const DataProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     weekMetaMap,
     weeklyStats,
     weeklyEstimate,
+    categories,
+    scoringFormat,
     isLoading,
     isWeekLoading,
     error,
@@ -0,0 +1,212 @@
+import { ScoringCategory, WeekAggregation } from '../types/fantasy';
+import { dataService, LINEUP_SLOT_LABELS } from './dataService';
+import { ESPN_CONFIG, ESPNRosterPlayer } from './espnApiService';
+import { TeamStatLine } from './categoryRegistry';
+import { AdvisorRecommendation } from './advisorService';
+import { MatchupSimulation } from './matchupSimulator';
+import { startPlannerService } from './startPlannerService';
+import { weeklyEstimateService } from './weeklyEstimateService';
+import { ScoringFormat } from '../utils/scoringEngines';
+
+/*
+ * Free-form questions for the advisor. The app sends a structured league
+ * context (rosters, matchup totals, projections, free-agent starts and the
+ * rules-based advice) with the question to a chat backend; by default the
+ * proxy's /advisor/chat, which fills in the versioned prompt templates and
+ * calls whichever OpenAI-compatible endpoint it's configured for. Answers
+ * cite players as [player:<ESPN id>], checked against the context.
+ */
+
+// Free-agent starters included, most owned first
+const CONTEXT_FREE_AGENTS = 15;
+const CONTEXT_RECOMMENDATIONS = 5;
+
+export interface ContextPlayer {
+  playerId: number;
+  name: string;
+  position: string;
+  team: string;
+  slot: string;
+  status: string;
+}
+
+export interface ContextTeam {
+  teamId: number;
+  name: string;
+  role: 'mine' | 'opponent';
+  roster: ContextPlayer[];
+}
+
+export interface ContextCategory {
+  key: string;
+  abbrev: string;
+  lowerIsBetter: boolean;
+  mine: number;
+  theirs: number;
+  projectedMine?: number;
+  projectedTheirs?: number;
+  winProbability?: number;
+}
+
+export interface LeagueContext {
+  week: number;
+  today: string;
+  scoringFormat: ScoringFormat;
+  teams: ContextTeam[];
+  categories: ContextCategory[];
+  freeAgentStarters: Array<{ playerId: number; name: string; team: string; starts: string[]; percentOwned?: number }>;
+  recommendations: Array<{ title: string; reasons: string[] }>;
+}
+
+export interface AdvisorAnswer {
+  answer: string;
+  model: string;
+  promptVersion: string;
+  // Cited ids found in the context, in order of first mention
+  citedPlayerIds: number[];
+  // Cited ids that aren't in the context: the model made them up
+  unknownPlayerIds: number[];
+}
+
+export type BackendAnswer = Pick<AdvisorAnswer, 'answer' | 'model' | 'promptVersion'>;
+
+// The proxy refuses longer questions
+export const MAX_QUESTION_LENGTH = 1000;
+
+/** Where questions go; swap with `advisorChatService.setBackend`. */
+export interface AdvisorBackend {
+  name: string;
+  ask(question: string, context: LeagueContext): Promise<BackendAnswer>;
+}
+
+export const proxyAdvisorBackend: AdvisorBackend = {
+  name: 'proxy',
+  async ask(question, context) {
+    const res = await fetch(`${ESPN_CONFIG.PROXY_URL}/advisor/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ question, context }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(body?.error || `Advisor request failed (${res.status})`);
+    return { answer: body.answer, model: body.model, promptVersion: body.promptVersion };
+  },
+};
+
+/** Player ids an answer cites, split into those in the context and the rest. */
+export function parseCitations(answer: string, context: LeagueContext): Pick<AdvisorAnswer, 'citedPlayerIds' | 'unknownPlayerIds'> {
+  const known = new Set([
+    ...context.teams.flatMap(t => t.roster.map(p => p.playerId)),
+    ...context.freeAgentStarters.map(p => p.playerId),
+  ]);
+  const cited = [...new Set([...answer.matchAll(/\[player:(\d+)\]/g)].map(m => Number(m[1])))];
+  return {
+    citedPlayerIds: cited.filter(id => known.has(id)),
+    unknownPlayerIds: cited.filter(id => !known.has(id)),
+  };
+}
+
+export interface LeagueContextOptions {
+  opponentTeamId?: number | null;
+  weeklyStats?: WeekAggregation;
+  simulation?: MatchupSimulation | null;
+  categories?: ScoringCategory[];
+  format?: ScoringFormat;
+  // The rules-based advice already shown, so answers can build on it
+  recommendations?: AdvisorRecommendation[];
+}
+
+function contextRoster(players: ESPNRosterPlayer[]): ContextPlayer[] {
+  return players.map(p => ({
+    playerId: p.playerId,
+    name: p.name || 'Unknown Player',
+    position: p.position,
+    team: p.team,
+    slot: LINEUP_SLOT_LABELS[p.lineupSlotId] ?? String(p.lineupSlotId),
+    status: p.status || 'ACTIVE',
+  }));
+}
+
+export class AdvisorChatService {
+  private backend: AdvisorBackend = proxyAdvisorBackend;
+
+  setBackend(backend: AdvisorBackend) {
+    this.backend = backend;
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  /** Everything a backend gets to know about our matchup period. */
+  async buildContext(teamId: number, week: number, options: LeagueContextOptions = {}): Promise<LeagueContext> {
+    const categories = options.categories ?? await dataService.getScoringCategories();
+    const scoringFormat = options.format ?? await dataService.getScoringFormat();
+    const today = (await dataService.getReferenceDate()).toISOString().split('T')[0];
+    const teamNames = new Map<number, string>((await dataService.getTeams()).map((t: { id: number; name: string }) => [t.id, t.name]));
+    const teamStats = options.weeklyStats?.teamStats ?? {};
+    const opponentTeamId = options.opponentTeamId ?? undefined;
+
+    const sides: Array<{ teamId: number; role: ContextTeam['role'] }> = [{ teamId, role: 'mine' }];
+    if (opponentTeamId) sides.push({ teamId: opponentTeamId, role: 'opponent' });
+
+    const teams: ContextTeam[] = [];
+    const projected: Record<number, TeamStatLine> = {};
+    for (const side of sides) {
+      teams.push({
+        teamId: side.teamId,
+        name: teamNames.get(side.teamId) || `Team ${side.teamId}`,
+        role: side.role,
+        roster: contextRoster(await dataService.getTeamRoster(side.teamId, week)),
+      });
+      projected[side.teamId] = await weeklyEstimateService.getTeamWeeklyEstimate(side.teamId, week, teamStats[side.teamId]);
+    }
+
+    const round = (n: unknown, decimals: number) => Number(Number(n || 0).toFixed(decimals));
+    const contextCategories: ContextCategory[] = categories.map(c => ({
+      key: c.key,
+      abbrev: c.abbrev,
+      lowerIsBetter: c.lowerIsBetter,
+      mine: round(teamStats[teamId]?.[c.key], c.decimals),
+      theirs: round(opponentTeamId ? teamStats[opponentTeamId]?.[c.key] : 0, c.decimals),
+      projectedMine: round(projected[teamId]?.[c.key], c.decimals),
+      projectedTheirs: opponentTeamId ? round(projected[opponentTeamId]?.[c.key], c.decimals) : undefined,
+      winProbability: options.simulation?.categories[c.key]?.win,
+    }));
+
+    let freeAgentStarters: LeagueContext['freeAgentStarters'] = [];
+    try {
+      const plan = await startPlannerService.getPlan(week, teamId, ['freeAgent']);
+      freeAgentStarters = plan.pitchers
+        .filter(p => p.pool === 'freeAgent' && p.starts.length > 0)
+        .sort((a, b) => (b.percentOwned ?? 0) - (a.percentOwned ?? 0) || a.espnPlayerId - b.espnPlayerId)
+        .slice(0, CONTEXT_FREE_AGENTS)
+        .map(p => ({ playerId: p.espnPlayerId, name: p.name, team: p.teamAbbrev, starts: p.starts.map(s => s.date), percentOwned: p.percentOwned }));
+    } catch (err) {
+      console.warn('[AdvisorChat] Free-agent starters unavailable:', err);
+    }
+
+    return {
+      week,
+      today,
+      scoringFormat,
+      teams,
+      categories: contextCategories,
+      freeAgentStarters,
+      recommendations: (options.recommendations ?? []).slice(0, CONTEXT_RECOMMENDATIONS).map(r => ({ title: r.title, reasons: r.reasons })),
+    };
+  }
+
+  /** Ask the current backend, with the answer's citations checked against the context. */
+  async ask(question: string, context: LeagueContext): Promise<AdvisorAnswer> {
+    const reply = await this.backend.ask(question, context);
+    const citations = parseCitations(reply.answer, context);
+    if (citations.unknownPlayerIds.length > 0) {
+      console.warn(`[AdvisorChat] Answer cites players not in the context: ${citations.unknownPlayerIds.join(', ')}`);
+    }
+    console.log(`[AdvisorChat] ${this.backend.name} (${reply.model}, prompt ${reply.promptVersion}) cited ${citations.citedPlayerIds.length} players`);
+    return { ...reply, ...citations };
+  }
+}
+
+export const advisorChatService = new AdvisorChatService();
@@ -0,0 +1,346 @@
+import { ScoringCategory, WeekAggregation } from '../types/fantasy';
+import { dataService } from './dataService';
+import { formatCategoryValue, scaleComponents, TeamStatLine } from './categoryRegistry';
+import { DayLineupAudit, lineupAuditService } from './lineupAudit';
+import { categoryWeights, lineValue } from './lineupOptimizer';
+import { formatProbability, MatchupSimulation } from './matchupSimulator';
+import { PitchingLimitStatus, pitchingLimitService } from './pitchingLimitService';
+import { PlannedStart, startPlannerService } from './startPlannerService';
+import { weeklyEstimateService } from './weeklyEstimateService';
+import { ScoringFormat } from '../utils/scoringEngines';
+
+/*
+ * Rules-based matchup advisor. Combines the week's banked totals, the
+ * simulated category odds, the lineup audit, the pitching caps and
+ * projected free-agent starts into ranked recommendations, each with the
+ * reasons behind it and a link to the tab holding that data. No network
+ * model is involved: the same inputs always give the same advice.
+ */
+
+// Free-agent starters projected per request, most owned first
+const STREAM_CANDIDATES = 5;
+const STREAM_SUGGESTIONS = 2;
+// Win probabilities in this band count as still in play
+const SWING_LOW = 0.3;
+const SWING_HIGH = 0.7;
+// Past these a category is as good as decided
+const DECIDED_LOW = 0.15;
+const DECIDED_HIGH = 0.85;
+// Later days lose this much score per day out
+const SCORE_PER_DAY = 5;
+
+export type AdvisorTab = 'matchup' | 'lineup' | 'planner';
+
+export type RecommendationKind =
+  | 'startPlayer'
+  | 'benchInjured'
+  | 'idleStarter'
+  | 'wastedStart'
+  | 'streamPitcher'
+  | 'swingCategories'
+  | 'protectRatios';
+
+export type AdvisorRisk = 'low' | 'medium' | 'high';
+
+export interface AdvisorSource {
+  tab: AdvisorTab;
+  label: string;
+  date?: string;
+  playerIds?: number[];
+}
+
+export interface AdvisorRecommendation {
+  id: string;
+  kind: RecommendationKind;
+  title: string;
+  reasons: string[];
+  // Ranking, higher first (0-100)
+  score: number;
+  risk?: AdvisorRisk;
+  source: AdvisorSource;
+}
+
+export interface CategoryState {
+  category: ScoringCategory;
+  mine: number;
+  theirs: number;
+  // Our chance of winning it; undefined without a simulation
+  win?: number;
+}
+
+export interface StreamCandidate {
+  espnPlayerId: number;
+  name: string;
+  teamAbbrev: string;
+  start: PlannedStart;
+  // Worth of the start to our week (lineupOptimizer.lineValue)
+  value: number;
+  percentOwned?: number;
+}
+
+export interface AdvisorInput {
+  today: string; // YYYY-MM-DD
+  format: ScoringFormat;
+  categories: CategoryState[];
+  audits: DayLineupAudit[];
+  pitchingLimits: PitchingLimitStatus | null;
+  streamCandidates: StreamCandidate[];
+}
+
+export interface AdvisorReport {
+  teamId: number;
+  week: number;
+  today: string;
+  recommendations: AdvisorRecommendation[];
+}
+
+const DAY_MS = 86_400_000;
+const daysAhead = (date: string, today: string) =>
+  Math.max(0, Math.round((Date.parse(`${date}T00:00:00Z`) - Date.parse(`${today}T00:00:00Z`)) / DAY_MS));
+const weekday = (date: string) =>
+  new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' });
+const shortDay = (date: string) =>
+  new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', month: 'numeric', day: 'numeric', timeZone: 'UTC' });
+
+const isRatio = (c: ScoringCategory) => c.decimals > 0;
+
+/** "lead WHIP by 0.05" / "trail K by 6" / "are tied in SB", from our side. */
+export function describeMargin(state: CategoryState): string {
+  const { category, mine, theirs } = state;
+  const diff = Number(mine || 0) - Number(theirs || 0);
+  const shown = formatCategoryValue(category, Math.abs(diff));
+  if (Number(shown) === 0) return `are tied in ${category.abbrev}`;
+  const ahead = category.lowerIsBetter ? diff < 0 : diff > 0;
+  return `${ahead ? 'lead' : 'trail'} ${category.abbrev} by ${shown}`;
+}
+
+const withOdds = (state: CategoryState) =>
+  state.win === undefined ? describeMargin(state) : `${describeMargin(state)} (${formatProbability(state.win)} to win)`;
+
+/**
+ * How much a streamed start could cost in the pitching rate categories:
+ * high when we hold a lead that could still slip, low when they're
+ * decided or unknown.
+ */
+export function ratioRisk(categories: CategoryState[]): AdvisorRisk {
+  const ratios = categories.filter(s => s.category.type === 'pitching' && isRatio(s.category) && s.win !== undefined);
+  if (ratios.some(s => s.win! >= 0.5 && s.win! < DECIDED_HIGH)) return 'high';
+  if (ratios.some(s => s.win! > DECIDED_LOW && s.win! < 0.5)) return 'medium';
+  return 'low';
+}
+
+function lineupRecommendations(input: AdvisorInput): AdvisorRecommendation[] {
+  const recs: AdvisorRecommendation[] = [];
+  for (const audit of input.audits) {
+    const ahead = daysAhead(audit.date, input.today);
+    const covered = new Set(audit.alerts.map(a => a.replacesPlayerId).filter(id => id !== undefined));
+    for (const alert of audit.alerts) {
+      const source: AdvisorSource = {
+        tab: 'lineup', label: `Lineup check, ${shortDay(audit.date)}`, date: audit.date,
+        playerIds: [alert.playerId, ...(alert.replacesPlayerId !== undefined ? [alert.replacesPlayerId] : [])],
+      };
+      if (alert.kind === 'benchedWithGame') {
+        const replaced = audit.alerts.find(a => a.playerId === alert.replacesPlayerId);
+        recs.push({
+          id: `start-${alert.playerId}-${audit.date}`, kind: 'startPlayer', source,
+          title: `Start ${alert.name}${replaced ? ` over ${replaced.name}` : ''} ${weekday(audit.date)}`,
+          reasons: [alert.message, ...(replaced ? [replaced.message] : [])],
+          score: 90 - SCORE_PER_DAY * ahead,
+        });
+      } else if (alert.kind === 'injuredStarter') {
+        recs.push({
+          id: `injured-${alert.playerId}-${audit.date}`, kind: 'benchInjured', source,
+          title: `Move ${alert.name} out of the lineup ${weekday(audit.date)}`,
+          reasons: [alert.message, ...(covered.has(alert.playerId) ? [] : ['Nobody on the bench has a game for the slot; a pickup could fill it'])],
+          score: 85 - SCORE_PER_DAY * ahead,
+        });
+      }
+    }
+
+    // Idle starters nobody on the bench can cover: one recommendation per day
+    const idle = audit.alerts.filter(a => a.kind === 'noGame' && !covered.has(a.playerId));
+    if (idle.length > 0) {
+      recs.push({
+        id: `idle-${audit.date}`, kind: 'idleStarter',
+        title: idle.length === 1
+          ? `Fill ${idle[0].name}'s slot ${weekday(audit.date)}`
+          : `Fill ${idle.length} idle lineup slots ${weekday(audit.date)}`,
+        reasons: [...idle.map(a => a.message), 'Nobody on the bench has a game for these slots; a pickup could fill them'],
+        score: 40 - SCORE_PER_DAY * ahead,
+        source: { tab: 'lineup', label: `Lineup check, ${shortDay(audit.date)}`, date: audit.date, playerIds: idle.map(a => a.playerId) },
+      });
+    }
+  }
+  return recs;
+}
+
+function pitchingRecommendations(input: AdvisorInput): AdvisorRecommendation[] {
+  const recs: AdvisorRecommendation[] = [];
+  const limits = input.pitchingLimits;
+  for (const alert of limits?.alerts ?? []) {
+    if (alert.kind !== 'wastedStarts' || !alert.date) continue;
+    recs.push({
+      id: `wasted-${alert.date}`, kind: 'wastedStart',
+      title: `Bench starters ${weekday(alert.date)}: the starts cap will be used up`,
+      reasons: [alert.message],
+      score: 80 - SCORE_PER_DAY * daysAhead(alert.date, input.today),
+      source: { tab: 'planner', label: 'Probable starters', date: alert.date, playerIds: alert.playerIds },
+    });
+  }
+
+  const capped = limits?.alerts.some(a => a.kind === 'capReached') ?? false;
+  const room = limits?.alerts.filter(a => a.kind === 'capUnused').map(a => a.message) ?? [];
+  const pitching = input.categories.filter(s => s.category.type === 'pitching');
+  const counting = pitching.filter(s => !isRatio(s.category));
+  const swing = counting.filter(s => s.win !== undefined && s.win >= SWING_LOW && s.win <= SWING_HIGH);
+  const risk = ratioRisk(input.categories);
+  const exposed = pitching.filter(s => isRatio(s.category) && s.win !== undefined && s.win >= 0.5 && s.win < DECIDED_HIGH);
+
+  if (!capped) {
+    const candidates = input.streamCandidates
+      .filter(c => c.value > 0 && c.start.date >= input.today)
+      .sort((a, b) => b.value - a.value || a.espnPlayerId - b.espnPlayerId)
+      .slice(0, STREAM_SUGGESTIONS);
+    candidates.forEach((c, rank) => {
+      const reasons = [
+        `Starts ${shortDay(c.start.date)} ${c.start.home ? 'vs' : '@'} ${c.start.opponent}${c.percentOwned !== undefined ? ` (${c.percentOwned.toFixed(0)}% owned)` : ''}`,
+        ...swing.map(s => `You ${withOdds(s)}`),
+        ...exposed.map(s => `You ${withOdds(s)}; a rough start could flip it`),
+        ...room,
+      ];
+      // Matters more with pitching categories in play, less with a ratio lead to lose
+      const score = 45 + 5 * swing.length - (risk === 'high' ? 10 : risk === 'medium' ? 5 : 0) - SCORE_PER_DAY * rank;
+      recs.push({
+        id: `stream-${c.espnPlayerId}-${c.start.date}`, kind: 'streamPitcher',
+        title: `Stream ${c.name} (${c.teamAbbrev}) ${weekday(c.start.date)}`,
+        reasons, score, risk,
+        source: { tab: 'planner', label: 'Free-agent probable starters', date: c.start.date, playerIds: [c.espnPlayerId] },
+      });
+    });
+  }
+
+  // Counting stats settled but a ratio lead still open: stop adding innings
+  if (counting.length > 0 && counting.every(s => s.win !== undefined && (s.win <= DECIDED_LOW || s.win >= DECIDED_HIGH)) && exposed.length > 0) {
+    recs.push({
+      id: 'protect-ratios', kind: 'protectRatios',
+      title: `Protect your ${exposed.map(s => s.category.abbrev).join('/')} lead`,
+      reasons: [
+        ...exposed.map(s => `You ${withOdds(s)}`),
+        `${counting.map(s => s.category.abbrev).join(', ')} ${counting.length === 1 ? 'is' : 'are'} all but decided, so extra starts add risk and little else`,
+      ],
+      score: 60, risk: 'low',
+      source: { tab: 'matchup', label: 'Matchup odds' },
+    });
+  }
+  return recs;
+}
+
+function categoryRecommendations(input: AdvisorInput): AdvisorRecommendation[] {
+  const swing = input.categories.filter(s => s.win !== undefined && s.win >= SWING_LOW && s.win <= SWING_HIGH);
+  if (swing.length === 0) return [];
+  return [{
+    id: 'swing-categories', kind: 'swingCategories',
+    title: `Focus on ${swing.map(s => s.category.abbrev).join(', ')}`,
+    reasons: [
+      ...swing.map(s => `You ${withOdds(s)}`),
+      'These can still go either way; favour players who help them when setting lineups',
+    ],
+    score: 50,
+    source: { tab: 'matchup', label: 'Matchup odds' },
+  }];
+}
+
+/** Ranked recommendations from the gathered inputs; deterministic for the same input. */
+export function buildRecommendations(input: AdvisorInput): AdvisorRecommendation[] {
+  const points = input.format === 'H2H_POINTS';
+  return [
+    ...lineupRecommendations(input),
+    ...pitchingRecommendations(points ? { ...input, categories: [] } : input),
+    ...(points ? [] : categoryRecommendations(input)),
+  ].sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+}
+
+export interface AdvisorOptions {
+  opponentTeamId?: number | null;
+  // The week's aggregation (banked totals and ledger)
+  weeklyStats?: WeekAggregation;
+  simulation?: MatchupSimulation | null;
+  categories?: ScoringCategory[];
+  format?: ScoringFormat;
+}
+
+export class AdvisorService {
+  /** Recommendations for one team's matchup period, from today on. */
+  async getAdvice(teamId: number, week: number, options: AdvisorOptions = {}): Promise<AdvisorReport> {
+    const categories = options.categories ?? await dataService.getScoringCategories();
+    const format = options.format ?? await dataService.getScoringFormat();
+    const today = (await dataService.getReferenceDate()).toISOString().split('T')[0];
+    const teamStats = options.weeklyStats?.teamStats ?? {};
+    const mine = teamStats[teamId];
+    const theirs = options.opponentTeamId ? teamStats[options.opponentTeamId] : undefined;
+
+    const input: AdvisorInput = {
+      today,
+      format,
+      categories: categories.map(category => ({
+        category,
+        mine: Number(mine?.[category.key] || 0),
+        theirs: Number(theirs?.[category.key] || 0),
+        win: options.simulation?.categories[category.key]?.win,
+      })),
+      audits: await lineupAuditService.auditWeek(teamId, week).catch(err => {
+        console.warn('[Advisor] Lineup audit unavailable:', err);
+        return [];
+      }),
+      pitchingLimits: await pitchingLimitService.getStatus(teamId, week, { aggregation: options.weeklyStats }).catch(err => {
+        console.warn('[Advisor] Pitching limits unavailable:', err);
+        return null;
+      }),
+      streamCandidates: await this.getStreamCandidates(teamId, week, categories, format, mine, options.simulation).catch(err => {
+        console.warn('[Advisor] Free-agent starters unavailable:', err);
+        return [];
+      }),
+    };
+
+    const recommendations = buildRecommendations(input);
+    console.log(`[Advisor] Team ${teamId} week ${week}: ${recommendations.length} recommendations`);
+    return { teamId, week, today, recommendations };
+  }
+
+  /** The most-owned free agents with a start left, valued per start. */
+  private async getStreamCandidates(
+    teamId: number,
+    week: number,
+    categories: ScoringCategory[],
+    format: ScoringFormat,
+    actual: TeamStatLine | undefined,
+    simulation?: MatchupSimulation | null
+  ): Promise<StreamCandidate[]> {
+    const plan = await startPlannerService.getPlan(week, teamId, ['freeAgent']);
+    const pitchers = plan.pitchers
+      .filter(p => p.pool === 'freeAgent' && p.starts.length > 0)
+      .sort((a, b) => (b.percentOwned ?? 0) - (a.percentOwned ?? 0) || a.espnPlayerId - b.espnPlayerId)
+      .slice(0, STREAM_CANDIDATES);
+    if (pitchers.length === 0) return [];
+
+    const base = await weeklyEstimateService.getTeamWeeklyEstimate(teamId, week, actual);
+    const weights = categoryWeights(categories, simulation);
+    const candidates: StreamCandidate[] = [];
+    for (const p of pitchers) {
+      const est = await weeklyEstimateService.getPlayerWeeklyEstimate(p.espnPlayerId, p.name, week, { teamAbbrev: p.teamAbbrev, position: 'SP' });
+      if (!est.components || est.gamesProjected <= 0) continue;
+      const perStart = scaleComponents(est.components, 1 / est.gamesProjected);
+      candidates.push({
+        espnPlayerId: p.espnPlayerId,
+        name: p.name,
+        teamAbbrev: p.teamAbbrev,
+        start: p.starts[0],
+        value: lineValue(perStart, base, categories, weights, format),
+        percentOwned: p.percentOwned,
+      });
+    }
+    return candidates;
+  }
+}
+
+export const advisorService = new AdvisorService();
@@ -1,3 +1,5 @@
+import { parseInningsPitched } from '../utils/innings';
+
 // API Configuration
 export const API_CONFIG = {
   ESPN_BASE_URL: import.meta.env.VITE_API_URL || '/espn',
@@ -253,7 +255,7 @@ export class FantasyAPIService {
         teamStats.strikeouts += player.pitching.strikeOuts || 0;
         teamStats.wins += player.pitching.wins || 0;
         teamStats.saves += player.pitching.saves || 0;
-        totalInnings += player.pitching.inningsPitched || 0;
+        totalInnings += parseInningsPitched(player.pitching.inningsPitched);
         totalEarnedRuns += player.pitching.earnedRuns || 0;
         totalWalksHits += (player.pitching.baseOnBalls || 0) + (player.pitching.hits || 0);
       }
@@ -0,0 +1,266 @@
+import { ScoringCategory } from '../types/fantasy';
+import type { ESPNScoringSettings } from './espnApiService';
+import type { MLBBattingLine, MLBPitchingLine } from './mlbApiService';
+import { outsFromInningsPitched } from '../utils/innings';
+
+/*
+ * Scoring-category registry.
+ *
+ * Every category is derived from a set of raw counting components so that
+ * aggregation is always "sum the components, then compute the category".
+ * Rates (AVG, OBP, ERA, WHIP, K/9, ...) are therefore never averaged.
+ *
+ * The league's actual categories come from ESPN `settings.scoringSettings
+ * .scoringItems` (stat id + reverse-sort flag); DEFAULT_CATEGORIES is only
+ * used when settings cannot be loaded.
+ */
+
+export const COMPONENT_KEYS = [
+  // Batting
+  'atBats', 'plateAppearances', 'hits', 'doubles', 'triples', 'homeRuns', 'runs', 'rbis',
+  'walks', 'intentionalWalks', 'hitByPitch', 'sacFlies', 'batterStrikeouts',
+  'stolenBases', 'caughtStealing', 'totalBases',
+  // Pitching
+  'outs', 'battersFaced', 'hitsAllowed', 'walksAllowed', 'hitBatsmen', 'runsAllowed', 'earnedRuns',
+  'homeRunsAllowed', 'strikeouts', 'wins', 'losses', 'saves', 'holds', 'blownSaves',
+  'saveOpportunities', 'gamesPitched', 'gamesStarted', 'completeGames', 'qualityStarts',
+] as const;
+
+export type ComponentKey = typeof COMPONENT_KEYS[number];
+export type StatComponents = Record<ComponentKey, number>;
+
+export function emptyComponents(): StatComponents {
+  return Object.fromEntries(COMPONENT_KEYS.map(k => [k, 0])) as StatComponents;
+}
+
+/** Add `source` into `target` in place and return it. */
+export function addComponents(target: StatComponents, source: Partial<StatComponents>): StatComponents {
+  for (const key of COMPONENT_KEYS) target[key] += source[key] || 0;
+  return target;
+}
+
+/** A copy of `components` with every count multiplied by `factor` (projections). */
+export function scaleComponents(components: StatComponents, factor: number): StatComponents {
+  return Object.fromEntries(COMPONENT_KEYS.map(k => [k, components[k] * factor])) as StatComponents;
+}
+
+/**
+ * Map one game's statsapi `batting` / `pitching` objects (boxscore or
+ * `stats=game` splits) to components.
+ */
+export function componentsFromMLB(batting: MLBBattingLine = {}, pitching: MLBPitchingLine = {}): StatComponents {
+  const n = (v: unknown) => Number(v || 0);
+  const c = emptyComponents();
+  const b = batting || {};
+  const p = pitching || {};
+
+  c.atBats = n(b.atBats);
+  c.plateAppearances = n(b.plateAppearances);
+  c.hits = n(b.hits);
+  c.doubles = n(b.doubles);
+  c.triples = n(b.triples);
+  c.homeRuns = n(b.homeRuns);
+  c.runs = n(b.runs);
+  c.rbis = n(b.rbi);
+  c.walks = n(b.baseOnBalls);
+  c.intentionalWalks = n(b.intentionalWalks);
+  c.hitByPitch = n(b.hitByPitch);
+  c.sacFlies = n(b.sacFlies);
+  c.batterStrikeouts = n(b.strikeOuts);
+  c.stolenBases = n(b.stolenBases);
+  c.caughtStealing = n(b.caughtStealing);
+  c.totalBases = b.totalBases !== undefined
+    ? n(b.totalBases)
+    : c.hits + c.doubles + 2 * c.triples + 3 * c.homeRuns;
+
+  c.outs = p.outs !== undefined ? n(p.outs) : outsFromInningsPitched(p.inningsPitched);
+  c.battersFaced = n(p.battersFaced);
+  c.hitsAllowed = n(p.hits);
+  c.walksAllowed = n(p.baseOnBalls);
+  c.hitBatsmen = n(p.hitBatsmen);
+  c.runsAllowed = n(p.runs);
+  c.earnedRuns = n(p.earnedRuns);
+  c.homeRunsAllowed = n(p.homeRuns);
+  c.strikeouts = n(p.strikeOuts);
+  c.wins = n(p.wins);
+  c.losses = n(p.losses);
+  c.saves = n(p.saves);
+  c.holds = n(p.holds);
+  c.blownSaves = n(p.blownSaves);
+  c.saveOpportunities = n(p.saveOpportunities);
+  c.gamesPitched = n(p.gamesPlayed ?? p.gamesPitched);
+  c.gamesStarted = n(p.gamesStarted);
+  c.completeGames = n(p.completeGames);
+  // statsapi game lines don't carry QS: 6+ IP and 3 or fewer ER in a start
+  c.qualityStarts = c.gamesStarted > 0 && c.outs >= 18 && c.earnedRuns <= 3 ? 1 : 0;
+  return c;
+}
+
+export interface StatDefinition {
+  statId: number;          // ESPN stat id
+  key: string;             // key in team stat lines
+  name: string;
+  abbrev: string;
+  type: 'batting' | 'pitching';
+  lowerIsBetter: boolean;  // default sort; the league's isReverseItem wins
+  decimals: number;
+  compute: (c: StatComponents) => number;
+  // ESPN's stored value in the displayed unit, where they differ
+  fromEspn?: (value: number) => number;
+}
+
+const ratio = (num: number, den: number) => (den > 0 ? num / den : 0);
+const singles = (c: StatComponents) => c.hits - c.doubles - c.triples - c.homeRuns;
+const obp = (c: StatComponents) =>
+  ratio(c.hits + c.walks + c.hitByPitch, c.atBats + c.walks + c.hitByPitch + c.sacFlies);
+const slg = (c: StatComponents) => ratio(c.totalBases, c.atBats);
+
+const bat = (statId: number, key: string, name: string, abbrev: string, compute: StatDefinition['compute'], decimals = 0, lowerIsBetter = false): StatDefinition =>
+  ({ statId, key, name, abbrev, type: 'batting', lowerIsBetter, decimals, compute });
+const pit = (statId: number, key: string, name: string, abbrev: string, compute: StatDefinition['compute'], decimals = 0, lowerIsBetter = false): StatDefinition =>
+  ({ statId, key, name, abbrev, type: 'pitching', lowerIsBetter, decimals, compute });
+
+// Keys for the classic 5x5 categories match the names used throughout the app
+export const STAT_DEFINITIONS: StatDefinition[] = [
+  bat(0, 'atBats', 'At Bats', 'AB', c => c.atBats),
+  bat(1, 'hits', 'Hits', 'H', c => c.hits),
+  bat(2, 'battingAverage', 'Batting Average', 'AVG', c => ratio(c.hits, c.atBats), 3),
+  bat(3, 'doubles', 'Doubles', '2B', c => c.doubles),
+  bat(4, 'triples', 'Triples', '3B', c => c.triples),
+  bat(5, 'homeRuns', 'Home Runs', 'HR', c => c.homeRuns),
+  bat(6, 'extraBaseHits', 'Extra Base Hits', 'XBH', c => c.doubles + c.triples + c.homeRuns),
+  bat(7, 'singles', 'Singles', '1B', singles),
+  bat(8, 'totalBases', 'Total Bases', 'TB', c => c.totalBases),
+  bat(9, 'sluggingPercentage', 'Slugging Percentage', 'SLG', slg, 3),
+  bat(10, 'walks', 'Walks', 'BB', c => c.walks),
+  bat(11, 'intentionalWalks', 'Intentional Walks', 'IBB', c => c.intentionalWalks),
+  bat(12, 'hitByPitch', 'Hit By Pitch', 'HBP', c => c.hitByPitch),
+  bat(13, 'sacFlies', 'Sacrifice Flies', 'SF', c => c.sacFlies),
+  bat(16, 'plateAppearances', 'Plate Appearances', 'PA', c => c.plateAppearances),
+  bat(17, 'onBasePercentage', 'On-Base Percentage', 'OBP', obp, 3),
+  bat(18, 'ops', 'On-Base Plus Slugging', 'OPS', c => obp(c) + slg(c), 3),
+  bat(20, 'runs', 'Runs', 'R', c => c.runs),
+  bat(21, 'rbis', 'RBIs', 'RBI', c => c.rbis),
+  bat(23, 'stolenBases', 'Stolen Bases', 'SB', c => c.stolenBases),
+  bat(24, 'caughtStealing', 'Caught Stealing', 'CS', c => c.caughtStealing, 0, true),
+  bat(25, 'netStolenBases', 'Net Stolen Bases', 'SB-CS', c => c.stolenBases - c.caughtStealing),
+  bat(27, 'batterStrikeouts', 'Batter Strikeouts', 'SO', c => c.batterStrikeouts, 0, true),
+
+  pit(32, 'gamesPitched', 'Appearances', 'APP', c => c.gamesPitched),
+  pit(33, 'gamesStarted', 'Games Started', 'GS', c => c.gamesStarted),
+  // ESPN stores IP (stat 34) as outs
+  { ...pit(34, 'inningsPitched', 'Innings Pitched', 'IP', c => c.outs / 3, 1), fromEspn: outs => outs / 3 },
+  pit(35, 'battersFaced', 'Batters Faced', 'TBF', c => c.battersFaced),
+  pit(37, 'hitsAllowed', 'Hits Allowed', 'HA', c => c.hitsAllowed, 0, true),
+  pit(39, 'walksAllowed', 'Walks Allowed', 'BBA', c => c.walksAllowed, 0, true),
+  pit(41, 'whip', 'WHIP', 'WHIP', c => ratio(3 * (c.walksAllowed + c.hitsAllowed), c.outs), 2, true),
+  pit(44, 'runsAllowed', 'Runs Allowed', 'RA', c => c.runsAllowed, 0, true),
+  pit(45, 'earnedRuns', 'Earned Runs', 'ER', c => c.earnedRuns, 0, true),
+  pit(46, 'homeRunsAllowed', 'Home Runs Allowed', 'HRA', c => c.homeRunsAllowed, 0, true),
+  pit(47, 'era', 'ERA', 'ERA', c => ratio(27 * c.earnedRuns, c.outs), 2, true),
+  pit(48, 'strikeouts', 'Strikeouts', 'K', c => c.strikeouts),
+  pit(49, 'strikeoutsPerNine', 'Strikeouts per 9', 'K/9', c => ratio(27 * c.strikeouts, c.outs), 2),
+  pit(53, 'wins', 'Wins', 'W', c => c.wins),
+  pit(54, 'losses', 'Losses', 'L', c => c.losses, 0, true),
+  pit(56, 'saveOpportunities', 'Save Opportunities', 'SVO', c => c.saveOpportunities),
+  pit(57, 'saves', 'Saves', 'SV', c => c.saves),
+  pit(58, 'blownSaves', 'Blown Saves', 'BS', c => c.blownSaves, 0, true),
+  pit(59, 'savePercentage', 'Save Percentage', 'SV%', c => ratio(c.saves, c.saveOpportunities), 3),
+  pit(60, 'holds', 'Holds', 'HD', c => c.holds),
+  pit(62, 'completeGames', 'Complete Games', 'CG', c => c.completeGames),
+  pit(63, 'qualityStarts', 'Quality Starts', 'QS', c => c.qualityStarts),
+  pit(82, 'strikeoutToWalk', 'Strikeout to Walk Ratio', 'K/BB', c => ratio(c.strikeouts, c.walksAllowed), 2),
+  pit(83, 'savesPlusHolds', 'Saves Plus Holds', 'SVHD', c => c.saves + c.holds),
+];
+
+const BY_STAT_ID = new Map(STAT_DEFINITIONS.map(d => [d.statId, d]));
+const BY_KEY = new Map(STAT_DEFINITIONS.map(d => [d.key, d]));
+
+export function getStatDefinition(statId: number): StatDefinition | undefined {
+  return BY_STAT_ID.get(statId);
+}
+
+export function getStatDefinitionByKey(key: string): StatDefinition | undefined {
+  return BY_KEY.get(key);
+}
+
+/** An ESPN stat value (valuesByStat, scoreByStat, ...) in the unit the app shows. */
+export function fromEspnValue(statId: number, value: number): number {
+  const def = BY_STAT_ID.get(statId);
+  return def?.fromEspn ? def.fromEspn(Number(value)) : Number(value);
+}
+
+function toCategory(def: StatDefinition, overrides: Partial<ScoringCategory> = {}): ScoringCategory {
+  const { statId, key, name, abbrev, type, lowerIsBetter, decimals } = def;
+  return { statId, key, name, abbrev, type, lowerIsBetter, decimals, ...overrides };
+}
+
+// R, HR, RBI, SB, AVG / K, W, SV, ERA, WHIP
+export const DEFAULT_CATEGORIES: ScoringCategory[] = [20, 5, 21, 23, 2, 48, 53, 57, 47, 41]
+  .map(id => toCategory(BY_STAT_ID.get(id)!));
+
+/**
+ * Build the league's categories from ESPN `settings.scoringSettings`.
+ * Unknown stat ids are skipped with a warning rather than guessed at.
+ */
+export function buildCategoriesFromSettings(scoringSettings: ESPNScoringSettings | undefined): ScoringCategory[] {
+  const items = scoringSettings?.scoringItems || [];
+  const categories: ScoringCategory[] = [];
+  for (const item of items) {
+    const def = BY_STAT_ID.get(Number(item.statId));
+    if (!def) {
+      console.warn(`[CategoryRegistry] Unsupported ESPN stat id ${item.statId}; ignoring`);
+      continue;
+    }
+    categories.push(toCategory(def, {
+      lowerIsBetter: typeof item.isReverseItem === 'boolean' ? item.isReverseItem : def.lowerIsBetter,
+      points: typeof item.points === 'number' ? item.points : undefined,
+    }));
+  }
+  // Batting first, then pitching, keeping ESPN's order within each group
+  return [
+    ...categories.filter(c => c.type === 'batting'),
+    ...categories.filter(c => c.type === 'pitching'),
+  ];
+}
+
+/** Every known stat, computed from components, keyed by category key. */
+export function computeStatLine(components: StatComponents): Record<string, number> {
+  const line: Record<string, number> = {};
+  for (const def of STAT_DEFINITIONS) line[def.key] = def.compute(components);
+  return line;
+}
+
+/** A team's (or player's) category values plus the summed components behind them. */
+export type TeamStatLine = Record<string, number> & { components: StatComponents };
+
+export function buildStatLine(components: StatComponents): TeamStatLine {
+  return { ...computeStatLine(components), components } as TeamStatLine;
+}
+
+export function compareCategory(
+  category: ScoringCategory,
+  value1: number,
+  value2: number
+): 'team1' | 'team2' | 'tie' {
+  const a = Number(value1 || 0);
+  const b = Number(value2 || 0);
+  // Compare at display precision so 3.001 vs 3.004 ERA is a tie, as ESPN shows it
+  const scale = Math.pow(10, category.decimals);
+  const ra = Math.round(a * scale);
+  const rb = Math.round(b * scale);
+  if (ra === rb) return 'tie';
+  const firstBetter = category.lowerIsBetter ? ra < rb : ra > rb;
+  return firstBetter ? 'team1' : 'team2';
+}
+
+export function formatCategoryValue(category: ScoringCategory, value: number | undefined | null): string {
+  const v = Number(value || 0);
+  if (category.key === 'inningsPitched') {
+    // Baseball notation: 6.1 is six and one-third innings
+    const outs = Math.round(v * 3);
+    return `${Math.floor(outs / 3)}.${outs % 3}`;
+  }
+  if (category.decimals === 0) return Math.round(v).toString();
+  return v.toFixed(category.decimals);
+}
@@ -1,23 +1,64 @@
 import { fantasyAPI } from './apiService';
-import { ESPNApiService } from './espnApiService';
+import {
+  ESPN_CONFIG, ESPNApiService, ESPNFreeAgent, ESPNLeagueSettings, ESPNMatchupScore, ESPNRosterPlayer, ProxyResponseMeta,
+} from './espnApiService';
+import { FixtureMode, getFixtureMode, setFixtureMode } from './fixtureMode';
+import {
+  buildCategoriesFromSettings, computeStatLine, DEFAULT_CATEGORIES, emptyComponents, fromEspnValue,
+} from './categoryRegistry';
+import { PitchingLimits, ScoringCategory } from '../types/fantasy';
+import {
+  computeRotoStandings, ScoringFormat, scoringFormatFromSettings, statLineFromValuesByStat,
+} from '../utils/scoringEngines';
 import * as weekUtils from '../utils/weekUtils';
-import { mlbApiService } from './mlbApiService';
+import { mlbApiService, mlbFetch } from './mlbApiService';
 import { buildWeekMetaMapFromMLB } from '../utils/mlbWeekUtils';
 import { mlbStatService } from './mlbStatService';
 import { playerMatcher, ESPNPlayer, MLBPlayer } from './playerMatcher';
+import { computeWeekStats } from './statsAggregator';
+
+// ESPN lineupSlotId -> short label
+export const LINEUP_SLOT_LABELS: Record<number, string> = {
+  0: 'C', 1: '1B', 2: '2B', 3: '3B', 4: 'SS', 5: 'OF', 6: '2B/SS', 7: '1B/3B',
+  8: 'LF', 9: 'CF', 10: 'RF', 11: 'DH', 12: 'UTIL', 13: 'P', 14: 'SP', 15: 'RP',
+  16: 'BE', 17: 'IL', 19: 'IF',
+};
+
+export const BENCH_SLOT_ID = 16;
+export const IL_SLOT_ID = 17;
+
+// Every slot except bench and IL counts toward team stats, whatever the
+// player's injury status – that is how ESPN scores it.
+export const STARTER_SLOT_IDS = Object.keys(LINEUP_SLOT_LABELS)
+  .map(Number)
+  .filter(slot => slot !== BENCH_SLOT_ID && slot !== IL_SLOT_ID);
+
+export function isStarterSlot(slotId: number): boolean {
+  return STARTER_SLOT_IDS.includes(slotId);
+}
+
+// Same freshness the proxy gives live matchups
+const LIVE_SCORES_MAX_AGE_MS = 2 * 60 * 1000;
+
+// ESPN injury statuses of players who can still play today
+const PLAYING_STATUSES = ['ACTIVE', 'DAY_TO_DAY'];
 
-// League uses 22 starter slots: hitters (0-12) and pitchers (13-21).
-// Bench = 23, IL = 24-25, NA = 26.  Only include 0-21.
-export const STARTER_SLOT_IDS = [
-  // Hitters
-  0, 1, 2, 3, 4, 5, 6,       // C, 1B, 2B, 3B, SS, MI, CI
-  7, 8, 9, 10,               // OF x4
-  11, 12,                    // UTIL x2
-  // Pitchers
-  13, 14,                    // SP x2
-  15, 16,                    // RP x2
-  17, 18, 19, 20, 21         // P  x5
-];
+export function isPlayingStatus(status?: string): boolean {
+  return PLAYING_STATUSES.includes(status || 'ACTIVE');
+}
+
+// One pairing in a week, live from ESPN or from the bundled matchups.json
+export interface WeekMatchup {
+  id: string;
+  week: number;
+  team1Id: number;
+  team2Id: number;
+  homeTeamId: number;
+  awayTeamId: number;
+  homeScore: number;
+  awayScore: number;
+  status: string;
+}
 
 interface APIConfig {
   useRealAPI: boolean;
@@ -25,6 +66,8 @@ interface APIConfig {
   cacheTimeout: number;
   maxConcurrentRequests: number;
   requestDeduplication: boolean;
+  // Record/replay ESPN and MLB traffic through the proxy's fixture store
+  fixtureMode: FixtureMode;
 }
 
 interface PendingRequest {
@@ -39,6 +82,13 @@ interface RequestStats {
   errors: number;
   pendingRequests: number;
   activeRequests: number;
+  // Breakdown of ESPN requests as reported by the proxy's cache headers
+  proxyCacheHits: number;
+  proxyCacheMisses: number;
+  proxyCoalesced: number;
+  proxyUpstreamMs: number;
+  proxyQueueMs: number;
+  proxyTotalMs: number;
 }
 
 // Helper: Build a map of week number (matchupPeriodId) to scoringPeriodIds from league.schedule
@@ -96,6 +146,7 @@ class DataService {
     cacheTimeout: 12 * 60 * 60 * 1000, // 12 hours
     maxConcurrentRequests: 10,
     requestDeduplication: true,
+    fixtureMode: getFixtureMode(),
   };
 
   private cache: Map<string, { data: any; timestamp: number }> = new Map();
@@ -107,14 +158,23 @@ class DataService {
     errors: 0,
     pendingRequests: 0,
     activeRequests: 0,
+    proxyCacheHits: 0,
+    proxyCacheMisses: 0,
+    proxyCoalesced: 0,
+    proxyUpstreamMs: 0,
+    proxyQueueMs: 0,
+    proxyTotalMs: 0,
   };
 
   private espnService: ESPNApiService;
   private weekToScoringPeriodMap: Record<number, number[]> | null = null;
   private weekMetaMap: Record<number, any> | null = null;
+  private referenceDatePromise: Promise<Date> | null = null;
+  private referenceDateOverride: Date | null = null;
 
   constructor() {
-    this.espnService = new ESPNApiService();
+    this.espnService = new ESPNApiService(meta => this.recordProxyMeta(meta));
+    this.espnService.registerCredentials();
     // Capture daily roster snapshot
     import('../../src/store/rosterHistory').then(m => m.snapshotToday());
   }
@@ -123,17 +183,66 @@ class DataService {
     return { ...this.config };
   }
 
+  /**
+   * Point the app at the proxy's fixture store. Clears every cache so the
+   * next load comes entirely from the recorded (or freshly recorded) traffic.
+   */
+  setFixtureMode(mode: FixtureMode): void {
+    this.config.fixtureMode = mode;
+    setFixtureMode(mode);
+    this.clearCache();
+    this.weekMetaMap = null;
+    this.weekToScoringPeriodMap = null;
+    this.referenceDatePromise = null;
+  }
+
+  /**
+   * "Now" for week/season calculations. When replaying fixtures this is the
+   * moment the capture started, so the dashboard opens on the captured week.
+   */
+  getReferenceDate(): Promise<Date> {
+    if (this.referenceDateOverride) return Promise.resolve(this.referenceDateOverride);
+    if (this.config.fixtureMode !== 'replay') return Promise.resolve(new Date());
+    if (!this.referenceDatePromise) {
+      this.referenceDatePromise = fetch(`${ESPN_CONFIG.PROXY_URL}/fixtures/manifest`)
+        .then(res => (res.ok ? res.json() : null))
+        .then(manifest => (manifest?.referenceDate ? new Date(manifest.referenceDate) : new Date()))
+        .catch(err => {
+          console.warn('⚠️ Could not read fixture manifest, using the real clock:', err);
+          return new Date();
+        });
+    }
+    return this.referenceDatePromise;
+  }
+
+  /**
+   * Pin "now" to a date, e.g. to replay a past week as it looked the day
+   * before it started; null goes back to the clock (or fixture manifest).
+   */
+  setReferenceDate(date: Date | null): void {
+    this.referenceDateOverride = date;
+  }
+
   getRequestStats(): RequestStats {
     return { ...this.requestStats, pendingRequests: this.pendingRequests.size };
   }
 
-  private async fetchWithCache<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  private recordProxyMeta(meta: ProxyResponseMeta): void {
+    if (meta.cache === 'HIT') this.requestStats.proxyCacheHits++;
+    else if (meta.cache === 'COALESCED') this.requestStats.proxyCoalesced++;
+    else this.requestStats.proxyCacheMisses++;
+    this.requestStats.proxyUpstreamMs += meta.upstreamMs;
+    this.requestStats.proxyQueueMs += meta.queueMs;
+    this.requestStats.proxyTotalMs += meta.totalMs;
+  }
+
+  private async fetchWithCache<T>(key: string, fetcher: () => Promise<T>, maxAgeMs = this.config.cacheTimeout): Promise<T> {
     this.requestStats.totalRequests++;
     
     // Check cache first
     if (this.config.enableCaching) {
       const cached = this.cache.get(key);
-      if (cached && Date.now() - cached.timestamp < this.config.cacheTimeout) {
+      if (cached && Date.now() - cached.timestamp < maxAgeMs) {
         this.requestStats.cacheHits++;
         return cached.data as T;
       }
@@ -217,7 +326,7 @@ class DataService {
 
     try {
       console.log('📅 Building weekMetaMap exclusively from MLB calendar');
-      const season = new Date().getUTCFullYear();
+      const season = (await this.getReferenceDate()).getUTCFullYear();
       const mlbSchedule = await mlbApiService.getSeasonDates(season);
       this.weekMetaMap = buildWeekMetaMapFromMLB(mlbSchedule);
       
@@ -408,7 +517,7 @@ class DataService {
       return 1;
     }
 
-    const now = new Date();
+    const now = await this.getReferenceDate();
     // Find the first week where the end date is in the future
     for (const weekNum in this.weekMetaMap) {
       const week = this.weekMetaMap[weekNum];
@@ -425,6 +534,108 @@ class DataService {
     return lastWeek;
   }
 
+  /** ESPN league settings (scoring, roster, schedule). Cached like other league data. */
+  async getLeagueSettings(): Promise<ESPNLeagueSettings> {
+    return this.fetchWithCache('league-settings', () => this.espnService.getLeagueSettings());
+  }
+
+  /**
+   * Starting lineup slots the league uses and how many of each
+   * (rosterSettings.lineupSlotCounts); bench and IL are left out.
+   */
+  async getLineupSlotCounts(): Promise<Record<number, number>> {
+    const settings = await this.getLeagueSettings();
+    const counts: Record<number, number> = {};
+    for (const [slot, count] of Object.entries(settings.rosterSettings?.lineupSlotCounts || {})) {
+      if (isStarterSlot(Number(slot)) && Number(count) > 0) counts[Number(slot)] = Number(count);
+    }
+    return counts;
+  }
+
+  /**
+   * Games-started and innings maximums per matchup period, from
+   * rosterSettings.lineupSlotStatLimits (slot id -> { statId, limitValue }).
+   * Limits are in ESPN's units, so the innings cap arrives as outs.
+   * Empty when the league has none.
+   */
+  async getPitchingLimits(): Promise<PitchingLimits> {
+    const settings = await this.getLeagueSettings();
+    const limits: PitchingLimits = {};
+    const tighter = (current: number | undefined, value: number) => current === undefined ? value : Math.min(current, value);
+    for (const limit of Object.values(settings.rosterSettings?.lineupSlotStatLimits || {})) {
+      const value = Number(limit?.limitValue);
+      if (!(value > 0)) continue;
+      if (limit.statId === 33) limits.gamesStarted = tighter(limits.gamesStarted, value);
+      if (limit.statId === 34) limits.innings = tighter(limits.innings, fromEspnValue(34, value));
+    }
+    return limits;
+  }
+
+  /**
+   * ESPN's official per-category values for each matchup in a week. The
+   * current week's totals move all day, so they're only reused briefly.
+   */
+  async getOfficialMatchupScores(week: number): Promise<ESPNMatchupScore[]> {
+    const live = week >= await this.getCurrentWeek();
+    const all = await this.fetchWithCache(
+      'matchup-scores',
+      () => this.espnService.getMatchupScores(),
+      live ? LIVE_SCORES_MAX_AGE_MS : undefined
+    );
+    return all.filter((m: ESPNMatchupScore) => m.matchupPeriodId === week);
+  }
+
+  /**
+   * The league's scoring categories, read from ESPN scoringItems. Falls back
+   * to the classic 5x5 when settings are unavailable.
+   */
+  async getScoringCategories(): Promise<ScoringCategory[]> {
+    try {
+      const settings = await this.getLeagueSettings();
+      const categories = buildCategoriesFromSettings(settings.scoringSettings);
+      if (categories.length > 0) return categories;
+      console.warn('⚠️ League has no supported scoring categories; using defaults');
+    } catch (error) {
+      console.warn('⚠️ Could not load scoring settings; using default categories:', error);
+    }
+    return DEFAULT_CATEGORIES;
+  }
+
+  async getScoringFormat(): Promise<ScoringFormat> {
+    try {
+      const settings = await this.getLeagueSettings();
+      return scoringFormatFromSettings(settings.scoringSettings);
+    } catch (error) {
+      console.warn('⚠️ Could not load scoring settings; assuming H2H categories:', error);
+      return 'H2H_CATEGORY';
+    }
+  }
+
+  /**
+   * Rank roto teams by category points from ESPN's season totals. Without
+   * valuesByStat we keep ESPN's own roto point total.
+   */
+  private async applyRotoStandings(standings: any[]): Promise<void> {
+    const categories = await this.getScoringCategories();
+    const seasonLines: Record<number, Record<string, number>> = {};
+    for (const team of standings) {
+      if (team.valuesByStat) seasonLines[team.id] = statLineFromValuesByStat(team.valuesByStat);
+    }
+
+    if (Object.keys(seasonLines).length === standings.length) {
+      const roto = computeRotoStandings(seasonLines, categories);
+      for (const team of standings) {
+        const row = roto.find(r => r.teamId === team.id);
+        team.rotoPoints = row?.totalPoints ?? 0;
+        team.rotoRank = row?.rank;
+        team.rotoCategoryPoints = row?.categoryPoints;
+        team.seasonStats = seasonLines[team.id];
+      }
+    } else {
+      console.warn('⚠️ ESPN did not return season totals for every team; using ESPN roto points');
+    }
+  }
+
   async getLeagueInfo(): Promise<any> {
     return this.fetchWithCache('league-info', async () => {
       let espnData = null;
@@ -616,12 +827,18 @@ class DataService {
             divisionId: team.divisionId,
             divisionName: team.divisionName || (team.divisionId !== undefined ? divisionMap.get(team.divisionId) : undefined),
             winPercentage: team.wins / Math.max(team.wins + team.losses, 1),
-            pointsFor: team.wins * 100, // Placeholder
-            pointsAgainst: team.losses * 100, // Placeholder
+            pointsFor: team.pointsFor ?? 0,
+            pointsAgainst: team.pointsAgainst ?? 0,
             record: `${team.wins}-${team.losses}${team.ties > 0 ? `-${team.ties}` : ''}`,
+            valuesByStat: team.valuesByStat,
+            rotoPoints: team.rotoPoints,
             dataSource: 'ESPN_API'
           }));
           
+          if ((await this.getScoringFormat()) === 'ROTO') {
+            await this.applyRotoStandings(espnData);
+          }
+          
           console.log('✅ Successfully fetched team standings from ESPN API');
           console.log('📊 Sample team with division data:', espnData[0]);
           
@@ -726,7 +943,7 @@ class DataService {
     });
   }
 
-  async getTeamRoster(teamId: number, week?: number): Promise<any[]> {
+  async getTeamRoster(teamId: number, week?: number): Promise<ESPNRosterPlayer[]> {
     const key = `roster-${teamId}${week ? `-w${week}` : ''}`;
 
     return this.fetchWithCache(key, async () => {
@@ -771,10 +988,15 @@ class DataService {
     });
   }
 
+  /** Unrostered players eligible for an ESPN lineup slot (e.g. 14 for SP). */
+  async getFreeAgents(slotId: number, limit = 50): Promise<ESPNFreeAgent[]> {
+    return this.fetchWithCache(`free-agents-${slotId}-${limit}`, () => this.espnService.getFreeAgents(slotId, limit));
+  }
+
   /**
    * Fetch the roster for a specific team and scoringPeriodId (day).
    */
-  async getTeamRosterForDay(teamId: number, scoringPeriodId: number): Promise<any[]> {
+  async getTeamRosterForDay(teamId: number, scoringPeriodId: number): Promise<ESPNRosterPlayer[]> {
     const key = `roster-${teamId}-spid${scoringPeriodId}`;
     return this.fetchWithCache(key, async () => {
       const rosterData = await this.espnService.getAllTeamRosters(scoringPeriodId);
@@ -803,169 +1025,24 @@ class DataService {
   }
 
   async getWeeklyStats(week?: number): Promise<any> {
-    console.log('🔥 [getWeeklyStats] FUNCTION CALLED for week', week);
-    console.log('🔥 [getWeeklyStats] Using NEW FUZZY MATCHING approach!');
-    
-    const cacheKey = `weekly-stats-fuzzy-${week || 'current'}`;
+    const cacheKey = `weekly-stats-${week || 'current'}`;
     this.cache.delete(cacheKey);
     
     return this.fetchWithCache(cacheKey, async () => {
+      const targetWeek = week || await this.getCurrentWeek();
       try {
-        // Get the actual week metadata to use real dates
-        const targetWeek = week || await this.getCurrentWeek();
-        console.log(`🔥 [getWeeklyStats] Target week: ${targetWeek}`);
-        
-        // Get week metadata to understand the actual dates
-        const weekMetaMap = await this.getWeekMetaMap();
-        const weekMeta = weekMetaMap[targetWeek];
-        
-        if (!weekMeta) {
-          console.error(`🔥 [getWeeklyStats] No metadata found for week ${targetWeek}`);
-          return { week: targetWeek, teamStats: {}, note: 'No week metadata found' };
+        // Shared engine: snapshot/ESPN rosters, fuzzy-matched MLB lines
+        const { teamStats, ledger } = await computeWeekStats(targetWeek);
+        if (Object.keys(teamStats).length === 0) {
+          return { week: targetWeek, teamStats, ledger, note: 'No week metadata found' };
         }
-        
-        console.log(`🔥 [getWeeklyStats] Week ${targetWeek} metadata:`, weekMeta);
-        const scoringIds = weekMeta.scoringPeriodIds;
-        console.log(`🔥 [getWeeklyStats] Scoring period IDs for week ${targetWeek}:`, scoringIds);
-        
-        const teams = await this.getTeams();
-        console.log(`🔥 [getWeeklyStats] Loaded ${teams.length} teams`);
-        const teamStats: Record<number, any> = {};
-        
-        // Calculate the actual dates for this week
-        const weekDates: string[] = [];
-        if (weekMeta.startISO) {
-          const startDate = new Date(weekMeta.startISO);
-          for (let i = 0; i < scoringIds.length; i++) {
-            const date = new Date(startDate);
-            date.setUTCDate(startDate.getUTCDate() + i);
-            weekDates.push(date.toISOString().slice(0, 10));
-          }
-        } else {
-          // Fallback: use 2025 season dates for testing
-          console.warn(`🔥 [getWeeklyStats] No start date for week ${targetWeek}, using fallback dates`);
-          // Use dates from July 2025 when the season would be active
-          weekDates.push('2025-07-07', '2025-07-08', '2025-07-09', '2025-07-10', '2025-07-11', '2025-07-12', '2025-07-13');
-        }
-        console.log(`🔥 [getWeeklyStats] Week dates:`, weekDates);
-        
-        for (const team of teams) {
-          console.log(`🔥 [getWeeklyStats] Processing team ${team.id} (${team.name})`);
-          const agg = {
-            runs: 0, homeRuns: 0, rbis: 0, stolenBases: 0, battingAverage: 0, hits: 0,
-            strikeouts: 0, wins: 0, saves: 0, era: 0, whip: 0, qualityStarts: 0
-          };
-          let abTotal = 0, hTotal = 0, eraER = 0, eraIP = 0, whipNum = 0, whipIP = 0;
-          let totalMatches = 0;
-          
-          for (let dayIndex = 0; dayIndex < scoringIds.length; dayIndex++) {
-            const scoringPeriodId = scoringIds[dayIndex];
-            const dateStr = weekDates[dayIndex];
-            
-            console.log(`🔥 [getWeeklyStats] Day ${dayIndex + 1}/7: scoringPeriodId ${scoringPeriodId} -> ${dateStr}`);
-            
-            // Get ESPN roster for this day
-            const roster = await this.getTeamRosterForDay(team.id, scoringPeriodId);
-            console.log(`🔥 [getWeeklyStats] Team ${team.id} roster: ${roster.length} players`);
-            
-            const starters = roster.filter((p: any) => p.lineupSlotId !== 16 && p.lineupSlotId !== 17 && p.status === 'ACTIVE');
-            console.log(`🔥 [getWeeklyStats] Team ${team.id} starters: ${starters.length} players`);
-            
-            if (starters.length > 0) {
-              // Convert ESPN players to our interface
-              const espnPlayers: ESPNPlayer[] = starters.map(p => ({
-                playerId: p.playerId,
-                fullName: p.fullName || p.name || 'Unknown',
-                teamAbbrev: p.teamAbbrev || p.team?.abbreviation,
-                teamId: p.teamId,
-                position: p.position,
-                lineupSlotId: p.lineupSlotId
-              }));
-              
-              console.log(`🔥 [getWeeklyStats] Fetching MLB players for ${dateStr}`);
-              const mlbPlayersRaw = await mlbStatService.getMLBPlayersForDate(dateStr);
-              console.log(`🔥 [getWeeklyStats] Found ${mlbPlayersRaw.length} MLB players on ${dateStr}`);
-              
-              // Convert to our interface
-              const mlbPlayers: MLBPlayer[] = mlbPlayersRaw.map(p => ({
-                id: p.id,
-                fullName: p.fullName,
-                team: p.team,
-                position: p.position,
-                stats: p.stats
-              }));
-              
-              if (mlbPlayers.length > 0) {
-                console.log(`🔥 [getWeeklyStats] Starting fuzzy matching for ${espnPlayers.length} ESPN players vs ${mlbPlayers.length} MLB players`);
-                const matches = await playerMatcher.matchPlayers(espnPlayers, mlbPlayers);
-                
-                // Aggregate stats from successful matches
-                for (const match of matches) {
-                  if (match.mlbPlayer && match.confidence >= 0.5) { // Only use matches with decent confidence
-                    const stats = match.mlbPlayer.stats;
-                    if (stats) {
-                      // Add batting stats
-                      if (stats.batting) {
-                        agg.runs += Number(stats.batting.runs || 0);
-                        agg.homeRuns += Number(stats.batting.homeRuns || 0);
-                        agg.rbis += Number(stats.batting.rbi || 0);
-                        agg.stolenBases += Number(stats.batting.stolenBases || 0);
-                        agg.hits += Number(stats.batting.hits || 0);
-                        abTotal += Number(stats.batting.atBats || 0);
-                        hTotal += Number(stats.batting.hits || 0);
-                      }
-                      
-                      // Add pitching stats
-                      if (stats.pitching) {
-                        agg.strikeouts += Number(stats.pitching.strikeOuts || 0);
-                        agg.wins += Number(stats.pitching.wins || 0);
-                        agg.saves += Number(stats.pitching.saves || 0);
-                        
-                        const ip = Number(stats.pitching.inningsPitched || 0);
-                        const er = Number(stats.pitching.earnedRuns || 0);
-                        const h = Number(stats.pitching.hits || 0);
-                        const bb = Number(stats.pitching.baseOnBalls || 0);
-                        
-                        eraIP += ip;
-                        eraER += er;
-                        whipNum += h + bb;
-                        whipIP += ip;
-                        
-                        // Quality start check
-                        if (ip >= 6 && er <= 3) agg.qualityStarts += 1;
-                      }
-                      
-                      totalMatches++;
-                      console.log(`🔥 [getWeeklyStats] ✅ Used stats from ${match.espnPlayer.fullName} → ${match.mlbPlayer.fullName} (${(match.confidence * 100).toFixed(1)}%)`);
-                    }
-                  } else if (match.mlbPlayer) {
-                    console.log(`🔥 [getWeeklyStats] ⚠️ Low confidence match: ${match.espnPlayer.fullName} → ${match.mlbPlayer.fullName} (${(match.confidence * 100).toFixed(1)}%)`);
-                  } else {
-                    console.log(`🔥 [getWeeklyStats] ❌ No match: ${match.espnPlayer.fullName}`);
-                  }
-                }
-              } else {
-                console.log(`🔥 [getWeeklyStats] No MLB players found for ${dateStr}`);
-              }
-            }
-          }
-          
-          // Calculate final averages
-          agg.battingAverage = abTotal ? hTotal / abTotal : 0;
-          agg.era = eraIP ? (eraER * 9) / eraIP : 0;
-          agg.whip = whipIP ? whipNum / whipIP : 0;
-          teamStats[team.id] = agg;
-          
-          console.log(`🔥 [getWeeklyStats] Team ${team.id} final: ${totalMatches} matches, totals:`, agg);
-        }
-        
-        console.log('🔥 [getWeeklyStats] Final result:', { week: targetWeek, teamStats, note: 'Computed using fuzzy matching' });
-        return { week: targetWeek, teamStats, note: 'Computed using fuzzy matching' };
+        return { week: targetWeek, teamStats, ledger, note: 'Computed using fuzzy matching' };
       } catch (error) {
         console.error('🔥 [getWeeklyStats] ERROR:', error);
         return {
-          week: week || 1,
+          week: targetWeek,
           teamStats: {},
+          ledger: {},
           note: 'Error loading weekly statistics'
         };
       }
@@ -992,37 +1069,14 @@ class DataService {
         
         if (historicalStats.length === 0) {
           // Defensive: no data available for expected stats calculation
-          return {
-            runs: 0,
-            homeRuns: 0,
-            rbis: 0,
-            stolenBases: 0,
-            battingAverage: 0,
-            hits: 0,
-            strikeouts: 0,
-            wins: 0,
-            saves: 0,
-            era: 0,
-            whip: 0,
-            qualityStarts: 0
-          };
+          return computeStatLine(emptyComponents());
         }
         
-        // Calculate median for each stat
-        const expectedStats = {
-          runs: this.calculateMedian(historicalStats.map(s => s.runs)),
-          homeRuns: this.calculateMedian(historicalStats.map(s => s.homeRuns)),
-          rbis: this.calculateMedian(historicalStats.map(s => s.rbis)),
-          stolenBases: this.calculateMedian(historicalStats.map(s => s.stolenBases)),
-          battingAverage: this.calculateMedian(historicalStats.map(s => s.battingAverage)),
-          hits: this.calculateMedian(historicalStats.map(s => s.hits)),
-          strikeouts: this.calculateMedian(historicalStats.map(s => s.strikeouts)),
-          wins: this.calculateMedian(historicalStats.map(s => s.wins)),
-          saves: this.calculateMedian(historicalStats.map(s => s.saves)),
-          era: this.calculateMedian(historicalStats.map(s => s.era)),
-          whip: this.calculateMedian(historicalStats.map(s => s.whip)),
-          qualityStarts: this.calculateMedian(historicalStats.map(s => s.qualityStarts))
-        };
+        // Median of each category across the sampled weeks
+        const expectedStats: Record<string, number> = {};
+        for (const key of Object.keys(computeStatLine(emptyComponents()))) {
+          expectedStats[key] = this.calculateMedian(historicalStats.map(s => Number(s[key] || 0)));
+        }
         
         return expectedStats;
               } catch (error) {
@@ -1070,7 +1124,7 @@ class DataService {
     });
   }
 
-  async getMatchups(week?: number): Promise<any[]> {
+  async getMatchups(week?: number): Promise<WeekMatchup[]> {
     return this.fetchWithCache(`matchups-${week || 'current'}`, async () => {
       const targetWeek = week || await this.getCurrentWeek();
 
@@ -1311,11 +1365,11 @@ class DataService {
       console.log(`🔍 [testMLBStats] Testing with date: ${testDate}`);
       
       try {
-        // Test the direct MLB API first
-        const mlbUrl = `https://statsapi.mlb.com/api/v1/schedule?sportId=1&date=${testDate}&hydrate=team,linescore,metadata,stats&gameTypes=R`;
-        console.log(`🔍 [testMLBStats] Testing direct MLB API: ${mlbUrl}`);
+        // Test the raw MLB API first
+        const mlbUrl = `/api/v1/schedule?sportId=1&date=${testDate}&hydrate=team,linescore,metadata,stats&gameTypes=R`;
+        console.log(`🔍 [testMLBStats] Testing MLB API: ${mlbUrl}`);
         
-        const directResponse = await fetch(mlbUrl);
+        const directResponse = await mlbFetch(mlbUrl);
         console.log(`🔍 [testMLBStats] Direct MLB API response status: ${directResponse.status}`);
         
         if (directResponse.ok) {
@@ -1369,7 +1423,7 @@ class DataService {
       
       // Get roster for a recent scoring period
       const roster = await this.getTeamRosterForDay(firstTeam.id, 1);
-      const starters = roster.filter((p: any) => p.lineupSlotId !== 16 && p.lineupSlotId !== 17 && p.status === 'ACTIVE');
+      const starters = roster.filter(p => isStarterSlot(p.lineupSlotId));
       console.log(`🎯 [testFuzzyMatching] Found ${starters.length} starters`);
       
       if (starters.length === 0) {
@@ -1380,9 +1434,8 @@ class DataService {
       // Convert to ESPN player format
       const espnPlayers: ESPNPlayer[] = starters.slice(0, 5).map(p => ({ // Test with first 5 players
         playerId: p.playerId,
-        fullName: p.fullName || p.name || 'Unknown',
-        teamAbbrev: p.teamAbbrev || p.team?.abbreviation,
-        teamId: p.teamId,
+        fullName: p.name || 'Unknown',
+        teamAbbrev: p.team,
         position: p.position,
         lineupSlotId: p.lineupSlotId
       }));
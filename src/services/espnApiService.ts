@@ -1,3 +1,5 @@
+import { fixtureHeaders } from './fixtureMode';
+
 // Vite provides the "ImportMetaEnv" interface globally, but TypeScript may
 // complain inside plain .ts files. Declare a minimal interface here so we can
 // access import.meta.env without compilation errors when type definitions are
@@ -8,22 +10,50 @@ declare global {
   }
 }
 // Direct ESPN Fantasy Baseball API Service
+const PROXY_URL = import.meta.env.VITE_PROXY_URL || 'http://localhost:3001';
+
 export const ESPN_CONFIG = {
   SEASON: Number(import.meta.env.VITE_SEASON_ID) || 2025,
-  BASE_URL: 'http://localhost:3001/espn',
+  PROXY_URL,
+  BASE_URL: `${PROXY_URL}/espn`,
 };
 
+// Views for comprehensive league data, including divisions (mSchedule/mStandings)
+const DEFAULT_VIEWS = ['mTeam', 'mRoster', 'mMatchup', 'mSettings', 'mSchedule', 'mStandings'];
+
+export interface ESPNMatchupScore {
+  matchupId: number;
+  matchupPeriodId: number;
+  home: { teamId: number; totalPoints?: number; scoreByStat: Record<number, number> };
+  away: { teamId: number; totalPoints?: number; scoreByStat: Record<number, number> };
+}
+
+export interface ESPNRosterPlayer {
+  name: string;
+  position: string;
+  team: string;
+  playerId: number;
+  lineupSlotId: number;
+  status?: string;
+  eligibleSlots?: number[];
+}
+
 export interface ESPNTeamRoster {
   teamId: number;
   teamName: string;
   owner: string;
-  players: Array<{
-    name: string;
-    position: string;
-    team: string;
-    playerId: number;
-    lineupSlotId?: number;
-  }>;
+  players: ESPNRosterPlayer[];
+}
+
+export interface ESPNFreeAgent {
+  name: string;
+  position: string;
+  team: string;
+  playerId: number;
+  status: string;
+  eligibleSlots: number[];
+  percentOwned: number;
+  onWaivers: boolean;
 }
 
 export interface ESPNLeagueInfo {
@@ -49,12 +79,90 @@ export interface ESPNLeagueInfo {
     ties: number;
     divisionId?: number;
     divisionName?: string;
+    pointsFor?: number;
+    pointsAgainst?: number;
+    // Season totals by ESPN stat id, and roto points (roto leagues only)
+    valuesByStat?: Record<string, number>;
+    rotoPoints?: number;
   }>;
   schedule?: any[];
 }
 
+// The parts of ESPN's `settings` block (view=mSettings) the app reads
+export interface ESPNScoringItem {
+  statId: number;
+  isReverseItem?: boolean;
+  points?: number;      // points leagues only
+}
+
+export interface ESPNScoringSettings {
+  scoringType?: string;
+  scoringItems?: ESPNScoringItem[];
+}
+
+export interface ESPNLeagueSettings {
+  name?: string;
+  scoringSettings?: ESPNScoringSettings;
+  rosterSettings?: {
+    // Keyed by lineup slot id
+    lineupSlotCounts?: Record<string, number>;
+    lineupSlotStatLimits?: Record<string, { statId: number; limitValue: number }>;
+  };
+}
+
+// One side of a matchup in view=mMatchupScore
+interface ESPNMatchupSide {
+  teamId: number;
+  totalPoints?: number;
+  cumulativeScore?: { scoreByStat?: Record<string, { score?: number; ineligible?: boolean }> };
+}
+
+interface ESPNScheduleMatchup {
+  id: number;
+  matchupPeriodId: number;
+  home?: ESPNMatchupSide;
+  away?: ESPNMatchupSide;
+}
+
+// A player entry in view=kona_player_info
+interface ESPNPlayerPoolEntry {
+  id?: number;
+  status?: string;
+  player: {
+    id: number;
+    fullName: string;
+    defaultPositionId: number;
+    proTeamId: number;
+    injuryStatus?: string;
+    eligibleSlots?: number[];
+    ownership?: { percentOwned?: number };
+  };
+}
+
+/** How the proxy served a request, read from its X-Cache* / timing headers. */
+export interface ProxyResponseMeta {
+  cache: 'HIT' | 'MISS' | 'COALESCED' | 'BYPASS' | 'UNKNOWN';
+  ageSeconds: number;
+  upstreamMs: number;
+  queueMs: number;
+  totalMs: number;
+}
+
+function readProxyMeta(response: Response, totalMs: number): ProxyResponseMeta {
+  const cache = response.headers.get('X-Cache') as ProxyResponseMeta['cache'] | null;
+  return {
+    cache: cache ?? 'UNKNOWN',
+    ageSeconds: Number(response.headers.get('X-Cache-Age')) || 0,
+    upstreamMs: Number(response.headers.get('X-Upstream-Time')) || 0,
+    queueMs: Number(response.headers.get('X-Queue-Time')) || 0,
+    totalMs,
+  };
+}
+
 export class ESPNApiService {
-  private async makeRequest(endpoint: string, scoringPeriodId?: number): Promise<any> {
+  constructor(private onResponseMeta?: (meta: ProxyResponseMeta) => void) {}
+
+  private async makeRequest(endpoint: string, scoringPeriodId?: number, views: string[] = DEFAULT_VIEWS, fantasyFilter?: object): Promise<any> {
     const leagueId = localStorage.getItem('leagueId') || '24414'; // Default to original ID if not set
     const url = `${ESPN_CONFIG.BASE_URL}/apis/v3/games/flb/seasons/${ESPN_CONFIG.SEASON}/segments/0/leagues/${leagueId}${endpoint}`;
     
@@ -63,13 +171,7 @@ export class ESPNApiService {
       params.append('scoringPeriodId', scoringPeriodId.toString());
     }
     
-    // Add necessary views for comprehensive league data including divisions
-    params.append('view', 'mTeam');
-    params.append('view', 'mRoster');
-    params.append('view', 'mMatchup');
-    params.append('view', 'mSettings');
-    params.append('view', 'mSchedule'); // Important for division data
-    params.append('view', 'mStandings'); // May contain division standings
+    views.forEach(view => params.append('view', view));
     
     const requestUrl = `${url}?${params.toString()}`;
 
@@ -78,18 +180,22 @@ export class ESPNApiService {
 
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
+      ...fixtureHeaders(),
     };
 
     if (espnS2 && swid) {
       headers['x-espn-s2'] = espnS2;
       headers['x-swid'] = swid;
     }
+    // Player-pool queries (kona_player_info) are filtered through this header
+    if (fantasyFilter) headers['x-fantasy-filter'] = JSON.stringify(fantasyFilter);
 
     // Log outgoing request details for debugging
     console.log('[ESPN API] Request:', requestUrl);
 
     let response: Response | null = null;
     let attempt = 0;
+    const started = performance.now();
     while (attempt < 2 && !response) {
       try {
         response = await fetch(requestUrl, { headers });
@@ -104,6 +210,8 @@ export class ESPNApiService {
       }
     }
 
+    this.onResponseMeta?.(readProxyMeta(response!, Math.round(performance.now() - started)));
+
     try {
       // response guaranteed defined here
       
@@ -131,6 +239,27 @@ export class ESPNApiService {
     }
   }
 
+  /**
+   * Hand the locally stored credentials to the proxy so its background
+   * snapshot job can fetch rosters on days nobody opens the app.
+   */
+  async registerCredentials(): Promise<void> {
+    const leagueId = localStorage.getItem('leagueId');
+    const espnS2 = localStorage.getItem('espn_s2');
+    const swid = localStorage.getItem('swid');
+    if (!leagueId || !espnS2 || !swid) return;
+
+    try {
+      await fetch(`${ESPN_CONFIG.PROXY_URL}/credentials`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leagueId, espnS2, swid, season: ESPN_CONFIG.SEASON }),
+      });
+    } catch (err) {
+      console.warn('[ESPN API] Could not register credentials with proxy:', err);
+    }
+  }
+
   async getLeagueInfo(): Promise<ESPNLeagueInfo> {
     try {
       // Use a current scoringPeriodId like the working calls
@@ -258,7 +387,11 @@ export class ESPNApiService {
           losses: team.record?.overall?.losses || 0,
           ties: team.record?.overall?.ties || 0,
           divisionId: team.divisionId,
-          divisionName: team.divisionId ? divisionMap.get(team.divisionId) : undefined
+          divisionName: team.divisionId ? divisionMap.get(team.divisionId) : undefined,
+          pointsFor: team.record?.overall?.pointsFor,
+          pointsAgainst: team.record?.overall?.pointsAgainst,
+          valuesByStat: team.valuesByStat,
+          rotoPoints: team.points,
         })) || [],
         schedule: data.schedule || []
       };
@@ -268,6 +401,37 @@ export class ESPNApiService {
     }
   }
 
+  /** Raw `settings` block (scoringSettings, rosterSettings, scheduleSettings, ...). */
+  async getLeagueSettings(): Promise<ESPNLeagueSettings> {
+    const data = await this.makeRequest('');
+    if (!data.settings) throw new Error('ESPN response did not include league settings');
+    return data.settings;
+  }
+
+  /**
+   * ESPN's official cumulative category values for every matchup in the
+   * schedule (view=mMatchupScore). Values are keyed by ESPN stat id.
+   */
+  async getMatchupScores(): Promise<ESPNMatchupScore[]> {
+    const data = await this.makeRequest('', undefined, ['mMatchupScore', 'mScoreboard']);
+    const side = (s: ESPNMatchupSide): ESPNMatchupScore['home'] => {
+      const scoreByStat: Record<number, number> = {};
+      for (const [statId, entry] of Object.entries(s.cumulativeScore?.scoreByStat || {})) {
+        if (entry && typeof entry.score === 'number' && !entry.ineligible) scoreByStat[Number(statId)] = entry.score;
+      }
+      return { teamId: s.teamId, totalPoints: s.totalPoints, scoreByStat };
+    };
+    const schedule: ESPNScheduleMatchup[] = data.schedule || [];
+    return schedule
+      .filter(m => m.home && m.away)
+      .map(m => ({
+        matchupId: m.id,
+        matchupPeriodId: m.matchupPeriodId,
+        home: side(m.home!),
+        away: side(m.away!),
+      }));
+  }
+
   async getAllTeamRosters(week?: number): Promise<ESPNTeamRoster[]> {
     try {
       const data = await this.makeRequest('', week);
@@ -318,6 +482,36 @@ export class ESPNApiService {
     }
   }
 
+  /**
+   * Free agents and waiver-wire players eligible for a lineup slot, most
+   * owned first (view=kona_player_info).
+   */
+  async getFreeAgents(slotId: number, limit = 50): Promise<ESPNFreeAgent[]> {
+    const filter = {
+      players: {
+        filterStatus: { value: ['FREEAGENT', 'WAIVERS'] },
+        filterSlotIds: { value: [slotId] },
+        sortPercOwned: { sortPriority: 1, sortAsc: false },
+        limit,
+      },
+    };
+    const data = await this.makeRequest('', undefined, ['kona_player_info'], filter);
+    const entries: ESPNPlayerPoolEntry[] = data.players || [];
+    return entries.map(entry => {
+      const player = entry.player;
+      return {
+        name: player?.fullName || 'Unknown Player',
+        position: this.getPositionName(player?.defaultPositionId),
+        team: this.getTeamAbbreviation(player?.proTeamId),
+        playerId: player?.id || entry.id || 0,
+        status: player?.injuryStatus || 'ACTIVE',
+        eligibleSlots: player?.eligibleSlots || [],
+        percentOwned: player?.ownership?.percentOwned ?? 0,
+        onWaivers: entry.status === 'WAIVERS',
+      };
+    });
+  }
+
   async getTeamRoster(teamId: number, week?: number): Promise<any> {
     try {
       const data = await this.makeRequest('', week);
@@ -0,0 +1,34 @@
+/*
+ * Record/replay switch for the proxy's fixture mode. When set, every request
+ * to the proxy carries `x-fixture-mode` so the proxy records the traffic or
+ * serves a previously captured league-week without touching the network.
+ */
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+const STORAGE_KEY = 'fixtureMode';
+const MODES: FixtureMode[] = ['off', 'record', 'replay'];
+
+function initialMode(): FixtureMode {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+  const requested = stored || import.meta.env.VITE_FIXTURE_MODE;
+  return MODES.includes(requested as FixtureMode) ? (requested as FixtureMode) : 'off';
+}
+
+let currentMode: FixtureMode = initialMode();
+
+export function getFixtureMode(): FixtureMode {
+  return currentMode;
+}
+
+export function setFixtureMode(mode: FixtureMode): void {
+  currentMode = mode;
+  if (typeof localStorage === 'undefined') return;
+  if (mode === 'off') localStorage.removeItem(STORAGE_KEY);
+  else localStorage.setItem(STORAGE_KEY, mode);
+}
+
+/** Headers to add to proxy requests; empty when off so the proxy's own default applies. */
+export function fixtureHeaders(): Record<string, string> {
+  return currentMode === 'off' ? {} : { 'x-fixture-mode': currentMode };
+}
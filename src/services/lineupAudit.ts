@@ -0,0 +1,121 @@
+import { BENCH_SLOT_ID, dataService, isPlayingStatus, isStarterSlot, LINEUP_SLOT_LABELS } from './dataService';
+import { ESPNRosterPlayer } from './espnApiService';
+import { mlbApiService, ScheduledGame } from './mlbApiService';
+import { normalizeTeamAbbrev } from '../utils/teams';
+
+/*
+ * Lineup health check for one team and day: starters whose club is off,
+ * injured players left in starter slots, and bench players with a game who
+ * could take one of those slots. Built from ESPN's roster for the scoring
+ * period and the MLB schedule for the date.
+ */
+
+export type LineupAlertKind = 'noGame' | 'injuredStarter' | 'benchedWithGame';
+
+export interface LineupAlert {
+  kind: LineupAlertKind;
+  date: string;
+  playerId: number;
+  name: string;
+  lineupSlotId: number;
+  message: string;
+  // benchedWithGame: the idle or injured starter they could replace
+  replacesPlayerId?: number;
+}
+
+export interface DayLineupAudit {
+  date: string;
+  scoringPeriodId: number;
+  alerts: LineupAlert[];
+}
+
+// The roster fields an audit reads
+type AuditPlayer = Pick<ESPNRosterPlayer, 'playerId' | 'name' | 'team' | 'lineupSlotId' | 'status' | 'eligibleSlots'>;
+
+const slotLabel = (slotId: number) => LINEUP_SLOT_LABELS[slotId] ?? `slot ${slotId}`;
+
+function playsOn(dayGames: ScheduledGame[], teamAbbrev?: string): boolean {
+  const team = normalizeTeamAbbrev(teamAbbrev);
+  return dayGames.some(g => g.status !== 'postponed' && (g.home.teamAbbrev === team || g.away.teamAbbrev === team));
+}
+
+/** Alerts for a day's roster given that day's MLB games. */
+export function auditLineup(roster: AuditPlayer[], dayGames: ScheduledGame[], date: string): LineupAlert[] {
+  const alerts: LineupAlert[] = [];
+  const name = (p: AuditPlayer) => p.name || 'Unknown Player';
+  const idleStarters: AuditPlayer[] = [];
+
+  for (const p of roster.filter(p => isStarterSlot(p.lineupSlotId))) {
+    if (!isPlayingStatus(p.status)) {
+      alerts.push({
+        kind: 'injuredStarter', date, playerId: p.playerId, name: name(p), lineupSlotId: p.lineupSlotId,
+        message: `${name(p)} is ${String(p.status).replace(/_/g, ' ')} but starting at ${slotLabel(p.lineupSlotId)}`,
+      });
+      idleStarters.push(p);
+    } else if (!playsOn(dayGames, p.team)) {
+      alerts.push({
+        kind: 'noGame', date, playerId: p.playerId, name: name(p), lineupSlotId: p.lineupSlotId,
+        message: `${name(p)} (${slotLabel(p.lineupSlotId)}) has no game`,
+      });
+      idleStarters.push(p);
+    }
+  }
+
+  // Each bench player is suggested for at most one idle starter's slot
+  const taken = new Set<number>();
+  for (const starter of idleStarters) {
+    const sub = roster.find(p =>
+      p.lineupSlotId === BENCH_SLOT_ID
+      && !taken.has(p.playerId)
+      && (p.eligibleSlots || []).includes(starter.lineupSlotId)
+      && isPlayingStatus(p.status)
+      && playsOn(dayGames, p.team));
+    if (!sub) continue;
+    taken.add(sub.playerId);
+    alerts.push({
+      kind: 'benchedWithGame', date, playerId: sub.playerId, name: name(sub), lineupSlotId: sub.lineupSlotId,
+      message: `${name(sub)} has a game on the bench; could replace ${name(starter)} at ${slotLabel(starter.lineupSlotId)}`,
+      replacesPlayerId: starter.playerId,
+    });
+  }
+  return alerts;
+}
+
+export class LineupAuditService {
+  /** Audit one scoring day (0 = the first) of a matchup period. */
+  async auditDay(teamId: number, week: number, dayIdx: number): Promise<DayLineupAudit | null> {
+    const weekMeta = (await dataService.getWeekMetaMap())[week];
+    const scoringPeriodId = weekMeta?.scoringPeriodIds?.[dayIdx];
+    if (!weekMeta?.startISO || !weekMeta?.endISO || !scoringPeriodId) return null;
+
+    const day = new Date(weekMeta.startISO);
+    day.setUTCDate(day.getUTCDate() + dayIdx);
+    const date = day.toISOString().split('T')[0];
+    // The whole week's schedule: one fetch shared with the projections
+    const [roster, games] = await Promise.all([
+      dataService.getTeamRosterForDay(teamId, scoringPeriodId),
+      mlbApiService.getGames(weekMeta.startISO.split('T')[0], weekMeta.endISO.split('T')[0]),
+    ]);
+    return { date, scoringPeriodId, alerts: auditLineup(roster, games.filter(g => g.date === date), date) };
+  }
+
+  /** Audit every day of the matchup period from the reference date on. */
+  async auditWeek(teamId: number, week: number): Promise<DayLineupAudit[]> {
+    const weekMeta = (await dataService.getWeekMetaMap())[week];
+    if (!weekMeta?.startISO) return [];
+
+    const today = (await dataService.getReferenceDate()).toISOString().split('T')[0];
+    const audits: DayLineupAudit[] = [];
+    for (let i = 0; i < (weekMeta.scoringPeriodIds?.length ?? 0); i++) {
+      const day = new Date(weekMeta.startISO);
+      day.setUTCDate(day.getUTCDate() + i);
+      if (day.toISOString().split('T')[0] < today) continue;
+      const audit = await this.auditDay(teamId, week, i);
+      if (audit) audits.push(audit);
+    }
+    console.log(`[LineupAudit] Team ${teamId} week ${week}: ${audits.reduce((n, a) => n + a.alerts.length, 0)} alerts`);
+    return audits;
+  }
+}
+
+export const lineupAuditService = new LineupAuditService();
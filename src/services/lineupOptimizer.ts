@@ -0,0 +1,252 @@
+import { ScoringCategory } from '../types/fantasy';
+import { ESPNRosterPlayer } from './espnApiService';
+import { BENCH_SLOT_ID, dataService, IL_SLOT_ID, isPlayingStatus, isStarterSlot } from './dataService';
+import { addComponents, buildStatLine, scaleComponents, StatComponents, TeamStatLine } from './categoryRegistry';
+import { mlbApiService, ScheduledGame } from './mlbApiService';
+import { MatchupSimulation } from './matchupSimulator';
+import { probableStartsFor, ROTATION_SIZE, unannouncedGamesFor } from './startPlannerService';
+import { PlayerEstimate, weeklyEstimateService } from './weeklyEstimateService';
+import { fantasyPoints, ScoringFormat } from '../utils/scoringEngines';
+import { solveAssignment } from '../utils/assignment';
+import { normalizeTeamAbbrev } from '../utils/teams';
+
+/*
+ * Daily lineup optimizer. For each day left in the matchup period, every
+ * roster player gets a value for starting that day: their per-game
+ * projection (per start for starting pitchers) if their club plays, as the
+ * change it makes to our expected week line, weighted towards the
+ * categories that are still close. Players are then assigned to the
+ * league's starter slots to maximise the total (Hungarian algorithm),
+ * with ties going to whoever ESPN already has in the slot.
+ */
+
+// Categories all but decided still count a little
+const MIN_CATEGORY_WEIGHT = 0.1;
+// Prefers the current slot when values tie, so the diff stays small
+const KEEP_BONUS = 1e-6;
+const FORBIDDEN = 1e9;
+
+export interface LineupCandidate {
+  playerId: number;
+  name: string;
+  position?: string;
+  lineupSlotId: number; // where ESPN has them now
+  eligibleSlots: number[];
+  // Projected worth of starting them this day (0 without a game)
+  value: number;
+  hasGame: boolean;
+  note?: string;
+}
+
+export interface LineupMove {
+  playerId: number;
+  name: string;
+  fromSlotId: number;
+  toSlotId: number;
+}
+
+export interface OptimizedLineup {
+  // playerId -> recommended slot (bench for anyone not starting; IL unchanged)
+  recommended: Record<number, number>;
+  moves: LineupMove[];
+  currentValue: number;
+  recommendedValue: number;
+}
+
+export interface DayLineupPlan extends OptimizedLineup {
+  date: string;
+  scoringPeriodId?: number;
+  candidates: LineupCandidate[];
+}
+
+export interface LineupPlan {
+  teamId: number;
+  week: number;
+  weights: Record<string, number>;
+  days: DayLineupPlan[];
+}
+
+export interface LineupOptimizerOptions {
+  // The week's simulation; close categories get more weight
+  simulation?: MatchupSimulation | null;
+  // Week-to-date components, the base the day values are measured against
+  actual?: { components?: StatComponents };
+  categories?: ScoringCategory[];
+  format?: ScoringFormat;
+}
+
+/** Weight per category: 1 for a coin flip, down to MIN_CATEGORY_WEIGHT when decided. */
+export function categoryWeights(categories: ScoringCategory[], simulation?: MatchupSimulation | null): Record<string, number> {
+  const weights: Record<string, number> = {};
+  for (const cat of categories) {
+    const p = simulation?.categories[cat.key];
+    weights[cat.key] = p ? Math.max(MIN_CATEGORY_WEIGHT, 1 - Math.abs(p.win - p.loss)) : 1;
+  }
+  return weights;
+}
+
+/**
+ * What adding `line` does to the team's expected week: fantasy points in
+ * points leagues, otherwise the weighted relative change per category
+ * (lower-is-better categories count improvements as positive).
+ */
+export function lineValue(
+  line: StatComponents,
+  base: TeamStatLine,
+  categories: ScoringCategory[],
+  weights: Record<string, number>,
+  format: ScoringFormat
+): number {
+  if (format === 'H2H_POINTS') return fantasyPoints(buildStatLine(line), categories).total;
+
+  const withPlayer = buildStatLine(addComponents({ ...base.components }, line));
+  let value = 0;
+  for (const cat of categories) {
+    const before = Number(base[cat.key] || 0);
+    const change = Number(withPlayer[cat.key] || 0) - before;
+    // Rates move by fractions of their value; counts by at least one
+    const scale = cat.decimals > 0 ? Math.abs(before) || 1 : Math.max(Math.abs(before), 1);
+    value += (weights[cat.key] ?? 1) * (cat.lowerIsBetter ? -change : change) / scale;
+  }
+  return value;
+}
+
+/**
+ * Expected line for one day from a rest-of-week estimate: per start for
+ * starting pitchers (announced, or a rotation share of TBD games), per club
+ * game for everyone else. Null when the club doesn't play.
+ */
+export function expectedDayLine(est: PlayerEstimate, dayGames: ScheduledGame[], teamAbbrev?: string): StatComponents | null {
+  const team = normalizeTeamAbbrev(teamAbbrev);
+  const clubGames = dayGames.filter(g => g.status !== 'postponed' && (g.home.teamAbbrev === team || g.away.teamAbbrev === team));
+  if (!est.components || clubGames.length === 0) return null;
+
+  if (est.starts) {
+    const starts = (est.mlbPlayerId ? probableStartsFor(clubGames, est.mlbPlayerId).length : 0)
+      + unannouncedGamesFor(clubGames, team) / ROTATION_SIZE;
+    return est.gamesProjected > 0 ? scaleComponents(est.components, starts / est.gamesProjected) : null;
+  }
+  return est.gamesRemaining > 0 ? scaleComponents(est.components, clubGames.length / est.gamesRemaining) : null;
+}
+
+/**
+ * Best assignment of players to the starter slots (slot id -> count).
+ * Players on IL stay there; anyone not starting goes to the bench.
+ */
+export function optimizeDayLineup(candidates: LineupCandidate[], slotCounts: Record<number, number>): OptimizedLineup {
+  const movable = candidates.filter(c => c.lineupSlotId !== IL_SLOT_ID);
+  const slots = Object.entries(slotCounts).flatMap(([slot, count]) => Array<number>(count).fill(Number(slot)));
+
+  // Rows are slots; columns are players, then one "leave empty" per slot
+  const cost = slots.map(slot => [
+    ...movable.map(c => (c.eligibleSlots.includes(slot)
+      ? -(c.value + (c.lineupSlotId === slot ? KEEP_BONUS : 0))
+      : FORBIDDEN)),
+    ...slots.map(() => 0),
+  ]);
+  const columns = solveAssignment(cost);
+
+  const recommended: Record<number, number> = {};
+  for (const c of candidates) recommended[c.playerId] = c.lineupSlotId === IL_SLOT_ID ? IL_SLOT_ID : BENCH_SLOT_ID;
+  columns.forEach((col, row) => {
+    if (col < movable.length) recommended[movable[col].playerId] = slots[row];
+  });
+
+  const moves: LineupMove[] = movable
+    .filter(c => recommended[c.playerId] !== c.lineupSlotId)
+    .map(c => ({ playerId: c.playerId, name: c.name, fromSlotId: c.lineupSlotId, toSlotId: recommended[c.playerId] }));
+  const sum = (start: (c: LineupCandidate) => boolean) => movable.filter(start).reduce((s, c) => s + c.value, 0);
+
+  return {
+    recommended,
+    moves,
+    currentValue: sum(c => isStarterSlot(c.lineupSlotId)),
+    recommendedValue: sum(c => isStarterSlot(recommended[c.playerId])),
+  };
+}
+
+export class LineupOptimizer {
+  /**
+   * Recommended lineups for the rest of a matchup period (today on), each
+   * day diffed against ESPN's current lineup for that day.
+   */
+  async optimizeWeek(teamId: number, week: number, options: LineupOptimizerOptions = {}): Promise<LineupPlan> {
+    const weekMeta = (await dataService.getWeekMetaMap())[week];
+    if (!weekMeta?.startISO || !weekMeta?.endISO) throw new Error(`No dates for week ${week}`);
+
+    const categories = options.categories ?? await dataService.getScoringCategories();
+    const format = options.format ?? await dataService.getScoringFormat();
+    const weights = categoryWeights(categories, options.simulation);
+    const plan: LineupPlan = { teamId, week, weights, days: [] };
+
+    const today = (await dataService.getReferenceDate()).toISOString().split('T')[0];
+    const weekStart = weekMeta.startISO.split('T')[0];
+    const weekEnd = weekMeta.endISO.split('T')[0];
+    const from = today > weekStart ? today : weekStart;
+    if (from > weekEnd) return plan;
+
+    const base = await weeklyEstimateService.getTeamWeeklyEstimate(teamId, week, options.actual);
+    const games = await mlbApiService.getGames(from, weekEnd);
+    const estimates = new Map<number, PlayerEstimate>();
+    let slotCounts = await this.getSlotCounts();
+
+    const scoringPeriodIds: Array<number | undefined> = weekMeta.scoringPeriodIds?.length ? weekMeta.scoringPeriodIds : [];
+    const firstDay = Date.parse(`${weekStart}T00:00:00Z`);
+    for (let t = Date.parse(`${from}T00:00:00Z`); t <= Date.parse(`${weekEnd}T00:00:00Z`); t += 86_400_000) {
+      const date = new Date(t).toISOString().split('T')[0];
+      const scoringPeriodId = scoringPeriodIds[Math.round((t - firstDay) / 86_400_000)];
+      const roster: ESPNRosterPlayer[] = scoringPeriodId
+        ? await dataService.getTeamRosterForDay(teamId, scoringPeriodId)
+        : await dataService.getTeamRoster(teamId, week);
+      if (roster.length === 0) continue;
+
+      // Without league settings, the slots ESPN's lineup uses today
+      if (Object.keys(slotCounts).length === 0) slotCounts = countStarterSlots(roster);
+
+      const dayGames = games.filter(g => g.date === date);
+      const candidates: LineupCandidate[] = [];
+      for (const p of roster) {
+        const name = p.name || 'Unknown Player';
+        if (!estimates.has(p.playerId)) {
+          estimates.set(p.playerId, await weeklyEstimateService.getPlayerWeeklyEstimate(p.playerId, name, week, { teamAbbrev: p.team, position: p.position }));
+        }
+        const line = expectedDayLine(estimates.get(p.playerId)!, dayGames, p.team);
+        const available = isPlayingStatus(p.status);
+        candidates.push({
+          playerId: p.playerId,
+          name,
+          position: p.position,
+          lineupSlotId: p.lineupSlotId,
+          eligibleSlots: p.eligibleSlots || [],
+          value: line && available ? lineValue(line, base, categories, weights, format) : 0,
+          hasGame: line !== null,
+          note: !available ? p.status : line === null ? 'No game' : undefined,
+        });
+      }
+
+      plan.days.push({ date, scoringPeriodId, candidates, ...optimizeDayLineup(candidates, slotCounts) });
+    }
+
+    console.log(`[LineupOptimizer] Week ${week} team ${teamId}: ${plan.days.reduce((n, d) => n + d.moves.length, 0)} suggested moves over ${plan.days.length} days`);
+    return plan;
+  }
+
+  private async getSlotCounts(): Promise<Record<number, number>> {
+    try {
+      return await dataService.getLineupSlotCounts();
+    } catch (err) {
+      console.warn('[LineupOptimizer] No roster settings; using the current lineup\'s slots:', err);
+      return {};
+    }
+  }
+}
+
+function countStarterSlots(roster: ESPNRosterPlayer[]): Record<number, number> {
+  const counts: Record<number, number> = {};
+  for (const p of roster) {
+    if (isStarterSlot(p.lineupSlotId)) counts[p.lineupSlotId] = (counts[p.lineupSlotId] || 0) + 1;
+  }
+  return counts;
+}
+
+export const lineupOptimizer = new LineupOptimizer();
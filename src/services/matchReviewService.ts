@@ -0,0 +1,172 @@
+import { dataService } from './dataService';
+import { mlbStatService } from './mlbStatService';
+import { mlbFetch, MLBSearchPerson } from './mlbApiService';
+import { CROSSWALK_MIN_CONFIDENCE, ESPNPlayer, MLBPlayer, playerMatcher } from './playerMatcher';
+import { playerCrosswalk } from '../store/playerCrosswalk';
+import { CrosswalkEntry, StatLedgerEntry, WeekAggregation } from '../types/fantasy';
+
+/*
+ * Review queue for ESPN players the matcher couldn't place with confidence.
+ * Built from the weekly ledger; confirming a candidate writes a 'manual'
+ * crosswalk entry, which the matcher uses ahead of fuzzy matching from the
+ * next aggregation on.
+ */
+
+// Matches below this are listed for review even though they were counted
+export const REVIEW_CONFIDENCE = 0.8;
+// Game days whose MLB players are searched for candidates
+const MAX_CANDIDATE_DAYS = 3;
+
+export interface MatchCandidate {
+  mlbPlayerId: number;
+  fullName: string;
+  teamAbbrev: string;
+  position?: string;
+  confidence: number;
+  reason: string;
+  warnings: string[];
+}
+
+export interface MatchReviewItem {
+  espnPlayerId: number;
+  playerName: string;
+  teamId: number;
+  teamAbbrev?: string;
+  position?: string;
+  // Days this week the player started without a confident match
+  dates: string[];
+  // What the matcher picked on those days, if anything
+  currentMlbPlayerId?: number;
+  currentConfidence: number;
+  currentReason: string;
+  candidates: MatchCandidate[];
+}
+
+function needsReview(entry: StatLedgerEntry): boolean {
+  // "No MLB games" has nothing to match
+  if (entry.matchReason === 'No MLB games') return false;
+  const mapped = playerCrosswalk.peek(entry.espnPlayerId);
+  // A mapping someone confirmed is settled, even on days the player sat
+  if (mapped?.method === 'manual') return false;
+  // Name-search guesses and weak imports are queued however the day went
+  if (mapped && (mapped.method === 'search' || mapped.confidence < CROSSWALK_MIN_CONFIDENCE)) return true;
+  // A trusted crosswalk entry without a line today just means the player sat
+  if (playerCrosswalk.get(entry.espnPlayerId)) return false;
+  return entry.mlbPlayerId === undefined || entry.matchConfidence < REVIEW_CONFIDENCE;
+}
+
+function toCandidate(match: { mlbPlayer: MLBPlayer | null; confidence: number; matchReason: string; warnings?: string[] }): MatchCandidate {
+  const p = match.mlbPlayer!;
+  return {
+    mlbPlayerId: p.id,
+    fullName: p.fullName,
+    teamAbbrev: p.team?.abbreviation || '',
+    position: p.position?.code,
+    confidence: match.confidence,
+    reason: match.matchReason,
+    warnings: match.warnings || [],
+  };
+}
+
+export class MatchReviewService {
+  /** Unmatched and low-confidence starters for a week, worst first. */
+  async getReviewQueue(week: number, weekly?: Pick<WeekAggregation, 'ledger'>): Promise<MatchReviewItem[]> {
+    await playerCrosswalk.ready();
+    const stats = weekly ?? await dataService.getWeeklyStats(week);
+    const ledger: StatLedgerEntry[] = Object.values(stats.ledger || {}).flat() as StatLedgerEntry[];
+
+    const byPlayer = new Map<number, StatLedgerEntry[]>();
+    for (const entry of ledger) {
+      if (!needsReview(entry)) continue;
+      const list = byPlayer.get(entry.espnPlayerId) || [];
+      list.push(entry);
+      byPlayer.set(entry.espnPlayerId, list);
+    }
+
+    const items: MatchReviewItem[] = [];
+    for (const [espnPlayerId, entries] of byPlayer) {
+      const first = entries[0];
+      const espnPlayer = await this.getEspnPlayer(first);
+      const worst = entries.reduce((a, b) => (b.matchConfidence < a.matchConfidence ? b : a));
+      const dates = [...new Set(entries.map(e => e.date))].sort();
+
+      items.push({
+        espnPlayerId,
+        playerName: first.playerName,
+        teamId: first.teamId,
+        teamAbbrev: espnPlayer.teamAbbrev,
+        position: espnPlayer.position,
+        dates,
+        currentMlbPlayerId: worst.mlbPlayerId,
+        currentConfidence: worst.matchConfidence,
+        currentReason: worst.matchReason,
+        candidates: await this.candidatesForDays(espnPlayer, dates.slice(0, MAX_CANDIDATE_DAYS)),
+      });
+    }
+
+    items.sort((a, b) => a.currentConfidence - b.currentConfidence || a.playerName.localeCompare(b.playerName));
+    console.log(`[MatchReview] Week ${week}: ${items.length} players to review`);
+    return items;
+  }
+
+  /** Rank MLB people found by name search, for players with no game-day candidates. */
+  async searchCandidates(item: MatchReviewItem, query: string): Promise<MatchCandidate[]> {
+    const res = await mlbFetch(`/api/v1/people/search?names=${encodeURIComponent(query)}&sportIds=1&hydrate=currentTeam`);
+    if (!res.ok) throw new Error(`MLB people search failed (${res.status})`);
+    const data: { people?: MLBSearchPerson[] } = await res.json();
+    const people: MLBPlayer[] = (data.people || []).map(p => ({
+      id: p.id,
+      fullName: p.fullName,
+      team: { name: p.currentTeam?.name || '', abbreviation: p.currentTeam?.abbreviation || '' },
+      position: p.primaryPosition ? { code: p.primaryPosition.abbreviation, name: p.primaryPosition.name } : undefined,
+    }));
+    return playerMatcher.rankCandidates(this.reviewPlayer(item), people).map(toCandidate);
+  }
+
+  /** Store a manual mapping; the next aggregation looks the player up by id. */
+  async confirm(item: Pick<MatchReviewItem, 'espnPlayerId' | 'playerName'>, mlbPlayerId: number): Promise<void> {
+    await playerCrosswalk.ready();
+    await playerCrosswalk.record([
+      { espnPlayerId: item.espnPlayerId, mlbPlayerId, fullName: item.playerName, confidence: 1, method: 'manual' },
+    ]);
+    console.log(`[MatchReview] ${item.playerName} (ESPN ${item.espnPlayerId}) → MLB ${mlbPlayerId}`);
+  }
+
+  async getOverrides(): Promise<CrosswalkEntry[]> {
+    await playerCrosswalk.ready();
+    return playerCrosswalk.all().filter(e => e.method === 'manual');
+  }
+
+  async removeOverride(espnPlayerId: number): Promise<void> {
+    await playerCrosswalk.remove(espnPlayerId);
+  }
+
+  private reviewPlayer(item: MatchReviewItem): ESPNPlayer {
+    return {
+      playerId: item.espnPlayerId,
+      fullName: item.playerName,
+      teamAbbrev: item.teamAbbrev,
+      position: item.position,
+      lineupSlotId: 0,
+    };
+  }
+
+  // The ledger has no MLB team or position; the roster for that day does
+  private async getEspnPlayer(entry: StatLedgerEntry): Promise<ESPNPlayer> {
+    const base: ESPNPlayer = { playerId: entry.espnPlayerId, fullName: entry.playerName, lineupSlotId: entry.lineupSlotId };
+    if (entry.scoringPeriodId === undefined) return base;
+    const roster = await dataService.getTeamRosterForDay(entry.teamId, entry.scoringPeriodId).catch(() => []);
+    const p = roster.find(r => r.playerId === entry.espnPlayerId);
+    return p ? { ...base, teamAbbrev: p.team, position: p.position } : base;
+  }
+
+  private async candidatesForDays(espnPlayer: ESPNPlayer, dates: string[]): Promise<MatchCandidate[]> {
+    const pool = new Map<number, MLBPlayer>();
+    for (const date of dates) {
+      for (const p of await mlbStatService.getMLBPlayersForDate(date)) pool.set(p.id, p);
+    }
+    return playerMatcher.rankCandidates(espnPlayer, [...pool.values()]).map(toCandidate);
+  }
+}
+
+export const matchReviewService = new MatchReviewService();
@@ -0,0 +1,188 @@
+import { ScoringCategory, WeekAggregation } from '../types/fantasy';
+import { ComponentKey, addComponents, buildStatLine, emptyComponents, StatComponents } from './categoryRegistry';
+import { getScoringEngine, ScoringFormat } from '../utils/scoringEngines';
+import { binomial, createRng, poisson, Rng, seedFromString } from '../utils/random';
+import { dataService } from './dataService';
+import { weeklyEstimateService } from './weeklyEstimateService';
+
+/*
+ * Monte Carlo matchup simulation.
+ *
+ * Each run starts from the components both teams have banked this week and
+ * adds one random draw of every starter's rest-of-week projection, then
+ * scores the two lines with the league's scoring engine. Playing time is
+ * drawn first (at-bats, outs) and the other counts follow it, so a player
+ * who sits contributes nothing; hits and extra-base hits are binomial
+ * within their at-bats so batting average moves the way it really does.
+ */
+
+const DEFAULT_SIMULATIONS = 2000;
+
+// Counts that scale with a batter's drawn at-bats, or a pitcher's drawn outs
+const BATTING_VOLUME_KEYS: ComponentKey[] = [
+  'plateAppearances', 'runs', 'rbis', 'walks', 'intentionalWalks', 'hitByPitch', 'sacFlies',
+  'batterStrikeouts', 'stolenBases', 'caughtStealing',
+];
+const PITCHING_VOLUME_KEYS: ComponentKey[] = [
+  'battersFaced', 'hitsAllowed', 'walksAllowed', 'hitBatsmen', 'runsAllowed', 'earnedRuns',
+  'homeRunsAllowed', 'strikeouts', 'wins', 'losses', 'saves', 'holds', 'blownSaves',
+  'saveOpportunities', 'gamesPitched', 'gamesStarted', 'completeGames', 'qualityStarts',
+];
+
+export interface OutcomeProbability {
+  win: number;
+  tie: number;
+  loss: number;
+}
+
+export interface MatchupSimulation {
+  simulations: number;
+  // From team 1's side, keyed by category key
+  categories: Record<string, OutcomeProbability>;
+  matchup: OutcomeProbability;
+  // Mean categories won (or points, for points leagues)
+  expectedScore: { team1: number; team2: number };
+}
+
+export interface SimulationSide {
+  // Banked week-to-date components
+  actual?: StatComponents;
+  // Expected rest-of-week components per player
+  players: Array<{ components?: StatComponents }>;
+}
+
+export interface SimulationOptions {
+  simulations?: number;
+  seed?: number;
+}
+
+const ratio = (part: number, whole: number) => (whole > 0 ? Math.min(1, part / whole) : 0);
+
+/** Add one random outcome of a player's projection to `out`. */
+function samplePlayer(expected: StatComponents, out: StatComponents, rng: Rng): void {
+  if (expected.atBats > 0 || expected.plateAppearances > 0) {
+    const atBats = poisson(expected.atBats, rng);
+    const volume = expected.atBats > 0 ? atBats / expected.atBats : 1;
+    const hits = binomial(atBats, ratio(expected.hits, expected.atBats), rng);
+    const homeRuns = binomial(hits, ratio(expected.homeRuns, expected.hits), rng);
+    const triples = binomial(hits - homeRuns, ratio(expected.triples, expected.hits - expected.homeRuns), rng);
+    const doubles = binomial(hits - homeRuns - triples, ratio(expected.doubles, expected.hits - expected.homeRuns - expected.triples), rng);
+
+    out.atBats += atBats;
+    out.hits += hits;
+    out.homeRuns += homeRuns;
+    out.triples += triples;
+    out.doubles += doubles;
+    out.totalBases += hits + doubles + 2 * triples + 3 * homeRuns;
+    for (const key of BATTING_VOLUME_KEYS) out[key] += poisson(expected[key] * volume, rng);
+  }
+
+  if (expected.outs > 0 || expected.gamesPitched > 0) {
+    const outs = poisson(expected.outs, rng);
+    const volume = expected.outs > 0 ? outs / expected.outs : 1;
+    out.outs += outs;
+    for (const key of PITCHING_VOLUME_KEYS) out[key] += poisson(expected[key] * volume, rng);
+  }
+}
+
+function sampleTeam(side: SimulationSide, rng: Rng): StatComponents {
+  const components = emptyComponents();
+  if (side.actual) addComponents(components, side.actual);
+  for (const player of side.players) {
+    if (player.components) samplePlayer(player.components, components, rng);
+  }
+  return components;
+}
+
+function tally(counts: { win: number; tie: number; loss: number }, n: number): OutcomeProbability {
+  return { win: counts.win / n, tie: counts.tie / n, loss: counts.loss / n };
+}
+
+/**
+ * Win/tie/loss probabilities per category and for the matchup, from team 1's
+ * side. The same seed always gives the same answer.
+ */
+export function simulateMatchup(
+  team1: SimulationSide,
+  team2: SimulationSide,
+  categories: ScoringCategory[],
+  format: ScoringFormat,
+  options: SimulationOptions = {}
+): MatchupSimulation {
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const rng = createRng(options.seed ?? 1);
+  const engine = getScoringEngine(format);
+
+  const categoryCounts: Record<string, { win: number; tie: number; loss: number }> = {};
+  for (const cat of categories) categoryCounts[cat.key] = { win: 0, tie: 0, loss: 0 };
+  const matchupCounts = { win: 0, tie: 0, loss: 0 };
+  let score1 = 0;
+  let score2 = 0;
+
+  for (let i = 0; i < simulations; i++) {
+    const line1 = buildStatLine(sampleTeam(team1, rng));
+    const line2 = buildStatLine(sampleTeam(team2, rng));
+    const outcome = engine.scoreMatchup(line1, line2, categories);
+
+    for (const cat of categories) {
+      const result = outcome.categoryResults[cat.key];
+      categoryCounts[cat.key][result === 'team1' ? 'win' : result === 'team2' ? 'loss' : 'tie']++;
+    }
+    if (outcome.team1Score > outcome.team2Score) matchupCounts.win++;
+    else if (outcome.team1Score < outcome.team2Score) matchupCounts.loss++;
+    else matchupCounts.tie++;
+    score1 += outcome.team1Score;
+    score2 += outcome.team2Score;
+  }
+
+  return {
+    simulations,
+    categories: Object.fromEntries(categories.map(c => [c.key, tally(categoryCounts[c.key], simulations)])),
+    matchup: tally(matchupCounts, simulations),
+    expectedScore: { team1: score1 / simulations, team2: score2 / simulations },
+  };
+}
+
+/** "63%", keeping "<1%" and ">99%" apart from certainties. */
+export function formatProbability(p: number): string {
+  if (p > 0 && p < 0.01) return '<1%';
+  if (p < 1 && p > 0.99) return '>99%';
+  return `${Math.round(p * 100)}%`;
+}
+
+export class MatchupSimulator {
+  /**
+   * Simulate a week's matchup from the computed week-to-date stats and each
+   * team's rest-of-week projections. Seeded by the week, the teams and the
+   * reference date, so the numbers hold steady within a day and move as
+   * days complete.
+   */
+  async simulateWeek(
+    teamId: number,
+    opponentId: number,
+    week: number,
+    weeklyStats: WeekAggregation | undefined,
+    categories: ScoringCategory[],
+    format: ScoringFormat,
+    options: SimulationOptions = {}
+  ): Promise<MatchupSimulation> {
+    const [players1, players2] = await Promise.all([
+      weeklyEstimateService.getTeamPlayerEstimates(teamId, week),
+      weeklyEstimateService.getTeamPlayerEstimates(opponentId, week),
+    ]);
+    const today = (await dataService.getReferenceDate()).toISOString().split('T')[0];
+    const seed = options.seed ?? seedFromString(`${week}|${teamId}|${opponentId}|${today}`);
+
+    const simulation = simulateMatchup(
+      { actual: weeklyStats?.teamStats?.[teamId]?.components, players: players1 },
+      { actual: weeklyStats?.teamStats?.[opponentId]?.components, players: players2 },
+      categories,
+      format,
+      { ...options, seed }
+    );
+    console.log(`[Simulator] Week ${week} team ${teamId} vs ${opponentId}: ${(simulation.matchup.win * 100).toFixed(1)}% to win`);
+    return simulation;
+  }
+}
+
+export const matchupSimulator = new MatchupSimulator();
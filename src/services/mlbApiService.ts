@@ -1,14 +1,204 @@
+import { ESPN_CONFIG } from './espnApiService';
+import { fixtureHeaders, getFixtureMode } from './fixtureMode';
+import { normalizeTeamAbbrev } from '../utils/teams';
+
+const MLB_DIRECT_URL = 'https://statsapi.mlb.com';
+
+// The proxy keeps finished games on disk, so re-opening a past week is free
+export const MLB_CONFIG = {
+  BASE_URL: `${ESPN_CONFIG.PROXY_URL}/mlb`,
+};
+
+/**
+ * GET a statsapi path (e.g. `/api/v1/schedule?...`) through the proxy cache,
+ * falling back to statsapi.mlb.com directly if the proxy is unreachable.
+ */
+export async function mlbFetch(pathAndQuery: string): Promise<Response> {
+  try {
+    return await fetch(`${MLB_CONFIG.BASE_URL}${pathAndQuery}`, { headers: fixtureHeaders() });
+  } catch (err) {
+    // Replaying must stay offline and deterministic
+    if (getFixtureMode() === 'replay') throw err;
+    console.warn('[MLB] Proxy unreachable, calling statsapi directly:', err);
+    return fetch(`${MLB_DIRECT_URL}${pathAndQuery}`);
+  }
+}
+
+/*
+ * The parts of statsapi payloads the app reads. Batting and pitching lines
+ * have the same shape in a boxscore and in stats=game/gameLog/season splits.
+ */
+export interface MLBBattingLine {
+  gamesPlayed?: number;
+  plateAppearances?: number;
+  atBats?: number;
+  hits?: number;
+  doubles?: number;
+  triples?: number;
+  homeRuns?: number;
+  runs?: number;
+  rbi?: number;
+  baseOnBalls?: number;
+  intentionalWalks?: number;
+  hitByPitch?: number;
+  sacFlies?: number;
+  strikeOuts?: number;
+  stolenBases?: number;
+  caughtStealing?: number;
+  totalBases?: number;
+}
+
+export interface MLBPitchingLine {
+  gamesPlayed?: number;
+  gamesPitched?: number;
+  gamesStarted?: number;
+  inningsPitched?: string; // "5.2" is five innings and two outs
+  outs?: number;
+  battersFaced?: number;
+  hits?: number;
+  baseOnBalls?: number;
+  hitBatsmen?: number;
+  runs?: number;
+  earnedRuns?: number;
+  homeRuns?: number;
+  strikeOuts?: number;
+  wins?: number;
+  losses?: number;
+  saves?: number;
+  holds?: number;
+  blownSaves?: number;
+  saveOpportunities?: number;
+  completeGames?: number;
+}
+
+export interface MLBTeamRef {
+  id?: number;
+  name?: string;
+  abbreviation?: string;
+}
+
+// One row of a /stats or /people/{id}/stats response
+export interface MLBStatSplit {
+  date?: string;
+  stat?: MLBBattingLine & MLBPitchingLine;
+  player?: { id: number; fullName?: string };
+  team?: MLBTeamRef;
+  position?: { abbreviation?: string; name?: string };
+  game?: { gamePk?: number };
+}
+
+export interface MLBStatsResponse {
+  stats?: Array<{ group?: { displayName?: string }; splits?: MLBStatSplit[] }>;
+}
+
+// A people/search result with hydrate=currentTeam. A minor leaguer's
+// current team is the affiliate, with the MLB club as its parent.
+export interface MLBSearchPerson {
+  id: number;
+  fullName: string;
+  currentTeam?: MLBTeamRef & { parentOrgName?: string };
+  primaryPosition?: { abbreviation: string; name: string };
+}
+
+export interface MLBScheduleSide {
+  team?: MLBTeamRef;
+  probablePitcher?: { id: number; fullName?: string };
+}
+
+export interface MLBScheduleGame {
+  gamePk: number;
+  officialDate?: string;
+  gameNumber?: number;
+  venue?: { name?: string };
+  status?: { detailedState?: string; abstractGameState?: string };
+  teams?: { home?: MLBScheduleSide; away?: MLBScheduleSide };
+}
+
+export interface MLBScheduleResponse {
+  dates?: Array<{ date: string; games?: MLBScheduleGame[] }>;
+}
+
+export interface MLBBoxscorePlayer {
+  person?: { id: number; fullName: string };
+  position?: { abbreviation?: string; name?: string };
+  stats?: { batting?: MLBBattingLine; pitching?: MLBPitchingLine };
+}
+
+export interface MLBBoxscoreTeam {
+  team?: MLBTeamRef;
+  players?: Record<string, MLBBoxscorePlayer>;
+}
+
+export interface MLBBoxscore {
+  teams?: { home?: MLBBoxscoreTeam; away?: MLBBoxscoreTeam };
+}
+
+export interface ScheduledSide {
+  teamAbbrev: string; // normalized, see utils/teams
+  probablePitcherId?: number;
+  probablePitcherName?: string;
+}
+
+export interface ScheduledGame {
+  gamePk: number;
+  date: string; // official date, YYYY-MM-DD (a suspended game's resume date)
+  gameNumber: number; // 2 for the second game of a doubleheader
+  venue?: string;
+  status: 'scheduled' | 'live' | 'final' | 'postponed';
+  home: ScheduledSide;
+  away: ScheduledSide;
+}
+
+function parseScheduledGame(g: MLBScheduleGame, date: string): ScheduledGame {
+  const side = (t?: MLBScheduleSide): ScheduledSide => ({
+    teamAbbrev: normalizeTeamAbbrev(t?.team?.abbreviation),
+    probablePitcherId: t?.probablePitcher?.id,
+    probablePitcherName: t?.probablePitcher?.fullName,
+  });
+  const detailed = String(g.status?.detailedState || '');
+  const abstract = g.status?.abstractGameState;
+  const status: ScheduledGame['status'] = /Postponed|Cancelled/.test(detailed)
+    ? 'postponed'
+    : abstract === 'Final' ? 'final' : abstract === 'Live' ? 'live' : 'scheduled';
+  return {
+    gamePk: g.gamePk,
+    date: g.officialDate || date,
+    gameNumber: Number(g.gameNumber || 1),
+    venue: g.venue?.name,
+    status,
+    home: side(g.teams?.home),
+    away: side(g.teams?.away),
+  };
+}
+
+export type Hand = 'L' | 'R' | 'S';
+
+// Batting side and throwing hand; neither boxscores nor ESPN rosters carry them
+export interface Handedness {
+  bats?: Hand;
+  throws?: Hand;
+}
+
+// The parts of a statsapi /people result we read
+interface MLBPerson {
+  id: number;
+  batSide?: { code: Hand };
+  pitchHand?: { code: Hand };
+}
+
 export class MLBApiService {
   private cache: Map<number, Date[]> = new Map();
+  private gamesCache: Map<string, Promise<ScheduledGame[]>> = new Map();
+  private handCache: Map<number, Handedness> = new Map();
 
   async getSeasonDates(year: number): Promise<Date[]> {
     if (this.cache.has(year)) return this.cache.get(year)!;
 
-    const url = `https://statsapi.mlb.com/api/v1/schedule?sportId=1&season=${year}&gameTypes=R`;
+    const url = `/api/v1/schedule?sportId=1&season=${year}&gameTypes=R`;
     console.log('[MLB] Fetching season schedule:', url);
-    const res = await fetch(url);
+    const res = await mlbFetch(url);
     if (!res.ok) throw new Error(`[MLB] Failed to fetch schedule ${res.status}`);
-    const data = await res.json();
+    const data: MLBScheduleResponse = await res.json();
     const datesSet = new Set<string>();
     for (const d of data.dates || []) {
       if (d.date) datesSet.add(d.date);
@@ -19,6 +209,63 @@ export class MLBApiService {
     console.log(`[MLB] Loaded ${dates.length} game days for season ${year}`);
     return dates;
   }
+
+  /**
+   * Regular-season games between two dates (inclusive), with probable
+   * pitchers where announced. Postponed games stay in the list flagged as
+   * such; their makeup shows up again on the new date.
+   */
+  getGames(startDate: string, endDate: string): Promise<ScheduledGame[]> {
+    const key = `${startDate}|${endDate}`;
+    if (!this.gamesCache.has(key)) {
+      const url = `/api/v1/schedule?sportId=1&startDate=${startDate}&endDate=${endDate}&gameTypes=R&hydrate=team,probablePitcher`;
+      const load = mlbFetch(url)
+        .then(res => {
+          if (!res.ok) throw new Error(`[MLB] Failed to fetch schedule ${res.status}`);
+          return res.json();
+        })
+        .then((data: MLBScheduleResponse) => {
+          const games: ScheduledGame[] = [];
+          for (const d of data.dates || []) {
+            for (const g of d.games || []) games.push(parseScheduledGame(g, d.date));
+          }
+          return games;
+        })
+        .catch(err => {
+          // Drop the failed entry so the next call retries
+          this.gamesCache.delete(key);
+          throw err;
+        });
+      this.gamesCache.set(key, load);
+    }
+    return this.gamesCache.get(key)!;
+  }
+
+  /** Handedness of MLB people by id, one request for any not fetched before. */
+  async getHandedness(personIds: number[]): Promise<Map<number, Handedness>> {
+    const missing = [...new Set(personIds)].filter(id => !this.handCache.has(id));
+    if (missing.length > 0) {
+      const res = await mlbFetch(`/api/v1/people?personIds=${missing.join(',')}`);
+      if (!res.ok) throw new Error(`[MLB] Failed to fetch people ${res.status}`);
+      const data: { people?: MLBPerson[] } = await res.json();
+      for (const p of data.people || []) {
+        this.handCache.set(p.id, { bats: p.batSide?.code, throws: p.pitchHand?.code });
+      }
+    }
+    const hands = new Map<number, Handedness>();
+    for (const id of personIds) {
+      const hand = this.handCache.get(id);
+      if (hand) hands.set(id, hand);
+    }
+    return hands;
+  }
+
+  /** Games a club plays in the range, postponements excluded. */
+  async getTeamGames(teamAbbrev: string, startDate: string, endDate: string): Promise<ScheduledGame[]> {
+    const team = normalizeTeamAbbrev(teamAbbrev);
+    const games = await this.getGames(startDate, endDate);
+    return games.filter(g => g.status !== 'postponed' && (g.home.teamAbbrev === team || g.away.teamAbbrev === team));
+  }
 }
 
 export const mlbApiService = new MLBApiService(); 
\ No newline at end of file
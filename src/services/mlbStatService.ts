@@ -1,4 +1,9 @@
-import { mlbApiService } from './mlbApiService';
+import {
+  MLBBattingLine, MLBBoxscore, MLBBoxscoreTeam, mlbFetch, MLBPitchingLine, MLBScheduleResponse, MLBStatsResponse, MLBTeamRef,
+} from './mlbApiService';
+import { addComponents, componentsFromMLB, emptyComponents, StatComponents } from './categoryRegistry';
+import { calculateBattingAverage, calculateERA, calculateWHIP } from '../utils/helpers';
+import { MLBPlayer } from './playerMatcher';
 
 export interface PlayerDailyStat {
   playerId: number;
@@ -13,7 +18,11 @@ export interface PlayerDailyStat {
     AVG: number;
   };
   pitching: {
-    IP: number;
+    IP: number;    // true innings (outs / 3), not the "5.2" display value
+    outs: number;
+    ER: number;
+    H: number;
+    BB: number;
     K: number;
     W: number;
     SV: number;
@@ -21,6 +30,79 @@ export interface PlayerDailyStat {
     WHIP: number;
     QS: number;
   };
+  // Raw counting stats every scoring category is computed from
+  components: StatComponents;
+  // Games the line covers; two for a doubleheader
+  gamePks?: number[];
+}
+
+// A player's MLB line for one day, every game of a doubleheader included
+export interface MLBDayPlayer extends MLBPlayer {
+  gamePks: number[];
+  components: StatComponents;
+  stats: NonNullable<MLBPlayer['stats']>;
+}
+
+// statsapi sport ids for the affiliated minors: Triple-A, Double-A, High-A, Single-A
+export const MINOR_LEAGUE_SPORT_IDS = [11, 12, 13, 14];
+
+// A player's season totals at one level
+export interface SeasonLine {
+  sportId: number;
+  components: StatComponents;
+  // Games played, batting or pitching, whichever is more
+  games: number;
+}
+
+/**
+ * Build the hitting/pitching summary from raw components. Rates are computed
+ * from the summed counts (ER, H, BB, outs), so this is also how multi-day
+ * totals are finalised.
+ */
+export function dailyStatFromComponents(playerId: number, date: string, components: StatComponents): PlayerDailyStat {
+  const c = components;
+  const innings = c.outs / 3;
+  return {
+    playerId,
+    date,
+    hitting: {
+      AB: c.atBats,
+      R: c.runs,
+      H: c.hits,
+      HR: c.homeRuns,
+      RBI: c.rbis,
+      SB: c.stolenBases,
+      AVG: calculateBattingAverage(c.hits, c.atBats),
+    },
+    pitching: {
+      IP: innings,
+      outs: c.outs,
+      ER: c.earnedRuns,
+      H: c.hitsAllowed,
+      BB: c.walksAllowed,
+      K: c.strikeouts,
+      W: c.wins,
+      SV: c.saves,
+      ERA: calculateERA(c.earnedRuns, innings),
+      WHIP: calculateWHIP(c.walksAllowed, c.hitsAllowed, innings),
+      QS: c.qualityStarts,
+    },
+    components,
+  };
+}
+
+const isEmptyLine = (stat: unknown) => !stat || Object.keys(stat).length === 0;
+
+/**
+ * Fold one game's batting or pitching line into a player's day. Counts are
+ * summed; the raw lines keep the first game that has one, which is all the
+ * matcher reads them for.
+ */
+function addGameLine(player: MLBDayPlayer, gamePk: number | undefined, batting?: MLBBattingLine, pitching?: MLBPitchingLine): void {
+  if (gamePk && !player.gamePks.includes(gamePk)) player.gamePks.push(gamePk);
+  addComponents(player.components, componentsFromMLB(batting, pitching));
+  if (isEmptyLine(player.stats.batting) && !isEmptyLine(batting)) player.stats.batting = batting;
+  if (isEmptyLine(player.stats.pitching) && !isEmptyLine(pitching)) player.stats.pitching = pitching;
 }
 
 /*
@@ -31,7 +113,9 @@ export class MLBStatService {
   private cache: Map<string, PlayerDailyStat> = new Map();
 
   private dayCache: Map<string, Record<number, PlayerDailyStat>> = new Map();
-  private playersCache: Map<string, any[]> = new Map();
+  private playersCache: Map<string, MLBDayPlayer[]> = new Map();
+  private gameLogCache: Map<string, PlayerDailyStat[]> = new Map();
+  private seasonLineCache: Map<string, SeasonLine | null> = new Map();
 
   /**
    * Return a map of playerId -> PlayerDailyStat for a given date (YYYY-MM-DD).
@@ -41,11 +125,11 @@ export class MLBStatService {
   async getDailyStatsMap(date: string): Promise<Record<number, PlayerDailyStat>> {
     if (this.dayCache.has(date)) return this.dayCache.get(date)!;
 
-    const url = `https://statsapi.mlb.com/api/v1/schedule?sportId=1&date=${date}&hydrate=team,linescore,metadata,stats&gameTypes=R`;
+    const url = `/api/v1/schedule?sportId=1&date=${date}&hydrate=team,linescore,metadata,stats&gameTypes=R`;
     const map: Record<number, PlayerDailyStat> = {};
 
     try {
-      const res = await fetch(url);
+      const res = await mlbFetch(url);
       if (!res.ok) throw new Error(`MLB schedule fetch failed ${res.status}`);
       const data = await res.json();
 
@@ -61,38 +145,10 @@ export class MLBStatService {
               const batting = p.stats?.batting ?? {};
               const pitching = p.stats?.pitching ?? {};
 
-              if (!map[id]) {
-                map[id] = {
-                  playerId: id,
-                  date,
-                  hitting: { AB:0,R:0,H:0,HR:0,RBI:0,SB:0,AVG:0 },
-                  pitching: { IP:0,K:0,W:0,SV:0,ERA:0,WHIP:0,QS:0 }
-                };
-              }
+              if (!map[id]) map[id] = { ...dailyStatFromComponents(id, date, emptyComponents()), gamePks: [] };
               const tgt = map[id];
-              // Batting accumulations
-              tgt.hitting.R += Number(batting.runs || 0);
-              tgt.hitting.HR += Number(batting.homeRuns || 0);
-              tgt.hitting.RBI += Number(batting.rbi || 0);
-              tgt.hitting.SB += Number(batting.stolenBases || 0);
-              tgt.hitting.H += Number(batting.hits || 0);
-              tgt.hitting.AB += Number(batting.atBats || 0);
-              // AVG we'll compute at end
-
-              // Pitching accumulations
-              tgt.pitching.K += Number(pitching.strikeOuts || 0);
-              tgt.pitching.W += Number(pitching.wins || 0);
-              tgt.pitching.SV += Number(pitching.saves || 0);
-              // ERA/WHIP require rate stats; we approximate by weighting
-              const ip = Number(pitching.inningsPitched || 0);
-              const er = Number(pitching.earnedRuns || 0);
-              const h = Number(pitching.hits || 0);
-              const bb = Number(pitching.baseOnBalls || 0);
-              tgt.pitching.IP += ip;
-              tgt.pitching.ERA += er; // store ER total for later rate calc
-              tgt.pitching.WHIP += h + bb; // store numerator for WHIP rate calc
-              // QS determination
-              if (ip >= 6 && er <= 3) tgt.pitching.QS += 1;
+              tgt.gamePks!.push(gamePk);
+              addComponents(tgt.components, componentsFromMLB(batting, pitching));
             }
           };
           extract(g.teams?.home);
@@ -100,11 +156,19 @@ export class MLBStatService {
         }
       }
 
-      // Finalize AVG/ERA/WHIP
-      for (const stat of Object.values(map)) {
-        stat.hitting.AVG = stat.hitting.AB ? +(stat.hitting.H / stat.hitting.AB).toFixed(3) : 0;
-        stat.pitching.ERA = stat.pitching.IP ? +( (stat.pitching.ERA * 9) / stat.pitching.IP ).toFixed(2) : 0;
-        stat.pitching.WHIP = stat.pitching.IP ? +( stat.pitching.WHIP / stat.pitching.IP ).toFixed(2) : 0;
+      // Doubleheaders add up in components; derive the summary fields once
+      for (const id of Object.keys(map)) {
+        const stat = map[Number(id)];
+        map[Number(id)] = { ...dailyStatFromComponents(stat.playerId, date, stat.components), gamePks: stat.gamePks };
+      }
+
+      // The schedule rarely carries player lines; use the same game logs the
+      // weekly totals come from so projections have a sample to work with
+      const hasGames = (data.dates || []).some((d: any) => d.games?.length);
+      if (Object.keys(map).length === 0 && hasGames) {
+        for (const p of await this.getMLBPlayersForDate(date)) {
+          map[p.id] = { ...dailyStatFromComponents(p.id, date, p.components), gamePks: p.gamePks };
+        }
       }
 
       this.dayCache.set(date, map);
@@ -117,32 +181,26 @@ export class MLBStatService {
   }
 
   /**
-   * Get all MLB players for a given date with their stats and info
+   * Get all MLB players for a given date with their stats and info, one
+   * entry per player (a doubleheader's games summed).
    * This is used for fuzzy matching with ESPN players
    */
-  async getMLBPlayersForDate(date: string): Promise<Array<{
-    id: number;
-    fullName: string;
-    gamePk?: number;
-    team: { name: string; abbreviation: string };
-    position?: { code: string; name: string };
-    stats: { batting?: any; pitching?: any };
-  }>> {
+  async getMLBPlayersForDate(date: string): Promise<MLBDayPlayer[]> {
     // Cache per-date: if we've fetched once, skip heavy work
     if (this.playersCache.has(date)) {
       return this.playersCache.get(date)!;
     }
 
-    const playersMap: Record<number, any> = {};
+    const playersMap: Record<number, MLBDayPlayer> = {};
 
     try {
       // Use new bulk stats endpoint – one for hitters, one for pitchers
       const buildUrl = (group: 'hitting' | 'pitching') =>
-        `https://statsapi.mlb.com/api/v1/stats?stats=game&sportId=1&date=${date}&group=${group}`;
+        `/api/v1/stats?stats=game&sportId=1&date=${date}&group=${group}`;
 
       const [hitRes, pitchRes] = await Promise.all([
-        fetch(buildUrl('hitting')),
-        fetch(buildUrl('pitching')),
+        mlbFetch(buildUrl('hitting')),
+        mlbFetch(buildUrl('pitching')),
       ]);
 
       if (!hitRes.ok || !pitchRes.ok) {
@@ -152,9 +210,9 @@ export class MLBStatService {
         return fallbackPlayers;
       }
 
-      const [hitData, pitchData] = await Promise.all([hitRes.json(), pitchRes.json()]);
+      const [hitData, pitchData]: MLBStatsResponse[] = await Promise.all([hitRes.json(), pitchRes.json()]);
 
-      const ingest = (data: any, type: 'hitting' | 'pitching') => {
+      const ingest = (data: MLBStatsResponse, type: 'hitting' | 'pitching') => {
         const splits = data?.stats?.[0]?.splits || [];
         for (const s of splits) {
           const pid = s?.player?.id;
@@ -167,11 +225,16 @@ export class MLBStatService {
                 name: s.team?.name || 'Unknown',
                 abbreviation: s.team?.abbreviation || 'UNK',
               },
+              gamePks: [],
+              components: emptyComponents(),
               stats: {},
             };
           }
-          if (type === 'hitting') playersMap[pid].stats.batting = s.stat;
-          else playersMap[pid].stats.pitching = s.stat;
+          if (s.position?.abbreviation) {
+            playersMap[pid].position = { code: s.position.abbreviation, name: s.position.name || '' };
+          }
+          if (type === 'hitting') addGameLine(playersMap[pid], s.game?.gamePk, s.stat, {});
+          else addGameLine(playersMap[pid], s.game?.gamePk, {}, s.stat);
         }
       };
 
@@ -193,13 +256,13 @@ export class MLBStatService {
   }
 
   /** Fallback: original per-game boxscore extraction when bulk endpoint fails */
-  private async getPlayersViaBoxscores(date: string): Promise<any[]> {
-    const players: any[] = [];
+  private async getPlayersViaBoxscores(date: string): Promise<MLBDayPlayer[]> {
+    const players = new Map<number, MLBDayPlayer>();
     try {
-      const schedUrl = `https://statsapi.mlb.com/api/v1/schedule?sportId=1&date=${date}&gameTypes=R`;
-      const schedRes = await fetch(schedUrl);
+      const schedUrl = `/api/v1/schedule?sportId=1&date=${date}&gameTypes=R`;
+      const schedRes = await mlbFetch(schedUrl);
       if (!schedRes.ok) throw new Error('schedule fetch fail');
-      const sched = await schedRes.json();
+      const sched: MLBScheduleResponse = await schedRes.json();
 
       const gamePkList: number[] = [];
       for (const d of sched.dates || []) {
@@ -208,31 +271,116 @@ export class MLBStatService {
 
       await Promise.all(gamePkList.map(async gp => {
         try {
-          const boxUrl = `https://statsapi.mlb.com/api/v1/game/${gp}/boxscore`;
-          const boxRes = await fetch(boxUrl);
+          const boxUrl = `/api/v1/game/${gp}/boxscore`;
+          const boxRes = await mlbFetch(boxUrl);
           if (!boxRes.ok) return;
-          const box = await boxRes.json();
-          const extract = (teamData:any, teamInfo:any) => {
+          const box: MLBBoxscore = await boxRes.json();
+          const extract = (teamData?: MLBBoxscoreTeam, teamInfo?: MLBTeamRef) => {
             if (!teamData?.players) return;
             for (const key of Object.keys(teamData.players)) {
               const p = teamData.players[key];
               if (!p?.person?.id) continue;
-              players.push({
-                id:p.person.id,
-                fullName:p.person.fullName,
-                team:{ name:teamInfo?.name||'UNK', abbreviation:teamInfo?.abbreviation||'UNK'},
-                stats:{ batting:p.stats?.batting, pitching:p.stats?.pitching}
-              });
+              if (!players.has(p.person.id)) {
+                players.set(p.person.id, {
+                  id:p.person.id,
+                  fullName:p.person.fullName,
+                  team:{ name:teamInfo?.name||'UNK', abbreviation:teamInfo?.abbreviation||'UNK'},
+                  position: p.position?.abbreviation ? { code:p.position.abbreviation, name:p.position.name || '' } : undefined,
+                  gamePks: [],
+                  components: emptyComponents(),
+                  stats: {},
+                });
+              }
+              addGameLine(players.get(p.person.id)!, gp, p.stats?.batting, p.stats?.pitching);
             }
           };
           extract(box.teams?.home, box.teams?.home?.team); // team may not exist same structure
           extract(box.teams?.away, box.teams?.away?.team);
         }catch{}
       }));
-      return players;
+      // Boxscores arrive in any order
+      for (const p of players.values()) p.gamePks.sort((a, b) => a - b);
+      return [...players.values()];
     }catch(err){
       console.error('[MLBStatService] boxscore fallback fail', err);
-      return players;
+      return [...players.values()];
+    }
+  }
+
+  /**
+   * A player's MLB game log for a season, one entry per date played (a
+   * doubleheader's games summed), oldest first.
+   */
+  async getSeasonGameLog(playerId: number, season: number): Promise<PlayerDailyStat[]> {
+    const key = `${playerId}-${season}`;
+    if (this.gameLogCache.has(key)) return this.gameLogCache.get(key)!;
+
+    const url = `/api/v1/people/${playerId}/stats?stats=gameLog&group=hitting,pitching&season=${season}&sportId=1`;
+    const byDate: Record<string, PlayerDailyStat> = {};
+    try {
+      const res = await mlbFetch(url);
+      if (!res.ok) throw new Error(`MLB game log fetch failed ${res.status}`);
+      const data: MLBStatsResponse = await res.json();
+
+      for (const group of data.stats || []) {
+        const pitching = group.group?.displayName === 'pitching';
+        for (const split of group.splits || []) {
+          const date = split.date;
+          if (!date) continue;
+          if (!byDate[date]) byDate[date] = { ...dailyStatFromComponents(playerId, date, emptyComponents()), gamePks: [] };
+          const gamePk = split.game?.gamePk;
+          if (gamePk && !byDate[date].gamePks!.includes(gamePk)) byDate[date].gamePks!.push(gamePk);
+          addComponents(byDate[date].components, pitching ? componentsFromMLB({}, split.stat) : componentsFromMLB(split.stat, {}));
+        }
+      }
+    } catch (err) {
+      console.error(`[MLBStatService] Game log for ${playerId} (${season}) failed:`, err);
+    }
+
+    const log = Object.keys(byDate).sort().map(date => ({
+      ...dailyStatFromComponents(playerId, date, byDate[date].components),
+      gamePks: byDate[date].gamePks,
+    }));
+    this.gameLogCache.set(key, log);
+    return log;
+  }
+
+  /**
+   * Season totals at one level (sportId 1 for MLB, see MINOR_LEAGUE_SPORT_IDS),
+   * or null if the player didn't appear there that season.
+   */
+  async getSeasonLine(playerId: number, season: number, sportId: number): Promise<SeasonLine | null> {
+    const key = `${playerId}-${season}-${sportId}`;
+    if (this.seasonLineCache.has(key)) return this.seasonLineCache.get(key)!;
+
+    const url = `/api/v1/people/${playerId}/stats?stats=season&group=hitting,pitching&season=${season}&sportId=${sportId}`;
+    try {
+      const res = await mlbFetch(url);
+      if (!res.ok) throw new Error(`MLB season stats fetch failed ${res.status}`);
+      const data: MLBStatsResponse = await res.json();
+
+      let batting: MLBBattingLine = {};
+      let pitching: MLBPitchingLine = {};
+      for (const group of data.stats || []) {
+        // A mid-season promotion within a level is one split per club; take the total
+        const splits = group.splits || [];
+        const stat = (splits.find(s => !s.team) ?? splits[0])?.stat;
+        if (!stat) continue;
+        if (group.group?.displayName === 'pitching') pitching = stat;
+        else batting = stat;
+      }
+
+      const games = Math.max(Number(batting.gamesPlayed || 0), Number(pitching.gamesPlayed || 0));
+      const line = games > 0 ? { sportId, components: componentsFromMLB(batting, pitching), games } : null;
+      if (line) {
+        // Season totals don't say how many starts were quality ones
+        line.components.qualityStarts = 0;
+      }
+      this.seasonLineCache.set(key, line);
+      return line;
+    } catch (err) {
+      console.error(`[MLBStatService] Season line for ${playerId} (${season}, sport ${sportId}) failed:`, err);
+      return null;
     }
   }
 
@@ -244,37 +392,16 @@ export class MLBStatService {
     const key = this.buildCacheKey(playerId, date);
     if (this.cache.has(key)) return this.cache.get(key)!;
 
-    const url = `https://statsapi.mlb.com/api/v1/people/${playerId}/stats?stats=gameLog&date=${date}&sportId=1`;
+    const url = `/api/v1/people/${playerId}/stats?stats=gameLog&date=${date}&sportId=1`;
     try {
-      const res = await fetch(url);
+      const res = await mlbFetch(url);
       if (!res.ok) throw new Error(`MLB stats fetch failed ${res.status}`);
-      const data = await res.json();
+      const data: MLBStatsResponse = await res.json();
 
       const hittingRow = data.stats?.[0]?.splits?.[0]?.stat || {};
       const pitchingRow = data.stats?.[1]?.splits?.[0]?.stat || {};
 
-      const stat: PlayerDailyStat = {
-        playerId,
-        date,
-        hitting: {
-          AB: Number(hittingRow.atBats || 0),
-          R: Number(hittingRow.runs || 0),
-          H: Number(hittingRow.hits || 0),
-          HR: Number(hittingRow.homeRuns || 0),
-          RBI: Number(hittingRow.rbi || 0),
-          SB: Number(hittingRow.stolenBases || 0),
-          AVG: Number(hittingRow.avg || 0),
-        },
-        pitching: {
-          IP: Number(pitchingRow.inningsPitched || 0),
-          K: Number(pitchingRow.strikeOuts || 0),
-          W: Number(pitchingRow.wins || 0),
-          SV: Number(pitchingRow.saves || 0),
-          ERA: Number(pitchingRow.era || 0),
-          WHIP: Number(pitchingRow.whip || 0),
-          QS: 0, // MLB API doesn’t provide QS directly; compute later
-        },
-      };
+      const stat = dailyStatFromComponents(playerId, date, componentsFromMLB(hittingRow, pitchingRow));
 
       this.cache.set(key, stat);
       return stat;
@@ -0,0 +1,191 @@
+import { PitchingLimits, StatLedgerEntry, WeekAggregation } from '../types/fantasy';
+import { dataService, isStarterSlot } from './dataService';
+import { ROTATION_SIZE, startPlannerService } from './startPlannerService';
+
+/*
+ * Games-started and innings caps per matchup period. Usage so far comes
+ * from the week's aggregation ledger, what's left from our active pitchers'
+ * announced probable starts plus a rotation share of the club games still
+ * without one. ESPN counts every start made on the day a cap is reached and
+ * none after it, so starts are compared with the cap day by day.
+ */
+
+// Innings expected from a start, for leagues with an innings cap
+export const INNINGS_PER_START = 5.5;
+
+export type PitchingLimitKind = 'gamesStarted' | 'innings';
+
+export type PitchingLimitAlertKind =
+  | 'wastedStarts'   // announced starts on days after the cap is reached
+  | 'capReached'     // another streamed start would go past the cap
+  | 'capUnused';     // room for at least one more start
+
+export interface PitchingLimitAlert {
+  kind: PitchingLimitAlertKind;
+  limit: PitchingLimitKind;
+  message: string;
+  // wastedStarts: the day and whose starts there won't count
+  date?: string;
+  playerIds?: number[];
+}
+
+export interface UpcomingStart {
+  espnPlayerId: number;
+  name: string;
+  gamePk: number;
+  date: string; // YYYY-MM-DD
+}
+
+export interface PitchingLimitStatus {
+  teamId: number;
+  week: number;
+  limits: PitchingLimits;
+  startsUsed: number;
+  inningsUsed: number;
+  upcomingStarts: UpcomingStart[];
+  // Rotation share of club games with no probable named yet
+  unannouncedStarts: number;
+  projectedStarts: number;  // used + upcoming + unannounced
+  projectedInnings: number; // used + INNINGS_PER_START per start still to come
+  alerts: PitchingLimitAlert[];
+}
+
+export interface PitchingUsage {
+  startsUsed: number;
+  inningsUsed: number;
+  // Games already counted, so a start in progress isn't counted twice
+  gamePks: Set<number>;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const formatDay = (date: string) => `${Number(date.slice(5, 7))}/${Number(date.slice(8, 10))}`;
+
+/** Starts and innings from a team's counted ledger lines. */
+export function pitchingUsage(ledger: StatLedgerEntry[]): PitchingUsage {
+  const usage: PitchingUsage = { startsUsed: 0, inningsUsed: 0, gamePks: new Set() };
+  for (const entry of ledger) {
+    if (!entry.counted) continue;
+    const starts = Number(entry.stats.gamesStarted || 0);
+    usage.startsUsed += starts;
+    usage.inningsUsed += Number(entry.stats.inningsPitched || 0);
+    if (starts > 0) for (const gamePk of entry.gamePks || []) usage.gamePks.add(gamePk);
+  }
+  return usage;
+}
+
+/** Alerts for the caps given what's been used and the starts still to come. */
+export function evaluatePitchingLimits(
+  limits: PitchingLimits,
+  usage: Pick<PitchingUsage, 'startsUsed' | 'inningsUsed'>,
+  upcomingStarts: UpcomingStart[],
+  unannouncedStarts: number
+): PitchingLimitAlert[] {
+  const alerts: PitchingLimitAlert[] = [];
+  const startsLeft = upcomingStarts.length + unannouncedStarts;
+
+  if (limits.gamesStarted !== undefined) {
+    const cap = limits.gamesStarted;
+    let starts = usage.startsUsed;
+    const dates = [...new Set(upcomingStarts.map(s => s.date))].sort();
+    for (const date of dates) {
+      const day = upcomingStarts.filter(s => s.date === date);
+      if (starts >= cap) {
+        alerts.push({
+          kind: 'wastedStarts', limit: 'gamesStarted', date, playerIds: day.map(s => s.espnPlayerId),
+          message: `${day.map(s => s.name).join(', ')} ${day.length === 1 ? 'starts' : 'start'} on ${formatDay(date)}, after the ${cap}-start cap is reached; those stats won't count`,
+        });
+      }
+      starts += day.length;
+    }
+
+    const projected = usage.startsUsed + startsLeft;
+    if (projected + 1 > cap) {
+      alerts.push({
+        kind: 'capReached', limit: 'gamesStarted',
+        message: `${usage.startsUsed} of ${cap} starts used and ${round1(startsLeft)} more expected; streaming another starter would go past the cap`,
+      });
+    } else {
+      alerts.push({
+        kind: 'capUnused', limit: 'gamesStarted',
+        message: `${round1(cap - projected)} of ${cap} starts unused at this pace; room to stream a starter`,
+      });
+    }
+  }
+
+  if (limits.innings !== undefined) {
+    const cap = limits.innings;
+    const projected = usage.inningsUsed + startsLeft * INNINGS_PER_START;
+    if (projected + INNINGS_PER_START > cap) {
+      alerts.push({
+        kind: 'capReached', limit: 'innings',
+        message: `${round1(usage.inningsUsed)} of ${cap} IP used and about ${round1(projected - usage.inningsUsed)} more expected from starts; another start would go past the cap`,
+      });
+    } else {
+      alerts.push({
+        kind: 'capUnused', limit: 'innings',
+        message: `About ${round1(cap - projected)} of ${cap} IP unused at this pace; room to stream a starter`,
+      });
+    }
+  }
+  return alerts;
+}
+
+export interface PitchingLimitOptions {
+  // Defaults to the league settings
+  limits?: PitchingLimits;
+  // The week's aggregation, when already loaded
+  aggregation?: Pick<WeekAggregation, 'ledger'> | null;
+}
+
+export class PitchingLimitService {
+  /** Cap usage and warnings for one team's matchup period; null when the league has no caps. */
+  async getStatus(teamId: number, week: number, options: PitchingLimitOptions = {}): Promise<PitchingLimitStatus | null> {
+    const limits = options.limits ?? await this.getLimits();
+    if (limits.gamesStarted === undefined && limits.innings === undefined) return null;
+
+    const aggregation = options.aggregation ?? await dataService.getWeeklyStats(week);
+    const usage = pitchingUsage(aggregation?.ledger?.[teamId] || []);
+
+    const plan = await startPlannerService.getPlan(week, teamId, ['mine']);
+    const upcomingStarts: UpcomingStart[] = [];
+    let unannouncedStarts = 0;
+    // Starts made on the bench or the IL don't count toward the caps
+    const active = plan.pitchers.filter(p => p.lineupSlotId !== undefined && isStarterSlot(p.lineupSlotId));
+    for (const pitcher of active) {
+      for (const start of pitcher.starts) {
+        if (usage.gamePks.has(start.gamePk)) continue;
+        upcomingStarts.push({ espnPlayerId: pitcher.espnPlayerId, name: pitcher.name, gamePk: start.gamePk, date: start.date });
+      }
+      if (pitcher.unannouncedGames > 0) unannouncedStarts += pitcher.unannouncedGames / ROTATION_SIZE;
+    }
+    upcomingStarts.sort((a, b) => a.date.localeCompare(b.date));
+
+    const startsLeft = upcomingStarts.length + unannouncedStarts;
+    const status: PitchingLimitStatus = {
+      teamId,
+      week,
+      limits,
+      startsUsed: usage.startsUsed,
+      inningsUsed: usage.inningsUsed,
+      upcomingStarts,
+      unannouncedStarts,
+      projectedStarts: usage.startsUsed + startsLeft,
+      projectedInnings: usage.inningsUsed + startsLeft * INNINGS_PER_START,
+      // Nothing left to manage once the period is over
+      alerts: plan.startDate > plan.endDate ? [] : evaluatePitchingLimits(limits, usage, upcomingStarts, unannouncedStarts),
+    };
+    console.log(`[PitchingLimits] Team ${teamId} week ${week}: ${status.startsUsed} GS, ${round1(status.inningsUsed)} IP used; ${round1(status.projectedStarts)} GS projected`);
+    return status;
+  }
+
+  private async getLimits(): Promise<PitchingLimits> {
+    try {
+      return await dataService.getPitchingLimits();
+    } catch (err) {
+      console.warn('[PitchingLimits] No roster settings; assuming no caps:', err);
+      return {};
+    }
+  }
+}
+
+export const pitchingLimitService = new PitchingLimitService();
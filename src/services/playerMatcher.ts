@@ -1,5 +1,41 @@
 import Fuse from 'fuse.js';
 import { compareTwoStrings } from 'string-similarity';
+import { playerCrosswalk } from '../store/playerCrosswalk';
+import { normalizeTeamAbbrev, teamAbbrevFromName } from '../utils/teams';
+import { StatComponents } from './categoryRegistry';
+import { Handedness, mlbApiService, MLBBattingLine, MLBPitchingLine } from './mlbApiService';
+
+// Only confident matches are remembered; weaker ones are re-matched every time
+export const CROSSWALK_MIN_CONFIDENCE = 0.9;
+// Candidates scoring below this are never matched
+const MIN_MATCH_SCORE = 0.5;
+// A runner-up this close to the best candidate makes the match ambiguous
+const AMBIGUITY_MARGIN = 0.1;
+// Fuzzy name hits considered per player (exact and alias hits are always kept)
+const FUZZY_CANDIDATES = 10;
+
+const SIGNAL_WEIGHTS = { name: 0.6, team: 0.25, position: 0.1, appeared: 0.05, hand: 0.05 };
+const TEAM_CONFLICT_PENALTY = -0.1;
+const HAND_CONFLICT_PENALTY = -0.2;
+
+const onOtherTeam = (match: PlayerMatch) => (match.signals?.team ?? 0) < 0;
+
+type PositionGroup = 'C' | 'IF' | 'OF' | 'DH' | 'H' | 'P' | 'TWP';
+
+interface ParsedName {
+  base: string;       // normalized, suffix removed
+  canonical: string;  // base with the first name's nickname resolved
+  suffix?: string;
+}
+
+// Contribution of each signal to a match's confidence
+export interface MatchSignals {
+  name: number;
+  team: number;
+  position: number;
+  appeared: number;
+  hand: number;
+}
 
 export interface ESPNPlayer {
   playerId: number;
@@ -8,12 +44,17 @@ export interface ESPNPlayer {
   teamId?: number;
   position?: string;
   lineupSlotId: number;
+  // ESPN doesn't publish it; taken from the MLB person the player was last mapped to
+  handedness?: Handedness;
 }
 
 export interface MLBPlayer {
   id: number;
   fullName: string;
-  gamePk?: number;
+  // Games a day's line covers (two for a doubleheader), with their counts summed
+  gamePks?: number[];
+  components?: StatComponents;
+  handedness?: Handedness;
   team: {
     name: string;
     abbreviation: string;
@@ -23,8 +64,8 @@ export interface MLBPlayer {
     name: string;
   };
   stats?: {
-    batting?: any;
-    pitching?: any;
+    batting?: MLBBattingLine;
+    pitching?: MLBPitchingLine;
   };
 }
 
@@ -34,22 +75,10 @@ export interface PlayerMatch {
   confidence: number;
   matchReason: string;
   warnings?: string[];
+  signals?: MatchSignals;
 }
 
 export class PlayerMatcher {
-  private teamAbbreviationMap: Record<string, string> = {
-    // MLB team abbreviations to standardized codes
-    'LAA': 'LAA', 'HOU': 'HOU', 'OAK': 'OAK', 'TOR': 'TOR', 'ATL': 'ATL',
-    'MIL': 'MIL', 'STL': 'STL', 'CHC': 'CHC', 'ARI': 'ARI', 'LAD': 'LAD',
-    'SF': 'SF', 'CLE': 'CLE', 'SEA': 'SEA', 'MIA': 'MIA', 'NYM': 'NYM',
-    'WSH': 'WSH', 'BAL': 'BAL', 'SD': 'SD', 'PHI': 'PHI', 'PIT': 'PIT',
-    'TEX': 'TEX', 'TB': 'TB', 'BOS': 'BOS', 'CIN': 'CIN', 'COL': 'COL',
-    'KC': 'KC', 'DET': 'DET', 'MIN': 'MIN', 'CWS': 'CWS', 'NYY': 'NYY',
-    // Alternative abbreviations
-    'SFG': 'SF', 'WSN': 'WSH', 'TBR': 'TB', 'KCR': 'KC',
-    'CHW': 'CWS', 'SDP': 'SD'
-  };
-
   private positionMap: Record<string, string[]> = {
     // ESPN position to MLB position codes
     'C': ['C'],
@@ -67,6 +96,29 @@ export class PlayerMatcher {
     'P': ['P', 'SP', 'RP']
   };
 
+  // Common first-name nicknames, mapped to one canonical form
+  private nicknameMap: Record<string, string> = {
+    'alex': 'alexander', 'andy': 'andrew', 'drew': 'andrew', 'tony': 'anthony',
+    'ben': 'benjamin', 'brad': 'bradley', 'cam': 'cameron', 'chris': 'christopher',
+    'dan': 'daniel', 'danny': 'daniel', 'dave': 'david', 'ed': 'edward', 'eddie': 'edward',
+    'greg': 'gregory', 'jake': 'jacob', 'jim': 'james', 'jimmy': 'james', 'jon': 'jonathan',
+    'joe': 'joseph', 'joey': 'joseph', 'josh': 'joshua', 'ken': 'kenneth', 'kenny': 'kenneth',
+    'matt': 'matthew', 'max': 'maxwell', 'mike': 'michael', 'mikey': 'michael',
+    'nate': 'nathaniel', 'nick': 'nicholas', 'pat': 'patrick', 'pete': 'peter',
+    'rob': 'robert', 'bob': 'robert', 'bobby': 'robert', 'ron': 'ronald', 'sam': 'samuel',
+    'steve': 'steven', 'stephen': 'steven', 'tom': 'thomas', 'tommy': 'thomas',
+    'will': 'william', 'bill': 'william', 'billy': 'william', 'zach': 'zachary', 'zack': 'zachary',
+  };
+
+  private nameSuffixes = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v']);
+
+  // ESPN position to broad group; a catcher is never matched to a pitcher
+  private positionGroups: Record<string, PositionGroup> = {
+    'C': 'C', '1B': 'IF', '2B': 'IF', '3B': 'IF', 'SS': 'IF',
+    'OF': 'OF', 'LF': 'OF', 'CF': 'OF', 'RF': 'OF', 'DH': 'DH',
+    'SP': 'P', 'RP': 'P', 'P': 'P', 'TWP': 'TWP',
+  };
+
   /**
    * Normalize a player name for matching
    */
@@ -80,12 +132,28 @@ export class PlayerMatcher {
       .trim();
   }
 
+  /**
+   * Split a name into its base (suffix removed), a nickname-canonical form and
+   * the suffix itself, so "Vladimir Guerrero Jr." and "Vladimir Guerrero"
+   * compare equal but a Jr. never silently matches a Sr.
+   */
+  private parseName(name: string): ParsedName {
+    const tokens = this.normalizeName(name).split(' ').filter(Boolean);
+    let suffix: string | undefined;
+    if (tokens.length > 2 && this.nameSuffixes.has(tokens[tokens.length - 1])) {
+      suffix = tokens.pop();
+    }
+    const base = tokens.join(' ');
+    const [first, ...rest] = tokens;
+    const canonical = [this.nicknameMap[first] || first, ...rest].join(' ');
+    return { base, canonical, suffix };
+  }
+
   /**
    * Normalize team abbreviation
    */
   private normalizeTeam(team: string): string {
-    const normalized = team.toUpperCase().trim();
-    return this.teamAbbreviationMap[normalized] || normalized;
+    return normalizeTeamAbbrev(team);
   }
 
   /**
@@ -98,6 +166,31 @@ export class PlayerMatcher {
     return espnPositions.includes(mlbPosition.toUpperCase());
   }
 
+  private espnPositionGroup(position?: string): PositionGroup | undefined {
+    return position ? this.positionGroups[position.toUpperCase()] : undefined;
+  }
+
+  // MLB day lines often lack a position, but which stat groups they have tells hitter from pitcher
+  private mlbPositionGroup(mlbPlayer: MLBPlayer): PositionGroup | undefined {
+    const code = mlbPlayer.position?.code?.toUpperCase();
+    if (code && this.positionGroups[code]) return this.positionGroups[code];
+    const batted = !!mlbPlayer.stats?.batting && Object.keys(mlbPlayer.stats.batting).length > 0;
+    const pitched = !!mlbPlayer.stats?.pitching && Object.keys(mlbPlayer.stats.pitching).length > 0;
+    if (batted && pitched) return 'TWP';
+    if (pitched) return 'P';
+    if (batted) return 'H';
+    return undefined;
+  }
+
+  /** Whether the MLB player got into that day's game; undefined when we only have a bio. */
+  private appearedInGame(mlbPlayer: MLBPlayer): boolean | undefined {
+    if (!mlbPlayer.stats) return undefined;
+    const b = mlbPlayer.stats.batting || {};
+    const p = mlbPlayer.stats.pitching || {};
+    return [b.gamesPlayed, b.plateAppearances, b.atBats, p.gamesPlayed, p.battersFaced, p.outs]
+      .some(v => Number(v || 0) > 0);
+  }
+
   /**
    * Extract team abbreviation from MLB team name
    */
@@ -107,24 +200,171 @@ export class PlayerMatcher {
     }
     
     // Fallback: try to extract from team name
-    const teamNameMap: Record<string, string> = {
-      'Angels': 'LAA', 'Astros': 'HOU', 'Athletics': 'OAK', 'Blue Jays': 'TOR',
-      'Braves': 'ATL', 'Brewers': 'MIL', 'Cardinals': 'STL', 'Cubs': 'CHC',
-      'Diamondbacks': 'ARI', 'Dodgers': 'LAD', 'Giants': 'SF', 'Guardians': 'CLE',
-      'Mariners': 'SEA', 'Marlins': 'MIA', 'Mets': 'NYM', 'Nationals': 'WSH',
-      'Orioles': 'BAL', 'Padres': 'SD', 'Phillies': 'PHI', 'Pirates': 'PIT',
-      'Rangers': 'TEX', 'Rays': 'TB', 'Red Sox': 'BOS', 'Reds': 'CIN',
-      'Rockies': 'COL', 'Royals': 'KC', 'Tigers': 'DET', 'Twins': 'MIN',
-      'White Sox': 'CWS', 'Yankees': 'NYY'
-    };
+    return teamAbbrevFromName(mlbTeam.name) ?? mlbTeam.name.substring(0, 3).toUpperCase();
+  }
+
+  /**
+   * Score one ESPN/MLB pairing as a sum of signals: name (up to 0.6), team
+   * (0.25), position group (0.1), game appearance (0.05) and handedness
+   * (0.05), capped at 1. Conflicting team, position or hand subtract
+   * instead, and a conflicting suffix zeroes the name. Signals either side
+   * doesn't know contribute nothing.
+   */
+  private scoreCandidate(espnPlayer: ESPNPlayer, mlbPlayer: MLBPlayer, fuseScore?: number): PlayerMatch {
+    const espnName = this.parseName(espnPlayer.fullName);
+    const mlbName = this.parseName(mlbPlayer.fullName);
+    const signals: MatchSignals = { name: 0, team: 0, position: 0, appeared: 0, hand: 0 };
+    const reasons: string[] = [];
+    const warnings: string[] = [];
+
+    // Name
+    let nameScore: number;
+    if (espnName.base === mlbName.base) {
+      nameScore = 1;
+      reasons.push('Exact name');
+    } else if (espnName.canonical === mlbName.canonical) {
+      nameScore = 0.95;
+      reasons.push('Nickname alias');
+    } else {
+      const fuseSimilarity = fuseScore === undefined ? 0 : 1 - fuseScore; // Fuse score is lower = better
+      nameScore = Math.max(fuseSimilarity, compareTwoStrings(espnName.canonical, mlbName.canonical));
+      reasons.push(`Fuzzy name (${(nameScore * 100).toFixed(1)}%)`);
+    }
+    if (espnName.suffix && mlbName.suffix && espnName.suffix !== mlbName.suffix) {
+      // Jr. and Sr. are different people, however well the rest lines up
+      nameScore = 0;
+      warnings.push(`Suffix mismatch: ESPN(${espnName.suffix}) vs MLB(${mlbName.suffix})`);
+    }
+    signals.name = SIGNAL_WEIGHTS.name * nameScore;
+
+    // Team
+    const espnTeam = this.normalizeTeam(espnPlayer.teamAbbrev || '');
+    const mlbTeam = this.extractTeamAbbrev(mlbPlayer.team);
+    if (espnTeam && mlbTeam && mlbTeam !== 'UNK') {
+      if (espnTeam === mlbTeam) {
+        signals.team = SIGNAL_WEIGHTS.team;
+        reasons.push('team');
+      } else {
+        // Ranks the candidate down; matchPlayers won't pick it at all
+        signals.team = TEAM_CONFLICT_PENALTY;
+        warnings.push(`Team mismatch: ESPN(${espnTeam}) vs MLB(${mlbTeam})`);
+      }
+    }
 
-    for (const [name, abbrev] of Object.entries(teamNameMap)) {
-      if (mlbTeam.name.includes(name)) {
-        return abbrev;
+    // Position group
+    const espnGroup = this.espnPositionGroup(espnPlayer.position);
+    const mlbGroup = this.mlbPositionGroup(mlbPlayer);
+    if (espnGroup && mlbGroup) {
+      const espnPitcher = espnGroup === 'P';
+      const mlbPitcher = mlbGroup === 'P';
+      if (espnGroup === 'TWP' || mlbGroup === 'TWP' || espnPitcher === mlbPitcher) {
+        const sameGroup = espnGroup === mlbGroup || mlbGroup === 'H' || mlbGroup === 'TWP' || espnGroup === 'DH';
+        signals.position = sameGroup ? SIGNAL_WEIGHTS.position : SIGNAL_WEIGHTS.position / 2;
+        reasons.push('position');
+        if (!this.isPositionMatch(espnPlayer.position || '', mlbPlayer.position?.code || '')) {
+          warnings.push(`Position mismatch: ESPN(${espnPlayer.position}) vs MLB(${mlbPlayer.position?.code})`);
+        }
+      } else {
+        signals.position = -0.2;
+        warnings.push(`Role mismatch: ESPN ${espnPitcher ? 'pitcher' : 'hitter'} vs MLB ${mlbPitcher ? 'pitcher' : 'hitter'}`);
+      }
+    }
+
+    // Handedness: throwing hand for pitchers, batting side for everyone else
+    const handKey = espnGroup === 'P' ? 'throws' : 'bats';
+    const espnHand = espnPlayer.handedness?.[handKey];
+    const mlbHand = mlbPlayer.handedness?.[handKey];
+    if (espnHand && mlbHand) {
+      if (espnHand === mlbHand) {
+        signals.hand = SIGNAL_WEIGHTS.hand;
+        reasons.push('hand');
+      } else {
+        signals.hand = HAND_CONFLICT_PENALTY;
+        warnings.push(`Handedness mismatch: ESPN(${handKey} ${espnHand}) vs MLB(${handKey} ${mlbHand})`);
       }
     }
 
-    return mlbTeam.name.substring(0, 3).toUpperCase();
+    // Appearance in the day's games
+    if (this.appearedInGame(mlbPlayer)) {
+      signals.appeared = SIGNAL_WEIGHTS.appeared;
+    } else if (this.appearedInGame(mlbPlayer) === false) {
+      warnings.push('Did not appear in the game');
+    }
+
+    const total = Object.values(signals).reduce((sum, v) => sum + v, 0);
+    return {
+      espnPlayer,
+      mlbPlayer,
+      confidence: Math.max(0, Math.min(1, total)),
+      matchReason: reasons.join(' + '),
+      warnings,
+      signals,
+    };
+  }
+
+  /** Every plausible MLB player for one ESPN player, best first. */
+  private scoreCandidates(espnPlayer: ESPNPlayer, mlbPlayers: MLBPlayer[], fuse: Fuse<MLBPlayer>): PlayerMatch[] {
+    const espnName = this.parseName(espnPlayer.fullName);
+    const fuseScores = new Map(
+      fuse.search(espnName.canonical).slice(0, FUZZY_CANDIDATES).map(r => [r.item.id, r.score])
+    );
+    return mlbPlayers
+      .filter(p => fuseScores.has(p.id) || this.parseName(p.fullName).canonical === espnName.canonical)
+      .map(p => this.scoreCandidate(espnPlayer, p, fuseScores.get(p.id)))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  private buildFuse(mlbPlayers: MLBPlayer[]): Fuse<MLBPlayer> {
+    return new Fuse(mlbPlayers, {
+      keys: [{ name: 'fullName', getFn: p => this.parseName(p.fullName).canonical }],
+      threshold: 0.4, // Lower = more strict matching
+      includeScore: true
+    });
+  }
+
+  /**
+   * Best-scoring MLB players for one ESPN player, ignoring the crosswalk.
+   * Used by the match review screen to offer alternatives.
+   */
+  rankCandidates(espnPlayer: ESPNPlayer, mlbPlayers: MLBPlayer[], limit = 5): PlayerMatch[] {
+    return this.scoreCandidates(espnPlayer, mlbPlayers, this.buildFuse(mlbPlayers)).slice(0, limit);
+  }
+
+  /**
+   * Add handedness for players due their once-a-season re-check, taken from
+   * the MLB person they were mapped to before, and for their candidates, so
+   * a namesake with the other hand ranks down. Anyone else is matched
+   * without it, which saves the /people request on most days.
+   */
+  private async withHandedness(
+    espnPlayers: ESPNPlayer[], mlbPlayers: MLBPlayer[], fuse: Fuse<MLBPlayer>
+  ): Promise<{ espnPlayers: ESPNPlayer[]; mlbPlayers: MLBPlayer[] }> {
+    const previous = new Map<number, number>();
+    for (const p of espnPlayers) {
+      const entry = playerCrosswalk.peek(p.playerId);
+      // A name-search guess says nothing about who the player is
+      if (entry && entry.method !== 'search' && !p.handedness) previous.set(p.playerId, entry.mlbPlayerId);
+    }
+    if (previous.size === 0) return { espnPlayers, mlbPlayers };
+
+    const candidateIds = espnPlayers
+      .filter(p => previous.has(p.playerId))
+      .flatMap(p => this.scoreCandidates(p, mlbPlayers, fuse).map(c => c.mlbPlayer!.id));
+    let hands: Map<number, Handedness>;
+    try {
+      hands = await mlbApiService.getHandedness([...previous.values(), ...candidateIds]);
+    } catch (err) {
+      console.warn('⚠️ [PlayerMatcher] Handedness lookup failed, matching without it', err);
+      return { espnPlayers, mlbPlayers };
+    }
+
+    return {
+      espnPlayers: espnPlayers.map(p => {
+        const handedness = hands.get(previous.get(p.playerId) ?? 0);
+        return handedness ? { ...p, handedness } : p;
+      }),
+      mlbPlayers: mlbPlayers.map(p => (hands.has(p.id) ? { ...p, handedness: hands.get(p.id) } : p)),
+    };
   }
 
   /**
@@ -133,122 +373,88 @@ export class PlayerMatcher {
   async matchPlayers(espnPlayers: ESPNPlayer[], mlbPlayers: MLBPlayer[]): Promise<PlayerMatch[]> {
     console.log(`🔍 [PlayerMatcher] Matching ${espnPlayers.length} ESPN players to ${mlbPlayers.length} MLB players`);
     
-    const matches: PlayerMatch[] = [];
+    const results = new Map<number, PlayerMatch>();
     const usedMLBPlayers = new Set<number>();
 
-    // Create Fuse instance for fuzzy searching
-    const fuse = new Fuse(mlbPlayers, {
-      keys: ['fullName'],
-      threshold: 0.4, // Lower = more strict matching
-      includeScore: true
-    });
-
+    // Players already in the crosswalk are looked up by id, never fuzzy-matched
+    await playerCrosswalk.ready();
+    const mlbById = new Map(mlbPlayers.map(p => [p.id, p]));
+    const toMatch: ESPNPlayer[] = [];
     for (const espnPlayer of espnPlayers) {
-      console.log(`🔍 [PlayerMatcher] Matching ESPN player: ${espnPlayer.fullName} (${espnPlayer.teamAbbrev})`);
-      
-      const normalizedESPNName = this.normalizeName(espnPlayer.fullName);
-      const espnTeam = this.normalizeTeam(espnPlayer.teamAbbrev || '');
-      
-      let bestMatch: PlayerMatch = {
-        espnPlayer,
-        mlbPlayer: null,
-        confidence: 0,
-        matchReason: 'No match found',
-        warnings: []
-      };
-
-      // Strategy 1: Exact name match with team verification
-      for (const mlbPlayer of mlbPlayers) {
-        if (usedMLBPlayers.has(mlbPlayer.id)) continue;
-
-        const normalizedMLBName = this.normalizeName(mlbPlayer.fullName);
-        const mlbTeam = this.extractTeamAbbrev(mlbPlayer.team);
-        
-        if (normalizedESPNName === normalizedMLBName) {
-          const teamMatch = espnTeam === mlbTeam;
-          const positionMatch = this.isPositionMatch(espnPlayer.position || '', mlbPlayer.position?.code || '');
-          
-          let confidence = 0.9;
-          let matchReason = 'Exact name match';
-          const warnings: string[] = [];
-
-          if (teamMatch) {
-            confidence += 0.1;
-            matchReason += ' + team match';
-          } else if (espnTeam && mlbTeam) {
-            confidence -= 0.2;
-            warnings.push(`Team mismatch: ESPN(${espnTeam}) vs MLB(${mlbTeam})`);
-          }
-
-          if (!positionMatch) {
-            warnings.push(`Position mismatch: ESPN(${espnPlayer.position}) vs MLB(${mlbPlayer.position?.code})`);
-          }
-
-          if (confidence > bestMatch.confidence) {
-            bestMatch = {
-              espnPlayer,
-              mlbPlayer,
-              confidence,
-              matchReason,
-              warnings
-            };
-          }
-        }
+      const known = playerCrosswalk.get(espnPlayer.playerId);
+      if (!known) {
+        toMatch.push(espnPlayer);
+        continue;
       }
+      const mlbPlayer = mlbById.get(known.mlbPlayerId) ?? null;
+      if (mlbPlayer) usedMLBPlayers.add(mlbPlayer.id);
+      results.set(espnPlayer.playerId, {
+        espnPlayer,
+        mlbPlayer,
+        confidence: known.confidence,
+        matchReason: mlbPlayer ? `Crosswalk (${known.method})` : `Crosswalk (${known.method}): no MLB line today`,
+      });
+    }
+    const learned: Array<{ espnPlayerId: number; mlbPlayerId: number; fullName: string; confidence: number; method: 'matcher' }> = [];
 
-      // Strategy 2: Fuzzy name matching with team filter
-      if (bestMatch.confidence < 0.8) {
-        const fuzzyResults = fuse.search(normalizedESPNName);
-        
-        for (const result of fuzzyResults.slice(0, 5)) { // Check top 5 matches
-          const mlbPlayer = result.item;
-          if (usedMLBPlayers.has(mlbPlayer.id)) continue;
-
-          const mlbTeam = this.extractTeamAbbrev(mlbPlayer.team);
-          const teamMatch = espnTeam === mlbTeam;
-          const positionMatch = this.isPositionMatch(espnPlayer.position || '', mlbPlayer.position?.code || '');
-          
-          // Calculate confidence based on name similarity and other factors
-          const nameScore = 1 - (result.score || 0); // Fuse score is lower = better
-          const stringSimilarity = compareTwoStrings(normalizedESPNName, this.normalizeName(mlbPlayer.fullName));
-          const nameSimilarity = Math.max(nameScore, stringSimilarity);
-          
-          let confidence = nameSimilarity * 0.7; // Base confidence from name match
-          let matchReason = `Fuzzy name match (${(nameSimilarity * 100).toFixed(1)}%)`;
-          const warnings: string[] = [];
-
-          if (teamMatch) {
-            confidence += 0.2;
-            matchReason += ' + team match';
-          } else if (espnTeam && mlbTeam) {
-            confidence -= 0.1;
-            warnings.push(`Team mismatch: ESPN(${espnTeam}) vs MLB(${mlbTeam})`);
-          }
-
-          if (positionMatch) {
-            confidence += 0.1;
-          } else {
-            warnings.push(`Position mismatch: ESPN(${espnPlayer.position}) vs MLB(${mlbPlayer.position?.code})`);
-          }
-
-          if (confidence > bestMatch.confidence && confidence > 0.5) {
-            bestMatch = {
-              espnPlayer,
-              mlbPlayer,
-              confidence,
-              matchReason,
-              warnings
-            };
-          }
-        }
+    // Score every candidate up front, then assign the most confident players
+    // first so a clear match claims its MLB player before a weaker one can
+    const fuse = this.buildFuse(mlbPlayers);
+    const handed = await this.withHandedness(toMatch, mlbPlayers, fuse);
+    const scored = handed.espnPlayers
+      .map(espnPlayer => ({ espnPlayer, candidates: this.scoreCandidates(espnPlayer, handed.mlbPlayers, fuse) }))
+      .sort((a, b) => (b.candidates[0]?.confidence ?? 0) - (a.candidates[0]?.confidence ?? 0));
+
+    for (const { espnPlayer, candidates } of scored) {
+      console.log(`🔍 [PlayerMatcher] Matching ESPN player: ${espnPlayer.fullName} (${espnPlayer.teamAbbrev})`);
+
+      // Never a player on another club: when the real one has no line that day,
+      // a same-name, same-role player elsewhere would still clear MIN_MATCH_SCORE.
+      // A trade ESPN hasn't caught up with goes to review instead.
+      const available = candidates.filter(c =>
+        !usedMLBPlayers.has(c.mlbPlayer!.id) && c.confidence >= MIN_MATCH_SCORE && !onOtherTeam(c));
+      const [best, runnerUp] = available;
+      let bestMatch: PlayerMatch;
+
+      if (!best) {
+        bestMatch = {
+          espnPlayer,
+          mlbPlayer: null,
+          confidence: 0,
+          matchReason: candidates[0]
+            ? `No match found (best: ${candidates[0].mlbPlayer!.fullName}, ${(candidates[0].confidence * 100).toFixed(0)}%${onOtherTeam(candidates[0]) ? ', other team' : ''})`
+            : 'No match found',
+          warnings: [],
+        };
+      } else if (runnerUp && best.confidence - runnerUp.confidence < AMBIGUITY_MARGIN) {
+        // Two similar candidates: refuse rather than guess, so it goes to review
+        const describe = (c: PlayerMatch) => `${c.mlbPlayer!.fullName} (${this.extractTeamAbbrev(c.mlbPlayer!.team)}, ${(c.confidence * 100).toFixed(0)}%)`;
+        bestMatch = {
+          espnPlayer,
+          mlbPlayer: null,
+          confidence: 0,
+          matchReason: `Ambiguous: ${describe(best)} vs ${describe(runnerUp)}`,
+          warnings: [...(best.warnings || []), ...(runnerUp.warnings || [])],
+        };
+      } else {
+        bestMatch = best;
       }
 
       // Mark the matched MLB player as used
       if (bestMatch.mlbPlayer) {
         usedMLBPlayers.add(bestMatch.mlbPlayer.id);
+        if (bestMatch.confidence >= CROSSWALK_MIN_CONFIDENCE) {
+          learned.push({
+            espnPlayerId: espnPlayer.playerId,
+            mlbPlayerId: bestMatch.mlbPlayer.id,
+            fullName: espnPlayer.fullName,
+            confidence: bestMatch.confidence,
+            method: 'matcher',
+          });
+        }
       }
 
-      matches.push(bestMatch);
+      results.set(espnPlayer.playerId, bestMatch);
       
       // Log the match result
       if (bestMatch.mlbPlayer) {
@@ -257,10 +463,18 @@ export class PlayerMatcher {
           console.warn(`⚠️ [PlayerMatcher] Warnings: ${bestMatch.warnings.join(', ')}`);
         }
       } else {
-        console.warn(`❌ [PlayerMatcher] No match found for: ${espnPlayer.fullName} (${espnPlayer.teamAbbrev})`);
+        console.warn(`❌ [PlayerMatcher] ${bestMatch.matchReason} for: ${espnPlayer.fullName} (${espnPlayer.teamAbbrev})`);
       }
     }
 
+    if (learned.length > 0) {
+      await playerCrosswalk.record(learned);
+      console.log(`🗂️ [PlayerMatcher] Added ${learned.length} players to the crosswalk`);
+    }
+
+    // Keep the caller's order
+    const matches = espnPlayers.map(p => results.get(p.playerId)!).filter(Boolean);
+
     // Summary
     const matched = matches.filter(m => m.mlbPlayer !== null);
     const highConfidence = matched.filter(m => m.confidence >= 0.8);
@@ -0,0 +1,262 @@
+import { ScoringCategory, WeekAggregation } from '../types/fantasy';
+import { dataService } from './dataService';
+import { addComponents, buildStatLine, ComponentKey, emptyComponents, StatComponents, TeamStatLine } from './categoryRegistry';
+import { computeWeekStats, espnHistoricalRosterSource, RosterSource } from './statsAggregator';
+import { PlayerEstimate, weeklyEstimateService } from './weeklyEstimateService';
+import { simulateMatchup } from './matchupSimulator';
+import { getScoringEngine, ScoringFormat } from '../utils/scoringEngines';
+
+/*
+ * Projection backtest: replay matchup periods as they looked the day before
+ * they started, project every team's week with WeeklyEstimateService, and
+ * score the projections against what the aggregation engine says happened.
+ * Win probabilities are checked on every pair of teams, as if they had met.
+ */
+
+// Player-level counts compared per dataSource bucket
+const BUCKET_KEYS: ComponentKey[] = [
+  'atBats', 'hits', 'homeRuns', 'runs', 'rbis', 'stolenBases',
+  'outs', 'strikeouts', 'earnedRuns', 'hitsAllowed', 'walksAllowed', 'wins', 'saves',
+];
+const CALIBRATION_BINS = 10;
+const DEFAULT_SIMULATIONS = 500;
+
+export interface CategoryError {
+  key: string;
+  abbrev: string;
+  samples: number;
+  // Projected minus actual: positive means we projected too much
+  meanError: number;
+  meanAbsError: number;
+}
+
+export interface CalibrationBin {
+  from: number;
+  to: number;
+  predictions: number;
+  meanPredicted: number;
+  // How often the category was actually won
+  observed: number;
+}
+
+export interface SourceBucketError {
+  dataSource: PlayerEstimate['dataSource'];
+  players: number;
+  // Mean |projected - actual| per player, by component
+  meanAbsError: Partial<Record<ComponentKey, number>>;
+  // Summed |projected - actual| over summed actual, all BUCKET_KEYS
+  relativeError: number;
+}
+
+export interface BacktestTeamWeek {
+  teamId: number;
+  projected: TeamStatLine;
+  actual: TeamStatLine;
+}
+
+export interface BacktestWeek {
+  week: number;
+  asOf: string; // YYYY-MM-DD the projections were made on
+  teams: BacktestTeamWeek[];
+}
+
+export interface BacktestReport {
+  weeks: BacktestWeek[];
+  categories: CategoryError[];
+  calibration: CalibrationBin[];
+  // Mean squared error of category win probabilities (0 is perfect, 0.25 a coin flip)
+  brierScore: number;
+  // Weakest first
+  dataSources: SourceBucketError[];
+}
+
+export interface BacktestOptions {
+  teamIds?: number[];
+  categories?: ScoringCategory[];
+  format?: ScoringFormat;
+  simulations?: number;
+  // Who started each day for the actuals (ESPN's historical rosters by default)
+  rosterSource?: RosterSource;
+}
+
+interface PlayerSample {
+  dataSource: PlayerEstimate['dataSource'];
+  projected: StatComponents;
+  actual: StatComponents;
+}
+
+/** Each counted ledger line summed per ESPN player. */
+function actualByPlayer(aggregation: WeekAggregation, teamId: number): Map<number, StatComponents> {
+  const byPlayer = new Map<number, StatComponents>();
+  for (const entry of aggregation.ledger[teamId] || []) {
+    if (!entry.counted) continue;
+    if (!byPlayer.has(entry.espnPlayerId)) byPlayer.set(entry.espnPlayerId, emptyComponents());
+    addComponents(byPlayer.get(entry.espnPlayerId)!, entry.stats.components);
+  }
+  return byPlayer;
+}
+
+function dayBefore(date: string): Date {
+  return new Date(Date.parse(`${date}T12:00:00Z`) - 86_400_000);
+}
+
+export class ProjectionBacktest {
+  async run(weeks: number[], options: BacktestOptions = {}): Promise<BacktestReport> {
+    const categories = options.categories ?? await dataService.getScoringCategories();
+    const format = options.format ?? await dataService.getScoringFormat();
+    const teamIds = options.teamIds ?? (await dataService.getTeams()).map((t: { id: number }) => t.id);
+    const engine = getScoringEngine(format);
+
+    const report: BacktestReport = { weeks: [], categories: [], calibration: [], brierScore: 0, dataSources: [] };
+    const errors: Record<string, number[]> = {};
+    const predictions: Array<{ p: number; won: boolean }> = [];
+    const players: PlayerSample[] = [];
+
+    for (const week of weeks) {
+      const weekMeta = (await dataService.getWeekMetaMap())[week];
+      if (!weekMeta?.startISO) {
+        console.warn(`[Backtest] No dates for week ${week}; skipping`);
+        continue;
+      }
+      const asOf = dayBefore(weekMeta.startISO.split('T')[0]);
+
+      // Project with only what was known before the week began
+      const estimates: Record<number, PlayerEstimate[]> = {};
+      dataService.setReferenceDate(asOf);
+      try {
+        for (const teamId of teamIds) {
+          estimates[teamId] = await weeklyEstimateService.getTeamPlayerEstimates(teamId, week);
+        }
+      } finally {
+        dataService.setReferenceDate(null);
+      }
+
+      const actual = await computeWeekStats(week, {
+        rosterSource: options.rosterSource ?? espnHistoricalRosterSource,
+        teamIds,
+      });
+
+      const result: BacktestWeek = { week, asOf: asOf.toISOString().split('T')[0], teams: [] };
+      for (const teamId of teamIds) {
+        const projectedComponents = emptyComponents();
+        for (const est of estimates[teamId]) if (est.components) addComponents(projectedComponents, est.components);
+        const projected = buildStatLine(projectedComponents);
+        const actualLine = actual.teamStats[teamId] ?? buildStatLine(emptyComponents());
+        result.teams.push({ teamId, projected, actual: actualLine });
+
+        for (const cat of categories) {
+          (errors[cat.key] ??= []).push((projected[cat.key] ?? 0) - (actualLine[cat.key] ?? 0));
+        }
+
+        const actualPlayers = actualByPlayer(actual, teamId);
+        for (const est of estimates[teamId]) {
+          players.push({
+            dataSource: est.dataSource,
+            projected: est.components ?? emptyComponents(),
+            actual: actualPlayers.get(est.playerId) ?? emptyComponents(),
+          });
+        }
+      }
+
+      for (let i = 0; i < teamIds.length; i++) {
+        for (let j = i + 1; j < teamIds.length; j++) {
+          const [a, b] = [teamIds[i], teamIds[j]];
+          const sim = simulateMatchup(
+            { players: estimates[a] },
+            { players: estimates[b] },
+            categories,
+            format,
+            { simulations: options.simulations ?? DEFAULT_SIMULATIONS, seed: week * 1000 + i * 31 + j }
+          );
+          const outcome = engine.scoreMatchup(result.teams[i].actual, result.teams[j].actual, categories);
+          for (const cat of categories) {
+            predictions.push({ p: sim.categories[cat.key].win, won: outcome.categoryResults[cat.key] === 'team1' });
+          }
+        }
+      }
+
+      report.weeks.push(result);
+      console.log(`[Backtest] Week ${week} replayed as of ${result.asOf} for ${teamIds.length} teams`);
+    }
+
+    report.categories = categories.map(cat => {
+      const e = errors[cat.key] || [];
+      const mean = (xs: number[]) => (xs.length ? xs.reduce((s, x) => s + x, 0) / xs.length : 0);
+      return {
+        key: cat.key,
+        abbrev: cat.abbrev,
+        samples: e.length,
+        meanError: mean(e),
+        meanAbsError: mean(e.map(Math.abs)),
+      };
+    });
+    report.calibration = this.calibrate(predictions);
+    report.brierScore = predictions.length
+      ? predictions.reduce((s, { p, won }) => s + (p - (won ? 1 : 0)) ** 2, 0) / predictions.length
+      : 0;
+    report.dataSources = this.bucketErrors(players);
+    return report;
+  }
+
+  private calibrate(predictions: Array<{ p: number; won: boolean }>): CalibrationBin[] {
+    const bins = Array.from({ length: CALIBRATION_BINS }, (_, i) => ({ from: i / CALIBRATION_BINS, to: (i + 1) / CALIBRATION_BINS, sum: 0, wins: 0, n: 0 }));
+    for (const { p, won } of predictions) {
+      const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.floor(p * CALIBRATION_BINS))];
+      bin.n++;
+      bin.sum += p;
+      if (won) bin.wins++;
+    }
+    return bins
+      .filter(b => b.n > 0)
+      .map(b => ({ from: b.from, to: b.to, predictions: b.n, meanPredicted: b.sum / b.n, observed: b.wins / b.n }));
+  }
+
+  private bucketErrors(players: PlayerSample[]): SourceBucketError[] {
+    const buckets = new Map<PlayerEstimate['dataSource'], PlayerSample[]>();
+    for (const p of players) {
+      if (!buckets.has(p.dataSource)) buckets.set(p.dataSource, []);
+      buckets.get(p.dataSource)!.push(p);
+    }
+
+    const result: SourceBucketError[] = [];
+    for (const [dataSource, samples] of buckets) {
+      const meanAbsError: Partial<Record<ComponentKey, number>> = {};
+      let absTotal = 0;
+      let actualTotal = 0;
+      for (const key of BUCKET_KEYS) {
+        const abs = samples.reduce((s, p) => s + Math.abs(p.projected[key] - p.actual[key]), 0);
+        meanAbsError[key] = abs / samples.length;
+        absTotal += abs;
+        actualTotal += samples.reduce((s, p) => s + p.actual[key], 0);
+      }
+      result.push({ dataSource, players: samples.length, meanAbsError, relativeError: absTotal / Math.max(actualTotal, 1) });
+    }
+    return result.sort((a, b) => b.relativeError - a.relativeError);
+  }
+}
+
+const pct = (x: number) => `${(x * 100).toFixed(0)}%`;
+
+/** Plain-text report for the command line. */
+export function formatBacktestReport(report: BacktestReport): string {
+  const lines: string[] = [];
+  lines.push(`Weeks: ${report.weeks.map(w => `${w.week} (as of ${w.asOf})`).join(', ') || 'none'}`);
+
+  lines.push('', 'Category error (projected - actual, per team-week)');
+  for (const c of report.categories) {
+    lines.push(`  ${c.abbrev.padEnd(6)} bias ${c.meanError.toFixed(3).padStart(9)}  MAE ${c.meanAbsError.toFixed(3).padStart(9)}  n=${c.samples}`);
+  }
+
+  lines.push('', `Win-probability calibration (Brier ${report.brierScore.toFixed(3)})`);
+  for (const b of report.calibration) {
+    lines.push(`  ${pct(b.from).padStart(4)}-${pct(b.to).padEnd(4)} predicted ${pct(b.meanPredicted).padStart(4)}  won ${pct(b.observed).padStart(4)}  n=${b.predictions}`);
+  }
+
+  lines.push('', 'Projection sources, weakest first');
+  for (const s of report.dataSources) {
+    lines.push(`  ${s.dataSource.padEnd(11)} players ${String(s.players).padStart(4)}  relative error ${pct(s.relativeError)}`);
+  }
+  return lines.join('\n');
+}
+
+export const projectionBacktest = new ProjectionBacktest();
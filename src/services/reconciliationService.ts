@@ -0,0 +1,158 @@
+import { dataService } from './dataService';
+import { compareCategory, fromEspnValue } from './categoryRegistry';
+import { ESPNMatchupScore } from './espnApiService';
+import { ScoringCategory, StatLedgerEntry, WeekAggregation } from '../types/fantasy';
+
+/*
+ * Reconciliation of our computed weekly totals against ESPN's official
+ * matchup values (view=mMatchupScore). Our numbers come from fuzzy-matched
+ * MLB lines, so every mismatch is reported with the ledger lines most likely
+ * to explain it.
+ */
+
+// Matches below this confidence are worth a second look even when counted
+const SHAKY_MATCH_CONFIDENCE = 0.8;
+const MAX_SUSPECTS = 3;
+
+export interface DiscrepancySuspect {
+  entry: StatLedgerEntry;
+  reason: string;
+}
+
+export interface CategoryDiscrepancy {
+  category: ScoringCategory;
+  official: number;
+  computed: number;
+  difference: number;  // official - computed
+  suspects: DiscrepancySuspect[];
+}
+
+export interface TeamReconciliation {
+  teamId: number;
+  matchupId?: number;
+  // false when ESPN had no official values for this team and week
+  officialAvailable: boolean;
+  categoriesChecked: number;
+  discrepancies: CategoryDiscrepancy[];
+}
+
+export interface WeekReconciliation {
+  week: number;
+  teams: Record<number, TeamReconciliation>;
+}
+
+// Counting stats add up line by line; rates (AVG, ERA, ...) don't
+function isAdditive(category: ScoringCategory): boolean {
+  return category.decimals === 0 || category.key === 'inningsPitched';
+}
+
+function participated(entry: StatLedgerEntry, category: ScoringCategory): boolean {
+  const c = entry.stats.components;
+  return category.type === 'batting' ? c.plateAppearances > 0 || c.atBats > 0 : c.outs > 0 || c.battersFaced > 0;
+}
+
+/**
+ * Rank the ledger lines that could explain a gap. Scores are heuristic: a
+ * left-out line whose value closes the gap is the strongest signal.
+ */
+function findSuspects(category: ScoringCategory, difference: number, ledger: StatLedgerEntry[]): DiscrepancySuspect[] {
+  const additive = isAdditive(category);
+  const scored: Array<DiscrepancySuspect & { score: number }> = [];
+
+  for (const entry of ledger) {
+    const value = entry.stats[category.key] ?? 0;
+
+    if (!entry.counted && entry.mlbPlayerId !== undefined && participated(entry, category)) {
+      const closes = additive && compareCategory(category, value, difference) === 'tie';
+      scored.push({
+        entry,
+        score: closes ? 3 : 2,
+        reason: closes
+          ? `Left out (${(entry.matchConfidence * 100).toFixed(0)}% match) and accounts for the whole gap`
+          : `Left out: ${(entry.matchConfidence * 100).toFixed(0)}% match`,
+      });
+    } else if (!entry.counted && entry.mlbPlayerId === undefined && (!additive || difference > 0)) {
+      scored.push({ entry, score: 1, reason: 'No MLB line matched – stats may be missing' });
+    } else if (entry.counted && participated(entry, category)) {
+      const closes = additive && value !== 0 && compareCategory(category, -value, difference) === 'tie';
+      if (closes) {
+        scored.push({ entry, score: 3, reason: 'Counted here but ESPN has the total without this line' });
+      } else if (entry.matchConfidence < SHAKY_MATCH_CONFIDENCE) {
+        scored.push({ entry, score: 1.5, reason: `Counted on a ${(entry.matchConfidence * 100).toFixed(0)}% match` });
+      }
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.entry.date.localeCompare(b.entry.date))
+    .slice(0, MAX_SUSPECTS)
+    .map(({ entry, reason }) => ({ entry, reason }));
+}
+
+export class ReconciliationService {
+  /** Diff one team's computed line against ESPN's official per-stat values. */
+  reconcileTeam(
+    teamId: number,
+    official: Record<number, number> | undefined,
+    computed: Record<string, number> | undefined,
+    ledger: StatLedgerEntry[],
+    categories: ScoringCategory[],
+    matchupId?: number
+  ): TeamReconciliation {
+    if (!official || Object.keys(official).length === 0) {
+      return { teamId, matchupId, officialAvailable: false, categoriesChecked: 0, discrepancies: [] };
+    }
+
+    const discrepancies: CategoryDiscrepancy[] = [];
+    let categoriesChecked = 0;
+    for (const category of categories) {
+      if (official[category.statId] === undefined) continue;
+      categoriesChecked++;
+      // scoreByStat is in ESPN's units: IP comes as outs
+      const officialValue = fromEspnValue(category.statId, official[category.statId]);
+      const computedValue = computed?.[category.key] ?? 0;
+      // Equal at display precision is a match (ESPN rounds rates the same way)
+      if (compareCategory(category, officialValue, computedValue) === 'tie') continue;
+      const difference = officialValue - computedValue;
+      discrepancies.push({
+        category,
+        official: officialValue,
+        computed: computedValue,
+        difference,
+        suspects: findSuspects(category, difference, ledger),
+      });
+    }
+    return { teamId, matchupId, officialAvailable: true, categoriesChecked, discrepancies };
+  }
+
+  /** Pass `weekly` when the caller already has getWeeklyStats(week) to avoid recomputing it. */
+  async reconcileWeek(week: number, weekly?: WeekAggregation): Promise<WeekReconciliation> {
+    const [scores, stats, categories] = await Promise.all([
+      dataService.getOfficialMatchupScores(week),
+      weekly ?? dataService.getWeeklyStats(week),
+      dataService.getScoringCategories(),
+    ]);
+
+    const teams: Record<number, TeamReconciliation> = {};
+    const addSide = (matchup: ESPNMatchupScore, side: ESPNMatchupScore['home']) => {
+      teams[side.teamId] = this.reconcileTeam(
+        side.teamId,
+        side.scoreByStat,
+        stats.teamStats?.[side.teamId],
+        stats.ledger?.[side.teamId] || [],
+        categories,
+        matchup.matchupId
+      );
+    };
+    for (const matchup of scores) {
+      addSide(matchup, matchup.home);
+      addSide(matchup, matchup.away);
+    }
+
+    const total = Object.values(teams).reduce((n, t) => n + t.discrepancies.length, 0);
+    console.log(`[Reconcile] Week ${week}: ${Object.keys(teams).length} teams, ${total} discrepancies`);
+    return { week, teams };
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
@@ -0,0 +1,235 @@
+import { dataService } from './dataService';
+import { ESPNFreeAgent, ESPNRosterPlayer } from './espnApiService';
+import { mlbApiService, ScheduledGame, ScheduledSide } from './mlbApiService';
+import { ESPNPlayer, MLBPlayer, playerMatcher } from './playerMatcher';
+import { playerCrosswalk } from '../store/playerCrosswalk';
+import { normalizeTeamAbbrev } from '../utils/teams';
+
+/*
+ * Probable-starter planner: which starting pitchers on our roster, the
+ * matchup opponent's roster and the free-agent pool have announced starts
+ * in a matchup period, and against whom. Teams announce probables a few
+ * days out, so later days of the week fill in as it approaches.
+ */
+
+const SP_SLOT_ID = 14;
+const PITCHER_SLOT_IDS = [13, 14, 15];
+const PITCHER_POSITIONS = ['SP', 'RP', 'P'];
+// Free agents considered per plan, most owned first
+const FREE_AGENT_LIMIT = 100;
+// Name-only matches against the probables list must be at least this sure
+const PROBABLE_MATCH_CONFIDENCE = 0.8;
+// A starter gets one of every five unannounced club games
+export const ROTATION_SIZE = 5;
+// Days ahead that clubs name their probable starters
+const PROBABLE_NOTICE_DAYS = 2;
+
+export interface PlannedStart {
+  gamePk: number;
+  date: string; // YYYY-MM-DD
+  opponent: string;
+  home: boolean;
+  park: string;
+}
+
+export type PlannerPool = 'mine' | 'opponent' | 'freeAgent';
+
+// A rostered player or a free agent
+type PoolPlayer = ESPNRosterPlayer | ESPNFreeAgent;
+
+export interface PlannedPitcher {
+  espnPlayerId: number;
+  mlbPlayerId?: number;
+  name: string;
+  teamAbbrev: string;
+  pool: PlannerPool;
+  // ESPN lineup slot, for rostered pitchers
+  lineupSlotId?: number;
+  starts: PlannedStart[];
+  // Club games left with no probable named yet; any of them could be theirs
+  unannouncedGames: number;
+  percentOwned?: number;
+}
+
+export interface StartPlan {
+  week: number;
+  startDate: string;
+  endDate: string;
+  opponentTeamId?: number;
+  pitchers: PlannedPitcher[];
+}
+
+/**
+ * A club's games from `today` on, as they looked that day. A game already
+ * final after `today` only happens when a past week is replayed as of its
+ * start: it was still to be played then, and the schedule now names who
+ * actually started. Probables are announced a couple of days out, so those
+ * starters are only kept inside that window.
+ */
+export function remainingGamesAsOf(games: ScheduledGame[], today: string): ScheduledGame[] {
+  const announcedThrough = new Date(Date.parse(today) + PROBABLE_NOTICE_DAYS * 86_400_000).toISOString().split('T')[0];
+  const unannounced = (side: ScheduledSide): ScheduledSide => ({ ...side, probablePitcherId: undefined, probablePitcherName: undefined });
+  return games
+    .filter(g => g.status !== 'final' || g.date > today)
+    .map(g => {
+      if (g.status !== 'final') return g;
+      if (g.date <= announcedThrough) return { ...g, status: 'scheduled' as const };
+      return { ...g, status: 'scheduled' as const, home: unannounced(g.home), away: unannounced(g.away) };
+    });
+}
+
+/** Announced starts for one pitcher among the given games. */
+export function probableStartsFor(games: ScheduledGame[], mlbPlayerId: number): PlannedStart[] {
+  const starts: PlannedStart[] = [];
+  for (const game of games) {
+    if (game.status === 'postponed' || game.status === 'final') continue;
+    const home = game.home.probablePitcherId === mlbPlayerId;
+    if (!home && game.away.probablePitcherId !== mlbPlayerId) continue;
+    starts.push({
+      gamePk: game.gamePk,
+      date: game.date,
+      opponent: home ? game.away.teamAbbrev : game.home.teamAbbrev,
+      home,
+      park: game.venue || `${game.home.teamAbbrev} home park`,
+    });
+  }
+  return starts;
+}
+
+/** Remaining club games that don't have a probable pitcher for the club yet. */
+export function unannouncedGamesFor(games: ScheduledGame[], teamAbbrev: string): number {
+  const team = normalizeTeamAbbrev(teamAbbrev);
+  return games.filter(g => {
+    if (g.status === 'postponed' || g.status === 'final') return false;
+    const side = g.home.teamAbbrev === team ? g.home : g.away.teamAbbrev === team ? g.away : null;
+    return side !== null && !side.probablePitcherId;
+  }).length;
+}
+
+export class StartPlannerService {
+  /**
+   * Probable starts for the rest of a matchup period (all of it, for a
+   * future week) for our pitchers, the opponent's and free agents, or just
+   * the pools in `include`.
+   */
+  async getPlan(week: number, teamId: number, include: PlannerPool[] = ['mine', 'opponent', 'freeAgent']): Promise<StartPlan> {
+    const weekMeta = (await dataService.getWeekMetaMap())[week];
+    if (!weekMeta?.startISO || !weekMeta?.endISO) throw new Error(`No dates for week ${week}`);
+
+    const today = (await dataService.getReferenceDate()).toISOString().split('T')[0];
+    const weekStart = weekMeta.startISO.split('T')[0];
+    const endDate = weekMeta.endISO.split('T')[0];
+    const startDate = today > weekStart ? today : weekStart;
+    const plan: StartPlan = { week, startDate, endDate, pitchers: [] };
+    if (startDate > endDate) return plan;
+
+    // Same view of the week as the estimate, so a replayed week keeps its games
+    const games = remainingGamesAsOf(await mlbApiService.getGames(startDate, endDate), today)
+      .filter(g => g.status !== 'postponed');
+
+    const pools: Array<{ pool: PlannerPool; players: PoolPlayer[] }> = [];
+    if (include.includes('mine')) {
+      pools.push({ pool: 'mine', players: await dataService.getTeamRoster(teamId, week) });
+    }
+    if (include.includes('opponent')) {
+      plan.opponentTeamId = await this.getOpponentTeamId(week, teamId);
+      if (plan.opponentTeamId) {
+        pools.push({ pool: 'opponent', players: await dataService.getTeamRoster(plan.opponentTeamId, week) });
+      }
+    }
+    if (include.includes('freeAgent')) {
+      try {
+        pools.push({ pool: 'freeAgent', players: await dataService.getFreeAgents(SP_SLOT_ID, FREE_AGENT_LIMIT) });
+      } catch (err) {
+        console.warn('[StartPlanner] Free agents unavailable:', err);
+      }
+    }
+
+    const mlbIds = await this.resolveMlbIds(pools.flatMap(p => p.players.filter(isPitcher)), games);
+
+    for (const { pool, players } of pools) {
+      for (const player of players.filter(isPitcher)) {
+        const mlbPlayerId = mlbIds.get(player.playerId);
+        const starts = mlbPlayerId ? probableStartsFor(games, mlbPlayerId) : [];
+        // Rostered starters are listed even without an announced start
+        if (starts.length === 0 && (pool === 'freeAgent' || !isStartingPitcher(player))) continue;
+        plan.pitchers.push({
+          espnPlayerId: player.playerId,
+          mlbPlayerId,
+          name: player.name,
+          teamAbbrev: player.team,
+          pool,
+          lineupSlotId: 'lineupSlotId' in player ? player.lineupSlotId : undefined,
+          starts,
+          unannouncedGames: unannouncedGamesFor(games, player.team),
+          percentOwned: 'percentOwned' in player ? player.percentOwned : undefined,
+        });
+      }
+    }
+
+    plan.pitchers.sort((a, b) => b.starts.length - a.starts.length);
+    console.log(`[StartPlanner] Week ${week}: ${plan.pitchers.filter(p => p.starts.length > 1).length} two-start pitchers`);
+    return plan;
+  }
+
+  private async getOpponentTeamId(week: number, teamId: number): Promise<number | undefined> {
+    try {
+      const matchups = await dataService.getMatchups(week);
+      const matchup = matchups.find(m => m.homeTeamId === teamId || m.awayTeamId === teamId);
+      if (!matchup) return undefined;
+      return matchup.homeTeamId === teamId ? matchup.awayTeamId : matchup.homeTeamId;
+    } catch (err) {
+      console.warn(`[StartPlanner] No matchup for team ${teamId} in week ${week}:`, err);
+      return undefined;
+    }
+  }
+
+  /**
+   * ESPN id -> MLB id: the crosswalk first, then a match against the
+   * announced probables (pitchers without a start can't match anyone).
+   */
+  private async resolveMlbIds(players: PoolPlayer[], games: ScheduledGame[]): Promise<Map<number, number>> {
+    await playerCrosswalk.ready();
+    const ids = new Map<number, number>();
+    const unmapped: ESPNPlayer[] = [];
+    for (const p of players) {
+      const mlbId = playerCrosswalk.getMlbId(p.playerId);
+      if (mlbId) ids.set(p.playerId, mlbId);
+      else unmapped.push({ playerId: p.playerId, fullName: p.name, teamAbbrev: p.team, position: p.position, lineupSlotId: 'lineupSlotId' in p ? p.lineupSlotId : SP_SLOT_ID });
+    }
+    if (unmapped.length === 0) return ids;
+
+    const probables = new Map<number, MLBPlayer>();
+    for (const game of games) {
+      for (const side of [game.home, game.away]) {
+        if (!side.probablePitcherId || probables.has(side.probablePitcherId)) continue;
+        probables.set(side.probablePitcherId, {
+          id: side.probablePitcherId,
+          fullName: side.probablePitcherName || '',
+          team: { name: side.teamAbbrev, abbreviation: side.teamAbbrev },
+          position: { code: 'P', name: 'Pitcher' },
+        });
+      }
+    }
+
+    const matches = await playerMatcher.matchPlayers(unmapped, [...probables.values()]);
+    for (const match of matches) {
+      if (match.mlbPlayer && match.confidence >= PROBABLE_MATCH_CONFIDENCE) {
+        ids.set(match.espnPlayer.playerId, match.mlbPlayer.id);
+      }
+    }
+    return ids;
+  }
+}
+
+function isPitcher(player: PoolPlayer): boolean {
+  return PITCHER_POSITIONS.includes(player.position)
+    || (player.eligibleSlots || []).some(slot => PITCHER_SLOT_IDS.includes(slot));
+}
+
+// ESPN lists most pitchers as plain "P"; SP eligibility tells starters apart
+function isStartingPitcher(player: PoolPlayer): boolean {
+  return player.position === 'SP' || (player.eligibleSlots || []).includes(SP_SLOT_ID);
+}
+
+export const startPlannerService = new StartPlannerService();
@@ -1,91 +1,246 @@
 import { mlbStatService } from './mlbStatService';
-import { dataService, STARTER_SLOT_IDS } from './dataService';
+import { dataService, isStarterSlot } from './dataService';
+import { getSnapshotForDate } from '../store/rosterHistory';
+import { addComponents, buildStatLine, emptyComponents, StatComponents } from './categoryRegistry';
+import { playerMatcher, ESPNPlayer } from './playerMatcher';
+import { ESPNRosterPlayer } from './espnApiService';
+import { StatLedgerEntry, WeekAggregation } from '../types/fantasy';
 
-interface TeamStats {
-  runs: number; homeRuns: number; rbis: number; stolenBases: number; hits: number; battingAverage: number;
-  strikeouts: number; wins: number; saves: number; era: number; whip: number; qualityStarts: number;
+/*
+ * Weekly aggregation engine – the one place team totals are computed.
+ *
+ * For every team and scoring day a RosterSource says who was in a starting
+ * slot, and a StatSource turns those players into MLB stat lines. Totals are
+ * always "sum the components, then compute the categories", and every line
+ * that was considered is kept in the ledger.
+ */
+
+export interface AggregationDay {
+  date: string;              // YYYY-MM-DD
+  scoringPeriodId?: number;
 }
 
-function blankStats(): TeamStats {
-  return { runs:0, homeRuns:0, rbis:0, stolenBases:0, hits:0, battingAverage:0,
-    strikeouts:0, wins:0, saves:0, era:0, whip:0, qualityStarts:0 };
+export type RosterPlayer = ESPNPlayer;
+
+export interface RosterSource {
+  name: string;
+  /** Players in starting slots for the day, or [] if this source doesn't know. */
+  getStarters(teamId: number, day: AggregationDay): Promise<RosterPlayer[]>;
 }
 
-function getRosterForDate(teamId:number, date:string): number[] {
-  const snap = localStorage.getItem(`roster-history-${date}`);
-  if (!snap) return [];
-  try {
-    const payload = JSON.parse(snap) as { snapshotDate:string; createdAt:number; teams:Array<{teamId:number;players:Array<{id:number;slot:number}>}> };
-    const team = payload.teams.find(t=>t.teamId===teamId);
-    if (!team) return [];
-    return team.players.filter(p=>STARTER_SLOT_IDS.includes(p.slot)).map(p=>p.id);
-  } catch { return []; }
+export interface PlayerDayLine {
+  player: RosterPlayer;
+  mlbPlayerId?: number;
+  gamePks?: number[];
+  components: StatComponents | null;  // null when no MLB line was found
+  confidence: number;
+  reason: string;
+}
+
+export interface StatSource {
+  name: string;
+  getLines(day: AggregationDay, players: RosterPlayer[]): Promise<PlayerDayLine[]>;
 }
 
+// Lines matched with less confidence than this are kept out of the totals
+export const MIN_MATCH_CONFIDENCE = 0.5;
+
 // Simple helper for logging aggregate progress
 function logDay(teamId:number, date:string, starters:number, ab:number, ip:number) {
-  console.log(`[Agg] ${date} Team ${teamId} starters=${starters} AB=${ab} IP=${ip}`);
+  console.log(`[Agg] ${date} Team ${teamId} starters=${starters} AB=${ab} IP=${ip.toFixed(1)}`);
+}
+
+function toRosterPlayer(p: ESPNRosterPlayer): RosterPlayer {
+  return {
+    playerId: p.playerId,
+    fullName: p.name || 'Unknown',
+    teamAbbrev: p.team,
+    position: p.position,
+    lineupSlotId: p.lineupSlotId,
+  };
+}
+
+/* ---------------------------- roster sources ---------------------------- */
+
+/** ESPN's roster as of a past scoring period (view=mRoster&scoringPeriodId=N). */
+export const espnHistoricalRosterSource: RosterSource = {
+  name: 'espn-historical',
+  async getStarters(teamId, day) {
+    if (day.scoringPeriodId === undefined) return [];
+    const roster = await dataService.getTeamRosterForDay(teamId, day.scoringPeriodId);
+    return roster.filter(p => isStarterSlot(p.lineupSlotId)).map(toRosterPlayer);
+  },
+};
+
+/** Daily roster snapshots; names missing from older snapshots come from ESPN. */
+export const snapshotRosterSource: RosterSource = {
+  name: 'snapshot',
+  async getStarters(teamId, day) {
+    const snapshot = await getSnapshotForDate(day.date);
+    const team = snapshot?.teams.find(t => t.teamId === teamId);
+    if (!team) return [];
+    const starters = team.players.filter(p => isStarterSlot(p.slot));
+
+    let names = new Map<number, RosterPlayer>();
+    const scoringPeriodId = day.scoringPeriodId ?? snapshot?.scoringPeriodId;
+    if (starters.some(p => !p.name) && scoringPeriodId !== undefined) {
+      const roster = await dataService.getTeamRosterForDay(teamId, scoringPeriodId).catch(() => []);
+      names = new Map(roster.map(p => [p.playerId, toRosterPlayer(p)]));
+    }
+
+    return starters.map(p => ({
+      ...names.get(p.id),
+      playerId: p.id,
+      fullName: p.name || names.get(p.id)?.fullName || 'Unknown',
+      lineupSlotId: p.slot,
+    }));
+  },
+};
+
+/** Today's live roster; knows nothing about other days. */
+export const liveRosterSource: RosterSource = {
+  name: 'live',
+  async getStarters(teamId, day) {
+    if (day.date !== (await dataService.getReferenceDate()).toISOString().slice(0, 10)) return [];
+    const roster = await dataService.getTeamRoster(teamId, await dataService.getCurrentWeek());
+    return roster.filter(p => isStarterSlot(p.lineupSlotId)).map(toRosterPlayer);
+  },
+};
+
+/** Ask each source in turn and use the first non-empty answer. */
+export function firstAvailable(...sources: RosterSource[]): RosterSource {
+  return {
+    name: sources.map(s => s.name).join(' > '),
+    async getStarters(teamId, day) {
+      for (const source of sources) {
+        try {
+          const starters = await source.getStarters(teamId, day);
+          if (starters.length > 0) return starters;
+        } catch (err) {
+          console.warn(`[Agg] Roster source ${source.name} failed for team ${teamId} on ${day.date}`, err);
+        }
+      }
+      return [];
+    },
+  };
+}
+
+export const defaultRosterSource = firstAvailable(snapshotRosterSource, espnHistoricalRosterSource, liveRosterSource);
+
+/* ----------------------------- stat sources ----------------------------- */
+
+/** Match ESPN players to the day's MLB lines by name, team and position. */
+export const fuzzyMatchStatSource: StatSource = {
+  name: 'fuzzy-match',
+  async getLines(day, players) {
+    const mlbPlayers = await mlbStatService.getMLBPlayersForDate(day.date);
+    if (mlbPlayers.length === 0) {
+      return players.map(player => ({ player, components: null, confidence: 0, reason: 'No MLB games' }));
+    }
+    const matches = await playerMatcher.matchPlayers(players, mlbPlayers);
+    return matches.map(match => ({
+      player: match.espnPlayer,
+      mlbPlayerId: match.mlbPlayer?.id,
+      gamePks: match.mlbPlayer?.gamePks,
+      components: match.mlbPlayer?.components ?? null,
+      confidence: match.confidence,
+      reason: match.matchReason,
+    }));
+  },
+};
+
+/** Look lines up by MLB id, given a way to map ESPN ids to MLB ids. */
+export function mlbIdStatSource(resolveMlbId: (espnPlayerId: number) => number | undefined | Promise<number | undefined>): StatSource {
+  return {
+    name: 'mlb-id',
+    async getLines(day, players) {
+      const dayMap = await mlbStatService.getDailyStatsMap(day.date);
+      return Promise.all(players.map(async player => {
+        const mlbPlayerId = await resolveMlbId(player.playerId);
+        const stat = mlbPlayerId !== undefined ? dayMap[mlbPlayerId] : undefined;
+        return {
+          player,
+          mlbPlayerId,
+          gamePks: stat?.gamePks,
+          components: stat ? stat.components : null,
+          confidence: mlbPlayerId !== undefined ? 1 : 0,
+          reason: mlbPlayerId === undefined ? 'No MLB id' : stat ? 'Matched by id' : 'Did not play',
+        };
+      }));
+    },
+  };
+}
+
+/* -------------------------------- engine -------------------------------- */
+
+export interface AggregationOptions {
+  rosterSource?: RosterSource;
+  statSource?: StatSource;
+  teamIds?: number[];
 }
 
-export async function computeWeekStats(matchupPeriodId:number, startISO:string): Promise<Record<number, TeamStats>> {
-  // build list of 7 date strings
-  const dates:string[] = [];
-  const start = new Date(startISO);
-  for(let i=0;i<7;i++) {
+/** The scoring days of a matchup period, with their dates. */
+export async function getWeekDays(matchupPeriodId: number): Promise<AggregationDay[]> {
+  const weekMeta = (await dataService.getWeekMetaMap())[matchupPeriodId];
+  if (!weekMeta?.startISO) return [];
+  const start = new Date(weekMeta.startISO);
+  const scoringIds: number[] = weekMeta.scoringPeriodIds?.length ? weekMeta.scoringPeriodIds : Array(7).fill(undefined);
+  return scoringIds.map((scoringPeriodId, i) => {
     const d = new Date(start);
-    d.setUTCDate(start.getUTCDate()+i);
-    dates.push(d.toISOString().slice(0,10));
-  }
+    d.setUTCDate(start.getUTCDate() + i);
+    return { date: d.toISOString().slice(0, 10), scoringPeriodId };
+  });
+}
+
+export async function aggregateDays(days: AggregationDay[], options: AggregationOptions = {}): Promise<WeekAggregation> {
+  const rosterSource = options.rosterSource ?? defaultRosterSource;
+  const statSource = options.statSource ?? fuzzyMatchStatSource;
+  const teamIds = options.teamIds ?? (await dataService.getTeams()).map((t: { id: number }) => t.id);
+  const result: WeekAggregation = { teamStats: {}, ledger: {} };
 
-  const teams = await dataService.getTeams();
-  const result: Record<number, TeamStats> = {};
-
-  for (const team of teams) {
-    const agg = blankStats();
-    let totalAB = 0, totalH = 0, totalIP = 0, totalER = 0, totalWHIPNum = 0;
-    for (const ds of dates) {
-      const dayMap = await mlbStatService.getDailyStatsMap(ds);
-      const playerIds = getRosterForDate(team.id, ds);
-      if (playerIds.length === 0) {
-        console.warn(`[Agg] No starters for team ${team.id} on ${ds}`);
+  for (const teamId of teamIds) {
+    const components = emptyComponents();
+    const ledger: StatLedgerEntry[] = [];
+    for (const day of days) {
+      const starters = await rosterSource.getStarters(teamId, day);
+      if (starters.length === 0) {
+        console.warn(`[Agg] No starters for team ${teamId} on ${day.date}`);
         continue;
       }
-      for (const pid of playerIds) {
-        const stat = dayMap[pid];
-        if (!stat) continue;
-        // Hitting
-        agg.runs += stat.hitting.R;
-        agg.homeRuns += stat.hitting.HR;
-        agg.rbis += stat.hitting.RBI;
-        agg.stolenBases += stat.hitting.SB;
-        agg.hits += stat.hitting.H;
-        totalAB += stat.hitting.AB;
-        totalH += stat.hitting.H;
-
-        // Pitching counting stats
-        agg.strikeouts += stat.pitching.K;
-        agg.wins += stat.pitching.W;
-        agg.saves += stat.pitching.SV;
-        agg.qualityStarts += stat.pitching.QS;
-
-        // Pitching rate accumulators
-        const ip = stat.pitching.IP;
-        const eraRate = stat.pitching.ERA;
-        const whipRate = stat.pitching.WHIP;
-        if (ip > 0) {
-          totalIP += ip;
-          totalER += (eraRate * ip) / 9;
-          totalWHIPNum += whipRate * ip;
-        }
+      const lines = await statSource.getLines(day, starters);
+      for (const line of lines) {
+        const counted = line.components !== null && line.confidence >= MIN_MATCH_CONFIDENCE;
+        if (counted) addComponents(components, line.components!);
+        ledger.push({
+          teamId,
+          date: day.date,
+          scoringPeriodId: day.scoringPeriodId,
+          espnPlayerId: line.player.playerId,
+          playerName: line.player.fullName,
+          lineupSlotId: line.player.lineupSlotId,
+          mlbPlayerId: line.mlbPlayerId,
+          gamePks: line.gamePks,
+          stats: buildStatLine(line.components ?? emptyComponents()),
+          matchConfidence: line.confidence,
+          matchReason: line.reason,
+          counted,
+        });
       }
-      logDay(team.id, ds, playerIds.length, totalAB, totalIP);
+      logDay(teamId, day.date, starters.length, components.atBats, components.outs / 3);
     }
-    // finalize rates
-    agg.battingAverage = totalAB ? +(totalH / totalAB).toFixed(3) : 0;
-    agg.era = totalIP ? +((totalER * 9) / totalIP).toFixed(2) : 0;
-    agg.whip = totalIP ? +(totalWHIPNum / totalIP).toFixed(2) : 0;
-    result[team.id] = agg;
+    result.teamStats[teamId] = buildStatLine(components);
+    result.ledger[teamId] = ledger;
   }
-  console.log('[Agg] Completed week aggregation', matchupPeriodId, result);
   return result;
-} 
\ No newline at end of file
+}
+
+export async function computeWeekStats(matchupPeriodId: number, options: AggregationOptions = {}): Promise<WeekAggregation> {
+  const days = await getWeekDays(matchupPeriodId);
+  if (days.length === 0) {
+    console.warn(`[Agg] No dates for matchup period ${matchupPeriodId}`);
+    return { teamStats: {}, ledger: {} };
+  }
+  const result = await aggregateDays(days, options);
+  console.log('[Agg] Completed week aggregation', matchupPeriodId, result.teamStats);
+  return result;
+}
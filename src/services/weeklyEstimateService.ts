@@ -1,26 +1,52 @@
-import { mlbStatService, PlayerDailyStat } from './mlbStatService';
-import { dataService } from './dataService';
+import { dailyStatFromComponents, MINOR_LEAGUE_SPORT_IDS, mlbStatService, PlayerDailyStat } from './mlbStatService';
+import { PlannedStart, probableStartsFor, remainingGamesAsOf, ROTATION_SIZE, unannouncedGamesFor } from './startPlannerService';
+import { dataService, isStarterSlot } from './dataService';
 import { PlayerMatcher, ESPNPlayer } from './playerMatcher';
+import { mlbApiService, mlbFetch, MLBSearchPerson } from './mlbApiService';
+import { playerCrosswalk } from '../store/playerCrosswalk';
+import { normalizeTeamAbbrev, teamAbbrevFromName } from '../utils/teams';
+import { addComponents, buildStatLine, emptyComponents, scaleComponents, StatComponents, TeamStatLine } from './categoryRegistry';
 
-export interface WeeklyEstimate {
-  runs: number;
-  homeRuns: number;
-  rbis: number;
-  stolenBases: number;
-  battingAverage: number;
-  strikeouts: number;
-  wins: number;
-  saves: number;
-  era: number;
-  whip: number;
-}
+// Every category for the week, with the summed components behind it
+export type WeeklyEstimate = TeamStatLine;
 
 export interface PlayerEstimate {
   playerId: number;
+  mlbPlayerId?: number;
   fullName: string;
-  estimate: WeeklyEstimate;
+  estimate: TeamStatLine;
   dataSource: 'last4weeks' | 'seasonAvg' | 'minorLeague' | 'noData';
+  // Games (starts, for starting pitchers) projected for the rest of the week
   gamesProjected: number;
+  // Club games left in the matchup period
+  gamesRemaining: number;
+  // Announced probable starts among them (starting pitchers only)
+  probableStarts?: number;
+  starts?: PlannedStart[];
+  // Projected raw counts behind the estimate, when there is MLB data
+  components?: StatComponents;
+  // Why a rostered player couldn't be projected (noData only)
+  note?: string;
+}
+
+// What the MLB schedule says about the rest of a player's week
+interface ScheduleOutlook {
+  gamesRemaining: number;
+  starts: PlannedStart[];
+  // Remaining club games with no probable pitcher named yet
+  unannouncedGames: number;
+  // Club games and game days in the recent-sample window
+  sampleGames: number;
+  sampleDays: number;
+}
+
+// Dates a player's sample covers. The club schedule is fetched for the
+// schedule range (default: the window itself) so players share one fetch.
+interface SampleWindow {
+  startDate: string;
+  endDate: string;
+  scheduleStart?: string;
+  scheduleEnd?: string;
 }
 
 // Minor League Equivalency factors (simplified)
@@ -41,26 +67,60 @@ const MLE_FACTORS = {
   }
 };
 
+// How much of a level's production carries over, on top of MLE_FACTORS
+// (which are calibrated for Triple-A), by statsapi sport id
+const MLE_LEVEL_FACTORS: Record<number, number> = {
+  11: 1.0,  // Triple-A
+  12: 0.92, // Double-A
+  13: 0.85, // High-A
+  14: 0.80, // Single-A
+};
+
+/**
+ * Translate minor-league totals to their MLB equivalent. Production (runs,
+ * hits, strikeouts...) shrinks with the level; runs and baserunners allowed
+ * grow. Playing time (AB, outs, games) is left alone.
+ */
+export function translateMinorLeagueComponents(components: StatComponents, sportId: number): StatComponents {
+  const level = MLE_LEVEL_FACTORS[sportId] ?? MLE_LEVEL_FACTORS[14];
+  const bat = MLE_FACTORS.batting;
+  const pitch = MLE_FACTORS.pitching;
+  const c = { ...components };
+
+  c.runs *= bat.runs * level;
+  c.rbis *= bat.rbis * level;
+  c.stolenBases *= bat.stolenBases * level;
+  // Batting average moves through hits; extra-base hits go down with them
+  c.hits *= bat.battingAverage * level;
+  c.doubles *= bat.battingAverage * level;
+  c.triples *= bat.battingAverage * level;
+  c.homeRuns *= bat.homeRuns * level;
+  c.totalBases = c.hits + c.doubles + 2 * c.triples + 3 * c.homeRuns;
+
+  c.strikeouts *= pitch.strikeouts * level;
+  c.wins *= pitch.wins * level;
+  c.saves *= pitch.saves * level;
+  c.earnedRuns *= pitch.era / level;
+  c.runsAllowed *= pitch.era / level;
+  c.hitsAllowed *= pitch.whip / level;
+  c.walksAllowed *= pitch.whip / level;
+  return c;
+}
+
 export class WeeklyEstimateService {
   private cache: Map<string, PlayerEstimate> = new Map();
 
   /**
-   * Get weekly estimates for a team's projected starters
+   * Expected end-of-week line for a team: what it has banked so far (`actual`,
+   * the week's computed stats) plus its starters' projections over the games
+   * their clubs have left in the matchup period.
    */
-  async getTeamWeeklyEstimate(teamId: number, week: number): Promise<WeeklyEstimate> {
+  async getTeamWeeklyEstimate(teamId: number, week: number, actual?: { components?: StatComponents }): Promise<WeeklyEstimate> {
     try {
-      // Get the team's projected starters for the week
-      const starters = await this.getProjectedStarters(teamId, week);
-      
-      // Get estimates for each starter
-      const playerEstimates: PlayerEstimate[] = [];
-      for (const starter of starters) {
-        const estimate = await this.getPlayerWeeklyEstimate(starter.playerId, starter.fullName, week, starter);
-        playerEstimates.push(estimate);
-      }
+      const playerEstimates = await this.getTeamPlayerEstimates(teamId, week);
 
       // Aggregate team totals
-      return this.aggregateTeamEstimates(playerEstimates);
+      return this.aggregateTeamEstimates(playerEstimates, actual?.components);
     } catch (error) {
       console.error(`[WeeklyEstimate] Failed to get team estimate for team ${teamId}, week ${week}:`, error);
       return this.getEmptyEstimate();
@@ -68,10 +128,27 @@ export class WeeklyEstimateService {
   }
 
   /**
-   * Get weekly estimate for a single player
+   * Rest-of-week estimates for each of a team's projected starters
+   */
+  async getTeamPlayerEstimates(teamId: number, week: number): Promise<PlayerEstimate[]> {
+    // Get the team's projected starters for the week
+    const starters = await this.getProjectedStarters(teamId, week);
+
+    const playerEstimates: PlayerEstimate[] = [];
+    for (const starter of starters) {
+      const estimate = await this.getPlayerWeeklyEstimate(starter.playerId, starter.fullName, week, starter);
+      playerEstimates.push(estimate);
+    }
+    return playerEstimates;
+  }
+
+  /**
+   * Get the rest-of-week estimate for a single player
    */
   async getPlayerWeeklyEstimate(playerId: number, fullName: string, week: number, espnMeta?: {teamAbbrev?:string, position?:string}): Promise<PlayerEstimate> {
-    const cacheKey = `${playerId}-${week}`;
+    // Games remaining shrink as the week goes on
+    const today = this.toDateString(await dataService.getReferenceDate());
+    const cacheKey = `${playerId}-${week}-${today}`;
     if (this.cache.has(cacheKey)) {
       return this.cache.get(cacheKey)!;
     }
@@ -80,8 +157,9 @@ export class WeeklyEstimateService {
       // Determine MLB id first (ESPN id != MLB id). Use PlayerMatcher once using the first day of current week.
       const weekMetaMap = await dataService.getWeekMetaMap();
       const wkMeta = weekMetaMap[week];
-      let mlbId = 0;
-      if (wkMeta?.startISO) {
+      await playerCrosswalk.ready();
+      let mlbId = playerCrosswalk.getMlbId(playerId) ?? 0;
+      if (!mlbId && wkMeta?.startISO) {
         const dateStr = wkMeta.startISO.split('T')[0];
         try {
           const mlbPlayers = await mlbStatService.getMLBPlayersForDate(dateStr);
@@ -103,61 +181,103 @@ export class WeeklyEstimateService {
         }
       }
 
-      // If still not mapped, try People search endpoint
+      // If still not mapped, try People search endpoint (minor leaguers included).
+      // A name search is a guess: it goes to the match review queue, and the
+      // player has no projection until someone confirms it there
       if (!mlbId) {
         try {
-          const searchUrl = `https://statsapi.mlb.com/api/v1/people?search=${encodeURIComponent(fullName)}&sportId=1`;
-          const res = await fetch(searchUrl);
-          if (res.ok) {
-            const data = await res.json();
-            const person = data.people?.[0];
-            if (person && person.id) {
-              mlbId = person.id;
-            }
+          const guess = await this.searchMlbPerson(fullName, espnMeta?.teamAbbrev);
+          if (guess) {
+            await playerCrosswalk.record([
+              { espnPlayerId: playerId, mlbPlayerId: guess, fullName, confidence: 0.6, method: 'search' },
+            ]);
+            const estimate = this.noDataEstimate(playerId, fullName, `Found MLB ${guess} by name search only; confirm it in match review`);
+            this.cache.set(cacheKey, estimate);
+            return estimate;
           }
         } catch (err) {
           console.warn('MLB People search failed for', fullName, err);
         }
       }
 
-      const targetId = mlbId || playerId; // fallback to espn id if no mapping
-
-      // Try to get last 4 weeks of data using MLB id if available
-      const last4WeeksData = await this.getLast4WeeksData(targetId, week);
-      
-      if (last4WeeksData.length > 0) {
-        const estimate = this.calculateFromRecentData(last4WeeksData, fullName);
+      const position = espnMeta?.position;
+      const finish = (estimate: PlayerEstimate): PlayerEstimate => {
+        estimate.playerId = playerId;
+        estimate.mlbPlayerId = mlbId || undefined;
         this.cache.set(cacheKey, estimate);
         return estimate;
+      };
+
+      // Without an MLB id there are no stats to look up, and the ESPN id
+      // could belong to some other MLB player
+      if (!mlbId) {
+        return finish(this.noDataEstimate(playerId, fullName, 'No MLB id found for this player'));
+      }
+
+      // Try to get last 4 weeks of data
+      const sample = await this.getLast4WeeksWindow(week);
+      const last4WeeksData = sample ? await this.getLast4WeeksData(mlbId, week) : [];
+      
+      if (sample && last4WeeksData.length > 0) {
+        const outlook = await this.getScheduleOutlook(espnMeta?.teamAbbrev, mlbId, week, sample);
+        return finish(this.calculateFromRecentData(last4WeeksData, fullName, outlook, position));
       }
 
       // Fallback to season average if less than 4 weeks
-      const seasonData = await this.getSeasonAverage(playerId, week);
-      if (seasonData.length > 0) {
-        const estimate = this.calculateFromSeasonData(seasonData, fullName);
-        this.cache.set(cacheKey, estimate);
-        return estimate;
+      const season = await this.getSeasonAverage(mlbId, week);
+      if (season) {
+        const outlook = await this.getScheduleOutlook(espnMeta?.teamAbbrev, mlbId, week, season.window);
+        return finish(this.calculateFromSeasonData(season.stats, fullName, outlook, position));
       }
 
-      // Final fallback to minor league data (placeholder)
-      const minorLeagueEstimate = await this.getMinorLeagueEstimate(playerId, fullName);
-      this.cache.set(cacheKey, minorLeagueEstimate);
-      return minorLeagueEstimate;
+      // Call-ups and prospects: translated minor-league stats
+      const outlook = await this.getScheduleOutlook(espnMeta?.teamAbbrev, mlbId, week, null);
+      const minorLeagueEstimate = await this.getMinorLeagueEstimate(mlbId, fullName, week, outlook, position);
+      if (minorLeagueEstimate) return finish(minorLeagueEstimate);
+
+      return finish(this.noDataEstimate(playerId, fullName, 'No MLB or minor-league stats this season or last'));
 
     } catch (error) {
       console.error(`[WeeklyEstimate] Failed to get estimate for player ${playerId}:`, error);
-      const noDataEstimate: PlayerEstimate = {
-        playerId,
-        fullName,
-        estimate: this.getEmptyEstimate(),
-        dataSource: 'noData',
-        gamesProjected: 0
-      };
+      const noDataEstimate = this.noDataEstimate(playerId, fullName, `Projection failed: ${error instanceof Error ? error.message : error}`);
       this.cache.set(cacheKey, noDataEstimate);
       return noDataEstimate;
     }
   }
 
+  /**
+   * MLB id of the first person a name search finds on the player's ESPN club,
+   * counting a minor leaguer's parent club. A name alone is never enough.
+   */
+  private async searchMlbPerson(fullName: string, teamAbbrev?: string): Promise<number | undefined> {
+    const team = normalizeTeamAbbrev(teamAbbrev);
+    if (!team) return undefined;
+    const searchUrl = `/api/v1/people/search?names=${encodeURIComponent(fullName)}&sportIds=1,${MINOR_LEAGUE_SPORT_IDS.join(',')}&hydrate=currentTeam`;
+    const res = await mlbFetch(searchUrl);
+    if (!res.ok) return undefined;
+    const data: { people?: MLBSearchPerson[] } = await res.json();
+    const onClub = (data.people || []).find(person => {
+      const club = person.currentTeam?.parentOrgName
+        ? teamAbbrevFromName(person.currentTeam.parentOrgName)
+        : normalizeTeamAbbrev(person.currentTeam?.abbreviation);
+      return club === team;
+    });
+    return onClub?.id;
+  }
+
+  private noDataEstimate(playerId: number, fullName: string, note: string): PlayerEstimate {
+    console.warn(`[WeeklyEstimate] No projection for ${fullName}: ${note}`);
+    return {
+      playerId,
+      fullName,
+      estimate: this.getEmptyEstimate(),
+      dataSource: 'noData',
+      gamesProjected: 0,
+      gamesRemaining: 0,
+      note
+    };
+  }
+
   /**
    * Get projected starters for a team for a given week
    */
@@ -168,8 +288,7 @@ export class WeeklyEstimateService {
       
       // Filter to get only starters (not bench/IL)
       const starters = roster.filter((player: any) => {
-        // Use the same logic as the existing system for determining starters
-        return player.lineupSlotId !== 16 && player.lineupSlotId !== 17 && player.status === 'ACTIVE';
+        return isStarterSlot(player.lineupSlotId);
       });
 
       return starters.map((player: any) => ({
@@ -184,6 +303,79 @@ export class WeeklyEstimateService {
     }
   }
 
+  /**
+   * Club games left in the matchup period from the reference date on, with
+   * this pitcher's announced starts, and the club's games over the sample
+   * window the player's rates come from.
+   */
+  private async getScheduleOutlook(
+    teamAbbrev: string | undefined,
+    mlbId: number,
+    week: number,
+    sample: SampleWindow | null
+  ): Promise<ScheduleOutlook> {
+    const outlook: ScheduleOutlook = { gamesRemaining: 0, starts: [], unannouncedGames: 0, sampleGames: 0, sampleDays: 0 };
+    const weekMeta = (await dataService.getWeekMetaMap())[week];
+    if (!weekMeta?.startISO || !weekMeta?.endISO) return outlook;
+
+    const today = this.toDateString(await dataService.getReferenceDate());
+    const weekStart = weekMeta.startISO.split('T')[0];
+    const weekEnd = weekMeta.endISO.split('T')[0];
+    const from = today > weekStart ? today : weekStart;
+    if (from > weekEnd) return outlook; // week is over
+
+    try {
+      if (!teamAbbrev) throw new Error('no MLB club on the ESPN roster');
+
+      const remaining = remainingGamesAsOf(await mlbApiService.getTeamGames(teamAbbrev, from, weekEnd), today);
+      outlook.gamesRemaining = remaining.length;
+      outlook.starts = mlbId ? probableStartsFor(remaining, mlbId) : [];
+      outlook.unannouncedGames = unannouncedGamesFor(remaining, teamAbbrev);
+
+      if (sample) {
+        const scheduled = await mlbApiService.getTeamGames(
+          teamAbbrev,
+          sample.scheduleStart ?? sample.startDate,
+          sample.scheduleEnd ?? sample.endDate
+        );
+        const played = scheduled
+          .filter(g => g.status === 'final' && g.date >= sample.startDate && g.date <= sample.endDate);
+        outlook.sampleGames = played.length;
+        outlook.sampleDays = new Set(played.map(g => g.date)).size;
+      }
+    } catch (err) {
+      // Without a schedule assume a game a day and nothing announced
+      console.warn(`[WeeklyEstimate] No schedule for ${teamAbbrev || 'unknown club'}, assuming daily games:`, err);
+      outlook.gamesRemaining = Math.round((Date.parse(weekEnd) - Date.parse(from)) / 86_400_000) + 1;
+      outlook.unannouncedGames = outlook.gamesRemaining;
+    }
+    return outlook;
+  }
+
+  /**
+   * Date range covered by the (up to) four weeks before `currentWeek`
+   */
+  private async getLast4WeeksWindow(currentWeek: number): Promise<SampleWindow | null> {
+    const weeks = await this.getLast4Weeks(currentWeek);
+    const weekMetaMap = await dataService.getWeekMetaMap();
+    const first = weekMetaMap[weeks[weeks.length - 1]];
+    const last = weekMetaMap[weeks[0]];
+    if (!first?.startISO || !last?.endISO) return null;
+    return { startDate: first.startISO.split('T')[0], endDate: last.endISO.split('T')[0] };
+  }
+
+  private async getLast4Weeks(currentWeek: number): Promise<number[]> {
+    const weekMetaMap = await dataService.getWeekMetaMap();
+    const weeks = [];
+    for (let i = 1; i <= 4; i++) {
+      const weekNum = currentWeek - i;
+      if (weekNum > 0 && weekMetaMap[weekNum]) {
+        weeks.push(weekNum);
+      }
+    }
+    return weeks;
+  }
+
   /**
    * Get last 4 weeks of MLB data for a player
    */
@@ -193,14 +385,7 @@ export class WeeklyEstimateService {
     try {
       // Get the last 4 weeks of dates
       const weekMetaMap = await dataService.getWeekMetaMap();
-      const weeks = [];
-      
-      for (let i = 1; i <= 4; i++) {
-        const weekNum = currentWeek - i;
-        if (weekNum > 0 && weekMetaMap[weekNum]) {
-          weeks.push(weekNum);
-        }
-      }
+      const weeks = await this.getLast4Weeks(currentWeek);
 
       // Get stats for each week
       for (const weekNum of weeks) {
@@ -233,191 +418,179 @@ export class WeeklyEstimateService {
   }
 
   /**
-   * Get season average data for a player
+   * The player's MLB games this season before the matchup period, or all of
+   * last season's if they haven't played yet this year. The club schedule
+   * is read over the whole span so every player shares the same fetch.
    */
-  private async getSeasonAverage(playerId: number, currentWeek: number): Promise<PlayerDailyStat[]> {
-    // For now, return empty array - this would need to be implemented
-    // to get cumulative season stats from MLB API
-    return [];
+  private async getSeasonAverage(mlbId: number, currentWeek: number): Promise<{ stats: PlayerDailyStat[]; window: SampleWindow } | null> {
+    const weekStart = (await dataService.getWeekMetaMap())[currentWeek]?.startISO?.split('T')[0];
+    if (!weekStart) return null;
+    const season = Number(weekStart.slice(0, 4));
+
+    const thisSeason = (await mlbStatService.getSeasonGameLog(mlbId, season)).filter(s => s.date < weekStart);
+    if (thisSeason.length > 0) {
+      return {
+        stats: thisSeason,
+        window: {
+          startDate: thisSeason[0].date,
+          endDate: thisSeason[thisSeason.length - 1].date,
+          scheduleStart: `${season}-03-01`,
+          scheduleEnd: this.toDateString(new Date(Date.parse(weekStart) - 86_400_000)),
+        },
+      };
+    }
+
+    const lastSeason = await mlbStatService.getSeasonGameLog(mlbId, season - 1);
+    if (lastSeason.length > 0) {
+      return {
+        stats: lastSeason,
+        window: {
+          startDate: lastSeason[0].date,
+          endDate: lastSeason[lastSeason.length - 1].date,
+          scheduleStart: `${season - 1}-03-01`,
+          scheduleEnd: `${season - 1}-11-30`,
+        },
+      };
+    }
+    return null;
   }
 
   /**
-   * Get minor league estimate (placeholder)
+   * MLB-equivalent projection from the player's minor-league lines this
+   * season (last season if none yet), every level summed after translation
    */
-  private async getMinorLeagueEstimate(playerId: number, fullName: string): Promise<PlayerEstimate> {
-    // Placeholder implementation - would need minor league API integration
-    return {
-      playerId,
-      fullName,
-      estimate: this.getEmptyEstimate(),
-      dataSource: 'minorLeague',
-      gamesProjected: 7 // Assume 7 games per week
-    };
+  private async getMinorLeagueEstimate(
+    mlbId: number,
+    fullName: string,
+    week: number,
+    outlook: ScheduleOutlook,
+    position?: string
+  ): Promise<PlayerEstimate | null> {
+    const weekStart = (await dataService.getWeekMetaMap())[week]?.startISO;
+    const season = weekStart ? Number(weekStart.slice(0, 4)) : (await dataService.getReferenceDate()).getUTCFullYear();
+
+    for (const year of [season, season - 1]) {
+      const lines = await Promise.all(MINOR_LEAGUE_SPORT_IDS.map(sportId => mlbStatService.getSeasonLine(mlbId, year, sportId)));
+      const components = emptyComponents();
+      let games = 0;
+      for (const line of lines) {
+        if (!line) continue;
+        addComponents(components, translateMinorLeagueComponents(line.components, line.sportId));
+        games += line.games;
+      }
+      if (games === 0) continue;
+
+      console.log(`[WeeklyEstimate] ${fullName}: MLE from ${games} minor-league games in ${year}`);
+      // One entry per game played, so the per-game projection below applies
+      const stats = [dailyStatFromComponents(mlbId, `${year}`, components)];
+      return this.projectRemaining(stats, fullName, 'minorLeague', outlook, position, games);
+    }
+    return null;
   }
 
   /**
    * Calculate estimate from recent 4-week data
    */
-  private calculateFromRecentData(stats: PlayerDailyStat[], fullName: string): PlayerEstimate {
-    const totals = this.aggregatePlayerStats(stats);
-    const gamesPlayed = stats.length;
-    const gamesProjected = 7; // Assume 7 games per week
-    
-    // Project weekly totals based on recent performance
-    const multiplier = gamesProjected / Math.max(gamesPlayed, 1);
-    
-    return {
-      playerId: stats[0]?.playerId || 0,
-      fullName,
-      estimate: {
-        runs: Math.round(totals.hitting.R * multiplier),
-        homeRuns: Math.round(totals.hitting.HR * multiplier),
-        rbis: Math.round(totals.hitting.RBI * multiplier),
-        stolenBases: Math.round(totals.hitting.SB * multiplier),
-        battingAverage: totals.hitting.AVG,
-        strikeouts: Math.round(totals.pitching.K * multiplier),
-        wins: Math.round(totals.pitching.W * multiplier),
-        saves: Math.round(totals.pitching.SV * multiplier),
-        era: totals.pitching.ERA,
-        whip: totals.pitching.WHIP
-      },
-      dataSource: 'last4weeks',
-      gamesProjected
-    };
+  private calculateFromRecentData(stats: PlayerDailyStat[], fullName: string, outlook: ScheduleOutlook, position?: string): PlayerEstimate {
+    return this.projectRemaining(stats, fullName, 'last4weeks', outlook, position);
   }
 
   /**
    * Calculate estimate from season data
    */
-  private calculateFromSeasonData(stats: PlayerDailyStat[], fullName: string): PlayerEstimate {
-    // Similar to recent data but with season averages
-    const totals = this.aggregatePlayerStats(stats);
-    const gamesPlayed = stats.length;
-    const gamesProjected = 7;
-    
-    const multiplier = gamesProjected / Math.max(gamesPlayed, 1);
-    
+  private calculateFromSeasonData(stats: PlayerDailyStat[], fullName: string, outlook: ScheduleOutlook, position?: string): PlayerEstimate {
+    return this.projectRemaining(stats, fullName, 'seasonAvg', outlook, position);
+  }
+
+  /**
+   * Scale a player's sample to the games their club has left this week.
+   * Starting pitchers are projected per start (announced probables plus a
+   * rotation share of the unannounced games); everyone else per club game,
+   * so a hitter who sat a third of the sample plays two thirds of what's left.
+   * `daysPlayed` defaults to one per entry in `stats`.
+   */
+  private projectRemaining(
+    stats: PlayerDailyStat[],
+    fullName: string,
+    dataSource: PlayerEstimate['dataSource'],
+    outlook: ScheduleOutlook,
+    position?: string,
+    daysPlayed = stats.length
+  ): PlayerEstimate {
+    const totals = this.aggregatePlayerStats(stats).components;
+
+    let gamesProjected: number;
+    let multiplier: number;
+    let starts: PlannedStart[] | undefined;
+    if (this.isStartingPitcher(totals, position)) {
+      starts = outlook.starts;
+      gamesProjected = starts.length + outlook.unannouncedGames / ROTATION_SIZE;
+      multiplier = gamesProjected / Math.max(totals.gamesStarted || daysPlayed, 1);
+    } else if (outlook.sampleGames > 0) {
+      // Per-game rate x share of club games played x games left; a
+      // doubleheader day counts twice on both sides of the ratio
+      gamesProjected = Math.min(1, daysPlayed / Math.max(outlook.sampleDays, 1)) * outlook.gamesRemaining;
+      multiplier = outlook.gamesRemaining / outlook.sampleGames;
+    } else {
+      gamesProjected = outlook.gamesRemaining;
+      multiplier = gamesProjected / Math.max(daysPlayed, 1);
+    }
+
+    const components = scaleComponents(totals, multiplier);
     return {
       playerId: stats[0]?.playerId || 0,
       fullName,
-      estimate: {
-        runs: Math.round(totals.hitting.R * multiplier),
-        homeRuns: Math.round(totals.hitting.HR * multiplier),
-        rbis: Math.round(totals.hitting.RBI * multiplier),
-        stolenBases: Math.round(totals.hitting.SB * multiplier),
-        battingAverage: totals.hitting.AVG,
-        strikeouts: Math.round(totals.pitching.K * multiplier),
-        wins: Math.round(totals.pitching.W * multiplier),
-        saves: Math.round(totals.pitching.SV * multiplier),
-        era: totals.pitching.ERA,
-        whip: totals.pitching.WHIP
-      },
-      dataSource: 'seasonAvg',
-      gamesProjected
+      estimate: buildStatLine(components),
+      dataSource,
+      gamesProjected,
+      gamesRemaining: outlook.gamesRemaining,
+      probableStarts: starts?.length,
+      starts,
+      components
     };
   }
 
+  private isStartingPitcher(totals: StatComponents, position?: string): boolean {
+    if (position === 'SP') return true;
+    if (position && position !== 'P') return false;
+    return totals.gamesStarted > 0 && totals.gamesStarted * 2 >= totals.gamesPitched;
+  }
+
   /**
    * Aggregate individual player stats
    */
   private aggregatePlayerStats(stats: PlayerDailyStat[]): PlayerDailyStat {
-    const totals: PlayerDailyStat = {
-      playerId: stats[0]?.playerId || 0,
-      date: '',
-      hitting: { AB: 0, R: 0, H: 0, HR: 0, RBI: 0, SB: 0, AVG: 0 },
-      pitching: { IP: 0, K: 0, W: 0, SV: 0, ERA: 0, WHIP: 0, QS: 0 }
-    };
-
-    let totalER = 0;
-    let totalWHIPNumerator = 0;
-
-    for (const stat of stats) {
-      totals.hitting.AB += stat.hitting.AB;
-      totals.hitting.R += stat.hitting.R;
-      totals.hitting.H += stat.hitting.H;
-      totals.hitting.HR += stat.hitting.HR;
-      totals.hitting.RBI += stat.hitting.RBI;
-      totals.hitting.SB += stat.hitting.SB;
-
-      totals.pitching.IP += stat.pitching.IP;
-      totals.pitching.K += stat.pitching.K;
-      totals.pitching.W += stat.pitching.W;
-      totals.pitching.SV += stat.pitching.SV;
-      totals.pitching.QS += stat.pitching.QS;
-
-      // For ERA and WHIP, we need to recalculate from components
-      totalER += (stat.pitching.ERA * stat.pitching.IP) / 9;
-      totalWHIPNumerator += stat.pitching.WHIP * stat.pitching.IP;
-    }
-
-    // Calculate final rates
-    totals.hitting.AVG = totals.hitting.AB > 0 ? totals.hitting.H / totals.hitting.AB : 0;
-    totals.pitching.ERA = totals.pitching.IP > 0 ? (totalER * 9) / totals.pitching.IP : 0;
-    totals.pitching.WHIP = totals.pitching.IP > 0 ? totalWHIPNumerator / totals.pitching.IP : 0;
-
-    return totals;
+    // Sum raw components; AVG/ERA/WHIP come from the summed H, AB, ER, BB and outs
+    const components = emptyComponents();
+    for (const stat of stats) addComponents(components, stat.components);
+    return dailyStatFromComponents(stats[0]?.playerId || 0, '', components);
   }
 
   /**
-   * Aggregate team estimates from individual players
+   * Aggregate team estimates from individual players, on top of the
+   * components already banked this week
    */
-  private aggregateTeamEstimates(playerEstimates: PlayerEstimate[]): WeeklyEstimate {
-    const totals = this.getEmptyEstimate();
-    let battingAvgNumerator = 0;
-    let battingAvgDenominator = 0;
-    let eraTotal = 0;
-    let whipTotal = 0;
-    let pitchingCount = 0;
+  private aggregateTeamEstimates(playerEstimates: PlayerEstimate[], actual?: StatComponents): WeeklyEstimate {
+    const components = emptyComponents();
+    if (actual) addComponents(components, actual);
 
     for (const player of playerEstimates) {
-      const est = player.estimate;
-      
-      // Sum counting stats
-      totals.runs += est.runs;
-      totals.homeRuns += est.homeRuns;
-      totals.rbis += est.rbis;
-      totals.stolenBases += est.stolenBases;
-      totals.strikeouts += est.strikeouts;
-      totals.wins += est.wins;
-      totals.saves += est.saves;
-
-      // Handle rate stats
-      if (est.battingAverage > 0) {
-        battingAvgNumerator += est.battingAverage;
-        battingAvgDenominator += 1;
-      }
-      
-      if (est.era > 0) {
-        eraTotal += est.era;
-        whipTotal += est.whip;
-        pitchingCount += 1;
-      }
+      if (player.components) addComponents(components, player.components);
     }
 
-    // Calculate final rate stats
-    totals.battingAverage = battingAvgDenominator > 0 ? battingAvgNumerator / battingAvgDenominator : 0;
-    totals.era = pitchingCount > 0 ? eraTotal / pitchingCount : 0;
-    totals.whip = pitchingCount > 0 ? whipTotal / pitchingCount : 0;
-
-    return totals;
+    // Rates come from the summed H/AB, ER, BB and outs, never from averaging
+    return buildStatLine(components);
   }
 
   /**
    * Get empty estimate object
    */
   private getEmptyEstimate(): WeeklyEstimate {
-    return {
-      runs: 0,
-      homeRuns: 0,
-      rbis: 0,
-      stolenBases: 0,
-      battingAverage: 0,
-      strikeouts: 0,
-      wins: 0,
-      saves: 0,
-      era: 0,
-      whip: 0
-    };
+    return buildStatLine(emptyComponents());
+  }
+
+  private toDateString(date: Date): string {
+    return date.toISOString().split('T')[0];
   }
 
   /**
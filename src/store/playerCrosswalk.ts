@@ -0,0 +1,148 @@
+import { ESPN_CONFIG } from '../services/espnApiService';
+import { CrosswalkEntry, CrosswalkMethod } from '../types/fantasy';
+import { parseCsvRecords, toCsv } from '../utils/csv';
+import { deleteCrosswalkEntry, getAllCrosswalkEntries, putCrosswalkEntries } from './snapshotDb';
+
+/*
+ * ESPN playerId -> MLB personId crosswalk.
+ *
+ * Consulted before any fuzzy matching, so each player is matched once and
+ * then looked up by id. Entries live in memory for synchronous lookups and
+ * are written through to IndexedDB. A bundled ID register
+ * (public/player_id_register.csv) seeds the table on first load.
+ */
+
+const REGISTER_URL = '/player_id_register.csv';
+const CSV_HEADER = ['espnPlayerId', 'mlbPlayerId', 'fullName', 'confidence', 'method', 'season', 'lastVerified'];
+
+// Column names accepted on import: our own export, SFBB's PLAYERIDMAP and Chadwick-style keys
+const ESPN_COLUMNS = ['espnplayerid', 'espnid', 'key_espn'];
+const MLB_COLUMNS = ['mlbplayerid', 'mlbid', 'key_mlbam'];
+const NAME_COLUMNS = ['fullname', 'playername', 'espnname', 'mlbname'];
+
+// A mapping is only replaced by one from an equally or more trusted method
+const METHOD_RANK: Record<CrosswalkMethod, number> = {
+  search: 0,
+  matcher: 1,
+  import: 2,
+  register: 2,
+  manual: 3,
+};
+
+function pick(record: Record<string, string>, columns: string[]): string {
+  for (const c of columns) if (record[c]) return record[c];
+  return '';
+}
+
+export class PlayerCrosswalk {
+  private entries = new Map<number, CrosswalkEntry>();
+  private loading: Promise<void> | null = null;
+
+  /** Load persisted entries (and seed from the register) once per session. */
+  ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          for (const e of await getAllCrosswalkEntries()) this.entries.set(e.espnPlayerId, e);
+        } catch (err) {
+          console.warn('[Crosswalk] IndexedDB unavailable; crosswalk will not persist', err);
+        }
+        await this.seedFromRegister();
+        console.log(`[Crosswalk] ${this.entries.size} players mapped`);
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Trusted mapping for an ESPN player, if any. Name-search guesses are never
+   * trusted, so the matcher still runs for those players and replaces them;
+   * matcher results from earlier seasons are ignored so they get re-verified
+   * once a season.
+   */
+  get(espnPlayerId: number): CrosswalkEntry | undefined {
+    const entry = this.entries.get(espnPlayerId);
+    if (!entry || entry.method === 'search') return undefined;
+    if (entry.method === 'matcher' && entry.season !== ESPN_CONFIG.SEASON) return undefined;
+    return entry;
+  }
+
+  /** Any stored mapping, guesses included; for review screens, not look-ups. */
+  peek(espnPlayerId: number): CrosswalkEntry | undefined {
+    return this.entries.get(espnPlayerId);
+  }
+
+  getMlbId(espnPlayerId: number): number | undefined {
+    return this.get(espnPlayerId)?.mlbPlayerId;
+  }
+
+  all(): CrosswalkEntry[] {
+    return [...this.entries.values()].sort((a, b) => a.fullName.localeCompare(b.fullName));
+  }
+
+  /** Record mappings, keeping any existing mapping from a more trusted method. */
+  async record(
+    mappings: Array<Pick<CrosswalkEntry, 'espnPlayerId' | 'mlbPlayerId' | 'fullName' | 'confidence' | 'method'>>
+  ): Promise<number> {
+    const now = Date.now();
+    const changed: CrosswalkEntry[] = [];
+    for (const m of mappings) {
+      const existing = this.entries.get(m.espnPlayerId);
+      if (existing && METHOD_RANK[existing.method] > METHOD_RANK[m.method]) continue;
+      const unchanged = existing?.mlbPlayerId === m.mlbPlayerId && existing.method === m.method && existing.season === ESPN_CONFIG.SEASON;
+      if (unchanged) continue;
+      const entry: CrosswalkEntry = { ...m, season: ESPN_CONFIG.SEASON, lastVerified: now };
+      this.entries.set(entry.espnPlayerId, entry);
+      changed.push(entry);
+    }
+    try {
+      await putCrosswalkEntries(changed);
+    } catch (err) {
+      console.warn('[Crosswalk] Could not persist mappings', err);
+    }
+    return changed.length;
+  }
+
+  async remove(espnPlayerId: number): Promise<void> {
+    this.entries.delete(espnPlayerId);
+    await deleteCrosswalkEntry(espnPlayerId).catch(err => console.warn('[Crosswalk] Could not delete mapping', err));
+  }
+
+  toCSV(): string {
+    return toCsv(CSV_HEADER, this.all().map(e => [
+      e.espnPlayerId, e.mlbPlayerId, e.fullName, e.confidence.toFixed(3), e.method, e.season, new Date(e.lastVerified).toISOString(),
+    ]));
+  }
+
+  /**
+   * Import a CSV (our export, or a public ID register with ESPN and MLB id
+   * columns). Returns how many mappings were added or updated.
+   */
+  async importCSV(text: string, method: CrosswalkMethod = 'import'): Promise<number> {
+    const mappings = parseCsvRecords(text)
+      .map(r => ({
+        espnPlayerId: Number(pick(r, ESPN_COLUMNS)),
+        mlbPlayerId: Number(pick(r, MLB_COLUMNS)),
+        fullName: pick(r, NAME_COLUMNS) || 'Unknown',
+        confidence: r.confidence ? Number(r.confidence) : 1,
+        // Re-importing our own export keeps each row's original method
+        method: method === 'import' && r.method in METHOD_RANK ? r.method as CrosswalkMethod : method,
+      }))
+      .filter(m => m.espnPlayerId > 0 && m.mlbPlayerId > 0);
+    const count = await this.record(mappings);
+    console.log(`[Crosswalk] Imported ${count} of ${mappings.length} mappings`);
+    return count;
+  }
+
+  private async seedFromRegister(): Promise<void> {
+    try {
+      const res = await fetch(REGISTER_URL);
+      if (!res.ok) return;
+      await this.importCSV(await res.text(), 'register');
+    } catch {
+      // the register is optional
+    }
+  }
+}
+
+export const playerCrosswalk = new PlayerCrosswalk();
@@ -1,6 +1,9 @@
-import { dataService, STARTER_SLOT_IDS } from '../services/dataService';
-
-const MAX_SNAPSHOTS = 7;
+import { dataService, isStarterSlot } from '../services/dataService';
+import { ESPN_CONFIG } from '../services/espnApiService';
+import { getFixtureMode } from '../services/fixtureMode';
+import { RosterSnapshot, SnapshotSource, TeamRosterSnapshot } from '../types/fantasy';
+import { todayET } from '../utils/easternTime';
+import { getSnapshot, hasSnapshot, putSnapshot } from './snapshotDb';
 
 function simpleHash(str: string): number {
   let h = 0;
@@ -8,8 +11,6 @@ function simpleHash(str: string): number {
   return h >>> 0;
 }
 
-const KEY_PREFIX = 'roster-history-';
-
 async function getCurrentWeekSafe() {
   try {
     return await dataService.getCurrentWeek();
@@ -18,40 +19,43 @@ async function getCurrentWeekSafe() {
   }
 }
 
+function buildSnapshot(date: string, teams: TeamRosterSnapshot[], source: SnapshotSource, scoringPeriodId?: number): RosterSnapshot {
+  return {
+    snapshotDate: date,
+    season: Number(date.slice(0, 4)),
+    scoringPeriodId,
+    createdAt: Date.now(),
+    hash: simpleHash(JSON.stringify(teams)),
+    source,
+    teams,
+  };
+}
+
 export async function snapshotToday(): Promise<void> {
-  const today = new Date().toISOString().slice(0, 10); // YYYY-MM-DD
-  const key = `${KEY_PREFIX}${today}`;
-  const existingRaw = localStorage.getItem(key);
-  const existingHash = existingRaw ? (() => { try { return JSON.parse(existingRaw).hash; } catch { return null; } })() : null;
+  // Replayed fixtures are not today's rosters; keep them out of the history
+  if (getFixtureMode() === 'replay') return;
+  // Keyed by the ET scoring day, like the proxy's snapshots
+  const today = todayET();
 
   try {
+    const existing = await getSnapshot(today);
+    if (existing?.source === 'server') return; // the proxy scheduler's copy is authoritative
     const teams = await dataService.getTeams();
-    const snapshots: any[] = [];
+    const snapshots: TeamRosterSnapshot[] = [];
     for (const t of teams) {
       const week = await getCurrentWeekSafe();
       const roster = await dataService.getTeamRoster(t.id, week);
-      const players = roster.map(p => ({ id: p.playerId, slot: p.lineupSlotId }));
+      const players = roster.map(p => ({ id: p.playerId, slot: p.lineupSlotId, name: p.name }));
       snapshots.push({ teamId: t.id, players });
     }
-    // compute hash
-    const hashSource = JSON.stringify(snapshots);
-    const hash = simpleHash(hashSource);
-    if (hash === existingHash) {
+
+    const snapshot = buildSnapshot(today, snapshots, 'live');
+    if (existing && snapshot.hash === existing.hash) {
       console.log(`[RosterHistory] Snapshot unchanged for ${today}`);
     } else {
-      const payload = { snapshotDate: today, createdAt: Date.now(), hash, teams: snapshots };
-      localStorage.setItem(key, JSON.stringify(payload));
+      await putSnapshot(snapshot);
       console.log(`[RosterHistory] Snapshot for ${today} saved (${snapshots.length} teams)`);
     }
-
-    // Prune old snapshots
-    const keys = Object.keys(localStorage).filter(k => k.startsWith(KEY_PREFIX));
-    if (keys.length > MAX_SNAPSHOTS) {
-      keys.sort(); // lexicographic sorts by date since YYYY-MM-DD
-      const toDelete = keys.slice(0, keys.length - MAX_SNAPSHOTS);
-      toDelete.forEach(k => localStorage.removeItem(k));
-      if (toDelete.length) console.log(`[RosterHistory] Pruned ${toDelete.length} old snapshots`);
-    }
   } catch (err) {
     console.warn('[RosterHistory] Failed snapshot:', err);
   }
@@ -70,7 +74,10 @@ export async function backfillCurrentWeek(matchupPeriodId: number, startISO: str
   }
 
   // Determine which dates are missing
-  const missing = dates.filter(ds => !localStorage.getItem(`${KEY_PREFIX}${ds}`));
+  const missing: string[] = [];
+  for (const ds of dates) {
+    if (!(await hasSnapshot(ds))) missing.push(ds);
+  }
   if (missing.length === 0) return;
 
   const teams = await dataService.getTeams();
@@ -79,31 +86,51 @@ export async function backfillCurrentWeek(matchupPeriodId: number, startISO: str
   // Fallback: if we don't have daily scoring ids, use matchupPeriodId for all
   while (scoringIds.length < 7) scoringIds.push(matchupPeriodId);
 
-  for (let idx = 0; idx < missing.length; idx++) {
-    const dateStr = missing[idx];
-    const scoringId = scoringIds[idx] || matchupPeriodId;
-    const key = `${KEY_PREFIX}${dateStr}`;
+  for (const dateStr of missing) {
+    const scoringId = scoringIds[dates.indexOf(dateStr)] || matchupPeriodId;
 
     try {
-      const snapshots: any[] = [];
+      const snapshots: TeamRosterSnapshot[] = [];
       for (const t of teams) {
-        const roster = await dataService.getTeamRoster(t.id, scoringId);
-        const players = roster.map((p: any) => ({ id: p.playerId, slot: p.lineupSlotId }));
+        const roster = await dataService.getTeamRosterForDay(t.id, scoringId);
+        const players = roster.map((p: any) => ({ id: p.playerId, slot: p.lineupSlotId, name: p.name }));
         snapshots.push({ teamId: t.id, players });
       }
-      const payload = { snapshotDate: dateStr, createdAt: Date.now(), hash: simpleHash(JSON.stringify(snapshots)), teams: snapshots };
-      localStorage.setItem(key, JSON.stringify(payload));
+      await putSnapshot(buildSnapshot(dateStr, snapshots, 'backfill', scoringId));
       console.log(`[RosterHistory] Back-filled snapshot for ${dateStr}`);
     } catch(e) {
       console.warn(`[RosterHistory] Failed back-fill for ${dateStr}`, e);
     }
   }
+}
 
-  // Prune to MAX_SNAPSHOTS (already handled by snapshotToday but call again)
-  const keys = Object.keys(localStorage).filter(k => k.startsWith(KEY_PREFIX));
-  if (keys.length > MAX_SNAPSHOTS) {
-    keys.sort();
-    const toDelete = keys.slice(0, keys.length - MAX_SNAPSHOTS);
-    toDelete.forEach(k => localStorage.removeItem(k));
+/**
+ * Fetch the proxy's scheduler-captured snapshot for a date. Server snapshots
+ * are authoritative, so a hit is also written through to IndexedDB.
+ */
+async function fetchServerSnapshot(date: string): Promise<RosterSnapshot | null> {
+  try {
+    const res = await fetch(`${ESPN_CONFIG.PROXY_URL}/snapshots/${date}`);
+    if (!res.ok) return null;
+    const snapshot = await res.json() as RosterSnapshot;
+    putSnapshot(snapshot).catch(err => console.warn('[RosterHistory] Could not cache server snapshot', err));
+    return snapshot;
+  } catch {
+    return null; // proxy offline – fall back to local history
   }
-} 
\ No newline at end of file
+}
+
+/** Best available snapshot for a date: local server-sourced copy, proxy, then any local copy. */
+export async function getSnapshotForDate(date: string): Promise<RosterSnapshot | null> {
+  const local = await getSnapshot(date).catch(() => null);
+  if (local?.source === 'server') return local;
+  return (await fetchServerSnapshot(date)) ?? local;
+}
+
+/** ESPN player ids in a team's starting slots on the given date, or [] if no snapshot exists. */
+export async function getRosterForDate(teamId: number, date: string): Promise<number[]> {
+  const snapshot = await getSnapshotForDate(date);
+  const team = snapshot?.teams.find(t => t.teamId === teamId);
+  if (!team) return [];
+  return team.players.filter(p => isStarterSlot(p.slot)).map(p => p.id);
+}
@@ -0,0 +1,233 @@
+import { CrosswalkEntry, RosterSnapshot } from '../types/fantasy';
+
+/*
+ * Thin IndexedDB wrapper for roster-history snapshots and the ESPN-to-MLB
+ * player id crosswalk.
+ *
+ * Every daily snapshot is kept for the whole season (and prior seasons) so
+ * aggregation can recompute any past matchup period. Storage pressure is
+ * handled by evicting the oldest *prior-season* snapshots first; the current
+ * season is never pruned automatically.
+ */
+
+const DB_NAME = 'fantasyflow';
+const DB_VERSION = 2;
+const SNAPSHOT_STORE = 'rosterSnapshots';
+const CROSSWALK_STORE = 'playerCrosswalk';
+
+const LEGACY_KEY_PREFIX = 'roster-history-';
+const MIGRATION_FLAG = 'roster-history-migrated';
+
+// Start evicting old seasons once usage crosses this fraction of the quota
+const QUOTA_HIGH_WATER = 0.9;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && (err.name === 'QuotaExceededError' || err.code === 22);
+}
+
+export function openSnapshotDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        const store = db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'snapshotDate' });
+        store.createIndex('season', 'season', { unique: false });
+      }
+      // v2: player id crosswalk, one record per ESPN player
+      if (!db.objectStoreNames.contains(CROSSWALK_STORE)) {
+        db.createObjectStore(CROSSWALK_STORE, { keyPath: 'espnPlayerId' });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).then(async db => {
+    await migrateLegacySnapshots(db);
+    requestPersistentStorage();
+    return db;
+  });
+
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+/** Ask the browser not to evict our data under storage pressure (best effort). */
+function requestPersistentStorage(): void {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return;
+  navigator.storage.persisted()
+    .then(persisted => (persisted ? true : navigator.storage.persist()))
+    .catch(() => undefined);
+}
+
+/**
+ * One-time import of the old `roster-history-YYYY-MM-DD` localStorage keys.
+ * Keys are removed once they are safely in IndexedDB.
+ */
+async function migrateLegacySnapshots(db: IDBDatabase): Promise<void> {
+  if (typeof localStorage === 'undefined' || localStorage.getItem(MIGRATION_FLAG)) return;
+
+  const keys = Object.keys(localStorage).filter(k => k.startsWith(LEGACY_KEY_PREFIX));
+  const migrated: RosterSnapshot[] = [];
+  for (const key of keys) {
+    try {
+      const raw = JSON.parse(localStorage.getItem(key) || 'null');
+      if (!raw || !Array.isArray(raw.teams)) continue;
+      const snapshotDate: string = raw.snapshotDate || key.slice(LEGACY_KEY_PREFIX.length);
+      migrated.push({
+        snapshotDate,
+        season: Number(snapshotDate.slice(0, 4)),
+        createdAt: raw.createdAt || Date.now(),
+        hash: raw.hash || 0,
+        source: 'migrated',
+        teams: raw.teams,
+      });
+    } catch {
+      console.warn(`[SnapshotDB] Skipping unreadable legacy snapshot ${key}`);
+    }
+  }
+
+  if (migrated.length > 0) {
+    const readTx = db.transaction(SNAPSHOT_STORE, 'readonly');
+    const existing = new Set(await requestToPromise(readTx.objectStore(SNAPSHOT_STORE).getAllKeys()));
+
+    // Never clobber a snapshot that is already in IndexedDB
+    const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+    const store = tx.objectStore(SNAPSHOT_STORE);
+    migrated.filter(s => !existing.has(s.snapshotDate)).forEach(s => store.put(s));
+    await transactionDone(tx);
+  }
+
+  keys.forEach(k => localStorage.removeItem(k));
+  localStorage.setItem(MIGRATION_FLAG, String(Date.now()));
+  if (migrated.length) console.log(`[SnapshotDB] Migrated ${migrated.length} snapshots from localStorage`);
+}
+
+export async function getSnapshot(date: string): Promise<RosterSnapshot | null> {
+  const db = await openSnapshotDb();
+  const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+  const result = await requestToPromise(tx.objectStore(SNAPSHOT_STORE).get(date));
+  return (result as RosterSnapshot | undefined) ?? null;
+}
+
+export async function hasSnapshot(date: string): Promise<boolean> {
+  const db = await openSnapshotDb();
+  const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+  const key = await requestToPromise(tx.objectStore(SNAPSHOT_STORE).getKey(date));
+  return key !== undefined;
+}
+
+/** All stored snapshot dates (YYYY-MM-DD), ascending. Optionally limited to one season. */
+export async function listSnapshotDates(season?: number): Promise<string[]> {
+  const db = await openSnapshotDb();
+  const tx = db.transaction(SNAPSHOT_STORE, 'readonly');
+  const store = tx.objectStore(SNAPSHOT_STORE);
+  const keys = season === undefined
+    ? await requestToPromise(store.getAllKeys())
+    : await requestToPromise(store.index('season').getAllKeys(season));
+  return (keys as string[]).sort();
+}
+
+async function deleteSnapshots(dates: string[]): Promise<void> {
+  if (dates.length === 0) return;
+  const db = await openSnapshotDb();
+  const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+  const store = tx.objectStore(SNAPSHOT_STORE);
+  dates.forEach(d => store.delete(d));
+  await transactionDone(tx);
+}
+
+/**
+ * Evict prior-season snapshots, oldest first, until `count` have been removed.
+ * Returns how many were actually deleted.
+ */
+async function evictPriorSeasons(currentSeason: number, count: number): Promise<number> {
+  const all = await listSnapshotDates();
+  const evictable = all.filter(d => Number(d.slice(0, 4)) < currentSeason).slice(0, count);
+  await deleteSnapshots(evictable);
+  if (evictable.length) console.warn(`[SnapshotDB] Evicted ${evictable.length} prior-season snapshots to free space`);
+  return evictable.length;
+}
+
+/** Check the origin's storage estimate and evict old seasons when close to the quota. */
+async function ensureHeadroom(currentSeason: number): Promise<void> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return;
+  try {
+    const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+    if (quota > 0 && usage / quota > QUOTA_HIGH_WATER) {
+      console.warn(`[SnapshotDB] Storage ${(100 * usage / quota).toFixed(1)}% full`);
+      await evictPriorSeasons(currentSeason, 30);
+    }
+  } catch {
+    // estimate() is advisory only
+  }
+}
+
+async function writeSnapshot(snapshot: RosterSnapshot): Promise<void> {
+  const db = await openSnapshotDb();
+  const tx = db.transaction(SNAPSHOT_STORE, 'readwrite');
+  tx.objectStore(SNAPSHOT_STORE).put(snapshot);
+  await transactionDone(tx);
+}
+
+/**
+ * Persist a snapshot. On a quota error we evict prior-season data and retry
+ * once; if there is nothing left to evict the error is re-thrown.
+ */
+export async function putSnapshot(snapshot: RosterSnapshot): Promise<void> {
+  await ensureHeadroom(snapshot.season);
+  try {
+    await writeSnapshot(snapshot);
+  } catch (err) {
+    if (!isQuotaError(err)) throw err;
+    const freed = await evictPriorSeasons(snapshot.season, 60);
+    if (freed === 0) {
+      console.error('[SnapshotDB] Storage full and no prior-season snapshots left to evict');
+      throw err;
+    }
+    await writeSnapshot(snapshot);
+  }
+}
+
+export async function getAllCrosswalkEntries(): Promise<CrosswalkEntry[]> {
+  const db = await openSnapshotDb();
+  const tx = db.transaction(CROSSWALK_STORE, 'readonly');
+  return (await requestToPromise(tx.objectStore(CROSSWALK_STORE).getAll())) as CrosswalkEntry[];
+}
+
+export async function putCrosswalkEntries(entries: CrosswalkEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const db = await openSnapshotDb();
+  const tx = db.transaction(CROSSWALK_STORE, 'readwrite');
+  const store = tx.objectStore(CROSSWALK_STORE);
+  entries.forEach(e => store.put(e));
+  await transactionDone(tx);
+}
+
+export async function deleteCrosswalkEntry(espnPlayerId: number): Promise<void> {
+  const db = await openSnapshotDb();
+  const tx = db.transaction(CROSSWALK_STORE, 'readwrite');
+  tx.objectStore(CROSSWALK_STORE).delete(espnPlayerId);
+  await transactionDone(tx);
+}
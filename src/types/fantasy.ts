@@ -1,3 +1,5 @@
+import type { TeamStatLine } from '../services/categoryRegistry';
+
 // Core Fantasy Baseball Types
 export interface Player {
   id: string;
@@ -49,9 +51,14 @@ export interface Matchup {
 }
 
 export interface ScoringCategory {
-  name: string;
-  key: keyof PlayerStats;
+  statId: number;          // ESPN stat id
+  key: string;             // key in team stat lines, e.g. 'onBasePercentage'
+  name: string;            // e.g. 'On-Base Percentage'
+  abbrev: string;          // e.g. 'OBP'
   type: 'batting' | 'pitching';
+  lowerIsBetter: boolean;  // ESPN scoringItems[].isReverseItem
+  decimals: number;
+  points?: number;         // points leagues only
 }
 
 // API Response Types
@@ -167,4 +174,69 @@ export interface RosterEntry {
     position: string;
     proTeam: string;
   };
-}
\ No newline at end of file
+}
+
+// Roster history snapshot schema (persisted in IndexedDB, one record per day)
+export interface SnapshotPlayer {
+  id: number;
+  slot: number;
+  name?: string;   // missing from snapshots taken before names were stored
+}
+
+export interface TeamRosterSnapshot {
+  teamId: number;
+  players: SnapshotPlayer[];
+}
+
+export type SnapshotSource = 'live' | 'backfill' | 'migrated' | 'server';
+
+export interface RosterSnapshot {
+  /** YYYY-MM-DD, also the primary key */
+  snapshotDate: string;
+  season: number;
+  scoringPeriodId?: number;
+  createdAt: number;
+  hash: number;
+  source: SnapshotSource;
+  teams: TeamRosterSnapshot[];
+}
+
+// One starter's line for one scoring day, as used in a weekly aggregation
+export interface StatLedgerEntry {
+  teamId: number;
+  date: string;              // YYYY-MM-DD
+  scoringPeriodId?: number;
+  espnPlayerId: number;
+  playerName: string;
+  lineupSlotId: number;
+  mlbPlayerId?: number;
+  gamePks?: number[];        // both games of a doubleheader
+  stats: TeamStatLine;       // every category computed from this line's components
+  matchConfidence: number;   // 0-1; 1 when matched by id
+  matchReason: string;
+  counted: boolean;          // false when the line was left out of the team totals
+}
+
+export interface WeekAggregation {
+  teamStats: Record<number, TeamStatLine>;
+  ledger: Record<number, StatLedgerEntry[]>;
+}
+
+// ESPN-to-MLB player id crosswalk (persisted in IndexedDB, one record per ESPN player)
+export type CrosswalkMethod = 'register' | 'matcher' | 'search' | 'manual' | 'import';
+
+export interface CrosswalkEntry {
+  espnPlayerId: number;
+  mlbPlayerId: number;
+  fullName: string;
+  confidence: number;   // 0-1
+  method: CrosswalkMethod;
+  season: number;       // season the mapping was last confirmed in
+  lastVerified: number; // epoch ms
+}
+
+// Pitching maximums per matchup period (rosterSettings.lineupSlotStatLimits)
+export interface PitchingLimits {
+  gamesStarted?: number;
+  innings?: number;
+}
@@ -0,0 +1,64 @@
+// Minimum-cost assignment (Hungarian algorithm), for lineup optimisation
+
+/**
+ * Assign every row to a distinct column so the summed cost is smallest.
+ * Needs at least as many columns as rows; returns the column for each row.
+ * Costs must be finite: use a large number for "not allowed". O(n²m).
+ */
+export function solveAssignment(cost: number[][]): number[] {
+  const n = cost.length;
+  if (n === 0) return [];
+  const m = cost[0].length;
+  if (m < n) throw new Error(`solveAssignment: ${n} rows but only ${m} columns`);
+
+  // Potentials and the matching, 1-indexed with column 0 as a sentinel
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(m + 1).fill(0);
+  const rowOf = new Array<number>(m + 1).fill(0);
+  const way = new Array<number>(m + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    rowOf[0] = i;
+    let col = 0;
+    const minv = new Array<number>(m + 1).fill(Infinity);
+    const used = new Array<boolean>(m + 1).fill(false);
+    do {
+      used[col] = true;
+      const row = rowOf[col];
+      let delta = Infinity;
+      let next = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const reduced = cost[row - 1][j - 1] - u[row] - v[j];
+        if (reduced < minv[j]) {
+          minv[j] = reduced;
+          way[j] = col;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          next = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[rowOf[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      col = next;
+    } while (rowOf[col] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const prev = way[col];
+      rowOf[col] = rowOf[prev];
+      col = prev;
+    } while (col !== 0);
+  }
+
+  const result = new Array<number>(n).fill(-1);
+  for (let j = 1; j <= m; j++) if (rowOf[j]) result[rowOf[j] - 1] = j - 1;
+  return result;
+}
@@ -0,0 +1,10 @@
+// MLB and ESPN both run their baseball day on America/New_York time, and so
+// does the proxy's snapshot scheduler (proxy-server/easternTime.js).
+const etDateFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: 'America/New_York', year: 'numeric', month: '2-digit', day: '2-digit',
+});
+
+/** Today's scoring day, YYYY-MM-DD. */
+export function todayET(now = new Date()): string {
+  return etDateFormat.format(now); // en-CA formats as YYYY-MM-DD
+}
@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
-import { PlayerStats, ScoringCategory } from '../types/fantasy';
+import { ScoringCategory } from '../types/fantasy';
+import { compareCategory, formatCategoryValue, getStatDefinitionByKey } from '../services/categoryRegistry';
 
 // Tailwind CSS class merging utility
 export function cn(...inputs: ClassValue[]) {
@@ -37,28 +38,15 @@ export function calculateWHIP(walks: number, hits: number, inningsPitched: numbe
 
 // Fantasy scoring utilities
 export function compareStatCategories(
-  team1Stats: PlayerStats,
-  team2Stats: PlayerStats,
+  team1Stats: Record<string, number>,
+  team2Stats: Record<string, number>,
   categories: ScoringCategory[]
 ): { [key: string]: 'team1' | 'team2' | 'tie' } {
   const results: { [key: string]: 'team1' | 'team2' | 'tie' } = {};
 
   categories.forEach((category) => {
-    const team1Value = team1Stats[category.key] || 0;
-    const team2Value = team2Stats[category.key] || 0;
-
-    if (team1Value === team2Value) {
-      results[category.key] = 'tie';
-    } else {
-      // ERA and WHIP are "lower is better" categories
-      const isInverseCategory = category.key === 'era' || category.key === 'whip';
-      
-      if (isInverseCategory) {
-        results[category.key] = team1Value < team2Value ? 'team1' : 'team2';
-      } else {
-        results[category.key] = team1Value > team2Value ? 'team1' : 'team2';
-      }
-    }
+    // Direction comes from the league settings (ESPN isReverseItem)
+    results[category.key] = compareCategory(category, team1Stats[category.key], team2Stats[category.key]);
   });
 
   return results;
@@ -84,22 +72,9 @@ export function calculateMatchupScore(categoryResults: { [key: string]: 'team1'
 
 // Number formatting utilities
 export function formatStat(value: number, category: string): string {
-  switch (category) {
-    case 'battingAverage':
-    case 'era':
-    case 'whip':
-      return value.toFixed(3);
-    case 'runs':
-    case 'homeRuns':
-    case 'rbis':
-    case 'stolenBases':
-    case 'strikeouts':
-    case 'wins':
-    case 'saves':
-      return Math.round(value).toString();
-    default:
-      return value.toString();
-  }
+  const def = getStatDefinitionByKey(category);
+  if (!def) return value.toString();
+  return formatCategoryValue({ ...def }, value);
 }
 
 export function formatPercentage(value: number): string {
@@ -0,0 +1,17 @@
+// Innings-pitched parsing. Kept free of imports so the category registry and
+// the general helpers can both depend on it.
+
+/**
+ * Outs recorded from an MLB innings-pitched value. The digit after the dot
+ * counts outs, not tenths: "5.2" is 5 innings and 2 outs.
+ */
+export function outsFromInningsPitched(ip: string | number | null | undefined): number {
+  if (ip === null || ip === undefined || ip === '') return 0;
+  const [whole, thirds = '0'] = String(ip).split('.');
+  return Number(whole || 0) * 3 + Number(thirds.charAt(0) || 0);
+}
+
+/** Innings pitched as a true number: "5.2" -> 5.667. */
+export function parseInningsPitched(ip: string | number | null | undefined): number {
+  return outsFromInningsPitched(ip) / 3;
+}
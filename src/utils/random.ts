@@ -0,0 +1,54 @@
+// Seeded random numbers for simulations: the same seed replays the same draws
+
+export type Rng = () => number;
+
+/** mulberry32: tiny, fast and good enough for Monte Carlo. Returns [0, 1). */
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** 32-bit FNV-1a hash, for deriving a seed from a descriptive key. */
+export function seedFromString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Standard normal draw (Box-Muller). */
+export function normal(rng: Rng): number {
+  const u = 1 - rng(); // (0, 1], keeps log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+/** Poisson draw: Knuth's method for small means, a rounded normal above 30. */
+export function poisson(lambda: number, rng: Rng): number {
+  if (!(lambda > 0)) return 0;
+  if (lambda > 30) return Math.max(0, Math.round(lambda + Math.sqrt(lambda) * normal(rng)));
+  const limit = Math.exp(-lambda);
+  let k = 0;
+  let p = rng();
+  while (p > limit) {
+    k++;
+    p *= rng();
+  }
+  return k;
+}
+
+/** Binomial draw by counting successes; trial counts here are a few dozen at most. */
+export function binomial(n: number, p: number, rng: Rng): number {
+  if (n <= 0 || !(p > 0)) return 0;
+  if (p >= 1) return n;
+  let k = 0;
+  for (let i = 0; i < n; i++) if (rng() < p) k++;
+  return k;
+}
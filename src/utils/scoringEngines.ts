@@ -0,0 +1,227 @@
+import { ScoringCategory } from '../types/fantasy';
+import { compareCategory, fromEspnValue, getStatDefinition, TeamStatLine } from '../services/categoryRegistry';
+import type { ESPNScoringSettings } from '../services/espnApiService';
+import { calculateMatchupScore } from './helpers';
+
+/*
+ * Scoring formats supported by ESPN baseball leagues, selected from
+ * settings.scoringSettings.scoringType. Each head-to-head engine turns two
+ * teams' stat lines into a matchup result; rotisserie is season-long and is
+ * handled by computeRotoStandings instead.
+ */
+
+export type ScoringFormat = 'H2H_CATEGORY' | 'H2H_MOST_CATEGORIES' | 'H2H_POINTS' | 'ROTO';
+
+type CategoryResult = 'team1' | 'team2' | 'tie';
+// Category values by key; team lines also carry the components behind them
+type StatLine = Partial<TeamStatLine>;
+
+export interface MatchupOutcome {
+  categoryResults: { [key: string]: CategoryResult };
+  // Category wins (category formats) or fantasy points (points format)
+  team1Score: number;
+  team2Score: number;
+  ties: number;
+  // What the matchup adds to team 1's W-L-T in the standings
+  record: { wins: number; losses: number; ties: number };
+  // Per-category fantasy points, points format only
+  team1Points?: Record<string, number>;
+  team2Points?: Record<string, number>;
+  summary: string;  // "6-3-1" for categories, "142.5 - 120.0" for points
+}
+
+export interface ScoringEngine {
+  format: ScoringFormat;
+  label: string;
+  isPoints: boolean;
+  scoreMatchup(team1: StatLine, team2: StatLine, categories: ScoringCategory[]): MatchupOutcome;
+}
+
+const ESPN_SCORING_TYPES: Record<string, ScoringFormat> = {
+  H2H_CATEGORY: 'H2H_CATEGORY',
+  H2H_MOST_CATEGORIES: 'H2H_MOST_CATEGORIES',
+  H2H_POINTS: 'H2H_POINTS',
+  ROTO: 'ROTO',
+};
+
+export function scoringFormatFromSettings(scoringSettings: ESPNScoringSettings | undefined): ScoringFormat {
+  const type = scoringSettings?.scoringType;
+  if (type && ESPN_SCORING_TYPES[type]) return ESPN_SCORING_TYPES[type];
+  if (type) console.warn(`[ScoringEngine] Unknown ESPN scoringType ${type}; treating as H2H categories`);
+  return 'H2H_CATEGORY';
+}
+
+function categoryResults(team1: StatLine, team2: StatLine, categories: ScoringCategory[]) {
+  const results: { [key: string]: CategoryResult } = {};
+  for (const cat of categories) {
+    results[cat.key] = compareCategory(cat, team1[cat.key] ?? 0, team2[cat.key] ?? 0);
+  }
+  const { team1Score, team2Score, ties } = calculateMatchupScore(results);
+  return { results, team1Wins: team1Score, team2Wins: team2Score, ties };
+}
+
+const eachCategory: ScoringEngine = {
+  format: 'H2H_CATEGORY',
+  label: 'Head-to-head: each category',
+  isPoints: false,
+  scoreMatchup(team1, team2, categories) {
+    const { results, team1Wins, team2Wins, ties } = categoryResults(team1, team2, categories);
+    return {
+      categoryResults: results,
+      team1Score: team1Wins,
+      team2Score: team2Wins,
+      ties,
+      // Every category counts as a game in the standings
+      record: { wins: team1Wins, losses: team2Wins, ties },
+      summary: `${team1Wins}-${team2Wins}-${ties}`,
+    };
+  },
+};
+
+const mostCategories: ScoringEngine = {
+  format: 'H2H_MOST_CATEGORIES',
+  label: 'Head-to-head: most categories',
+  isPoints: false,
+  scoreMatchup(team1, team2, categories) {
+    const { results, team1Wins, team2Wins, ties } = categoryResults(team1, team2, categories);
+    // Winning more categories wins the week; the week is a single W, L or T
+    const outcome = team1Wins === team2Wins ? 'tie' : team1Wins > team2Wins ? 'win' : 'loss';
+    return {
+      categoryResults: results,
+      team1Score: team1Wins,
+      team2Score: team2Wins,
+      ties,
+      record: {
+        wins: outcome === 'win' ? 1 : 0,
+        losses: outcome === 'loss' ? 1 : 0,
+        ties: outcome === 'tie' ? 1 : 0,
+      },
+      summary: `${team1Wins}-${team2Wins}-${ties}`,
+    };
+  },
+};
+
+/**
+ * Value ESPN multiplies by the per-stat point value. Stat 34 is scored per
+ * out, while the app shows it as innings pitched.
+ */
+function pointsBasis(line: StatLine, cat: ScoringCategory): number {
+  if (cat.key === 'inningsPitched') {
+    return line.components ? line.components.outs : Number(line.inningsPitched || 0) * 3;
+  }
+  return Number(line[cat.key] || 0);
+}
+
+export function fantasyPoints(line: StatLine, categories: ScoringCategory[]): { total: number; byCategory: Record<string, number> } {
+  const byCategory: Record<string, number> = {};
+  let total = 0;
+  for (const cat of categories) {
+    const pts = pointsBasis(line, cat) * (cat.points ?? 0);
+    byCategory[cat.key] = pts;
+    total += pts;
+  }
+  return { total, byCategory };
+}
+
+const points: ScoringEngine = {
+  format: 'H2H_POINTS',
+  label: 'Head-to-head: points',
+  isPoints: true,
+  scoreMatchup(team1, team2, categories) {
+    const p1 = fantasyPoints(team1, categories);
+    const p2 = fantasyPoints(team2, categories);
+    const results: { [key: string]: CategoryResult } = {};
+    for (const cat of categories) {
+      const a = p1.byCategory[cat.key], b = p2.byCategory[cat.key];
+      results[cat.key] = a === b ? 'tie' : a > b ? 'team1' : 'team2';
+    }
+    const t1 = Math.round(p1.total * 10) / 10;
+    const t2 = Math.round(p2.total * 10) / 10;
+    return {
+      categoryResults: results,
+      team1Score: t1,
+      team2Score: t2,
+      ties: 0,
+      record: { wins: t1 > t2 ? 1 : 0, losses: t1 < t2 ? 1 : 0, ties: t1 === t2 ? 1 : 0 },
+      team1Points: p1.byCategory,
+      team2Points: p2.byCategory,
+      summary: `${t1.toFixed(1)} - ${t2.toFixed(1)}`,
+    };
+  },
+};
+
+// Roto has no weekly opponent, but a side-by-side view still compares categories
+const roto: ScoringEngine = {
+  ...eachCategory,
+  format: 'ROTO',
+  label: 'Rotisserie',
+};
+
+const ENGINES: Record<ScoringFormat, ScoringEngine> = {
+  H2H_CATEGORY: eachCategory,
+  H2H_MOST_CATEGORIES: mostCategories,
+  H2H_POINTS: points,
+  ROTO: roto,
+};
+
+export function getScoringEngine(format: ScoringFormat): ScoringEngine {
+  return ENGINES[format] || eachCategory;
+}
+
+export interface RotoStanding {
+  teamId: number;
+  totalPoints: number;
+  categoryPoints: Record<string, number>;
+  rank: number;
+}
+
+/**
+ * Season-long rotisserie standings. In each category the best team earns N
+ * points and the worst earns 1; tied teams split the points they span.
+ */
+export function computeRotoStandings(
+  seasonLines: Record<number, StatLine>,
+  categories: ScoringCategory[]
+): RotoStanding[] {
+  const teamIds = Object.keys(seasonLines).map(Number);
+  const standings: RotoStanding[] = teamIds.map(teamId => ({ teamId, totalPoints: 0, categoryPoints: {}, rank: 0 }));
+  const byTeam = new Map(standings.map(s => [s.teamId, s]));
+
+  for (const cat of categories) {
+    // Worst first, so position i is worth i + 1 points
+    const ordered = [...teamIds].sort((a, b) => {
+      const r = compareCategory(cat, seasonLines[a][cat.key] ?? 0, seasonLines[b][cat.key] ?? 0);
+      return r === 'tie' ? 0 : r === 'team1' ? 1 : -1;
+    });
+    let i = 0;
+    while (i < ordered.length) {
+      let j = i;
+      const value = seasonLines[ordered[i]][cat.key] ?? 0;
+      while (j + 1 < ordered.length && compareCategory(cat, seasonLines[ordered[j + 1]][cat.key] ?? 0, value) === 'tie') j++;
+      const shared = ((i + 1) + (j + 1)) / 2;
+      for (let k = i; k <= j; k++) {
+        const standing = byTeam.get(ordered[k])!;
+        standing.categoryPoints[cat.key] = shared;
+        standing.totalPoints += shared;
+      }
+      i = j + 1;
+    }
+  }
+
+  standings.sort((a, b) => b.totalPoints - a.totalPoints);
+  standings.forEach((s, idx) => {
+    const prev = standings[idx - 1];
+    s.rank = prev && prev.totalPoints === s.totalPoints ? prev.rank : idx + 1;
+  });
+  return standings;
+}
+
+/** ESPN `team.valuesByStat` ({ [statId]: value }) as a stat line keyed by category key. */
+export function statLineFromValuesByStat(valuesByStat: Record<string, number> = {}): Record<string, number> {
+  const line: Record<string, number> = {};
+  for (const [statId, value] of Object.entries(valuesByStat)) {
+    const def = getStatDefinition(Number(statId));
+    if (def) line[def.key] = fromEspnValue(def.statId, value);
+  }
+  return line;
+}
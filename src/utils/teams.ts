@@ -0,0 +1,32 @@
+// ESPN, statsapi and older data sources disagree on a handful of club codes
+const TEAM_ALIASES: Record<string, string> = {
+  SFG: 'SF', WSN: 'WSH', TBR: 'TB', KCR: 'KC', CHW: 'CWS', SDP: 'SD',
+  // ESPN and statsapi (2025+) use AZ and ATH
+  AZ: 'ARI', ATH: 'OAK',
+};
+
+/** Canonical club abbreviation, so ESPN and MLB teams compare equal. */
+export function normalizeTeamAbbrev(abbrev?: string): string {
+  const normalized = (abbrev || '').toUpperCase().trim();
+  return TEAM_ALIASES[normalized] || normalized;
+}
+
+const TEAM_NAMES: Record<string, string> = {
+  'Angels': 'LAA', 'Astros': 'HOU', 'Athletics': 'OAK', 'Blue Jays': 'TOR',
+  'Braves': 'ATL', 'Brewers': 'MIL', 'Cardinals': 'STL', 'Cubs': 'CHC',
+  'Diamondbacks': 'ARI', 'Dodgers': 'LAD', 'Giants': 'SF', 'Guardians': 'CLE',
+  'Mariners': 'SEA', 'Marlins': 'MIA', 'Mets': 'NYM', 'Nationals': 'WSH',
+  'Orioles': 'BAL', 'Padres': 'SD', 'Phillies': 'PHI', 'Pirates': 'PIT',
+  'Rangers': 'TEX', 'Rays': 'TB', 'Red Sox': 'BOS', 'Reds': 'CIN',
+  'Rockies': 'COL', 'Royals': 'KC', 'Tigers': 'DET', 'Twins': 'MIN',
+  'White Sox': 'CWS', 'Yankees': 'NYY'
+};
+
+/** Club abbreviation from a full club name ("Los Angeles Dodgers"), if it names an MLB club. */
+export function teamAbbrevFromName(name?: string): string | undefined {
+  if (!name) return undefined;
+  for (const [club, abbrev] of Object.entries(TEAM_NAMES)) {
+    if (name.includes(club)) return abbrev;
+  }
+  return undefined;
+}
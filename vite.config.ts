@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
@@ -30,6 +31,14 @@ export default defineConfig({
     outDir: 'dist',
     sourcemap: true,
   },
+  test: {
+    // Offline: fetch and localStorage come from src/__tests__/setup.ts
+    environment: 'node',
+    include: ['src/__tests__/**/*.test.ts'],
+    setupFiles: ['src/__tests__/setup.ts'],
+    // The fixtures are from 2025; without this the legacy API client asks for the current season
+    env: { VITE_SEASON_ID: '2025' },
+  },
   define: {
     // Enable this if you need to access environment variables
     // 'process.env': process.env,